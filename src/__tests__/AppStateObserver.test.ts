@@ -0,0 +1,94 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { AppStateObserver } from "@/limelight/lifecycle";
+
+const createAppState = (currentState: string) => {
+  let listener: ((state: string) => void) | null = null;
+  const remove = vi.fn();
+
+  return {
+    appState: {
+      currentState,
+      addEventListener: vi.fn((_type: "change", next) => {
+        listener = next;
+        return { remove };
+      }),
+    },
+    emit: (state: string) => listener?.(state),
+    remove,
+  };
+};
+
+describe("AppStateObserver", () => {
+  let observer: AppStateObserver;
+  let sendMessageSpy: ReturnType<typeof vi.fn>;
+
+  beforeEach(() => {
+    sendMessageSpy = vi.fn();
+    observer = new AppStateObserver(sendMessageSpy, () => "session-123");
+  });
+
+  afterEach(() => {
+    observer.cleanup();
+  });
+
+  it("should report React Native app state transitions", () => {
+    const { appState, emit } = createAppState("active");
+    const listener = vi.fn();
+
+    observer.setup({ appState });
+    observer.onChange(listener);
+
+    expect(observer.getState()).toBe("foreground");
+
+    emit("background");
+
+    expect(sendMessageSpy).toHaveBeenCalledWith({
+      phase: "APP_STATE",
+      sessionId: "session-123",
+      timestamp: expect.any(Number),
+      data: { state: "background", previousState: "foreground" },
+    });
+    expect(listener).toHaveBeenCalledWith("background");
+  });
+
+  it("should ignore transitional and repeated states", () => {
+    const { appState, emit } = createAppState("active");
+    observer.setup({ appState });
+
+    emit("inactive");
+    emit("active");
+
+    expect(sendMessageSpy).not.toHaveBeenCalled();
+  });
+
+  it("should remove the AppState subscription on cleanup", () => {
+    const { appState, remove } = createAppState("active");
+    observer.setup({ appState });
+
+    observer.cleanup();
+
+    expect(remove).toHaveBeenCalledOnce();
+    expect(observer.getState()).toBeNull();
+  });
+
+  it("should fall back to document visibility on web", () => {
+    const visibility = vi
+      .spyOn(document, "visibilityState", "get")
+      .mockReturnValue("visible");
+
+    observer.setup({});
+    expect(observer.getState()).toBe("foreground");
+
+    visibility.mockReturnValue("hidden");
+    document.dispatchEvent(new Event("visibilitychange"));
+
+    expect(sendMessageSpy).toHaveBeenCalledWith(
+      expect.objectContaining({
+        phase: "APP_STATE",
+        data: { state: "background", previousState: "foreground" },
+      }),
+    );
+
+    visibility.mockRestore();
+  });
+});
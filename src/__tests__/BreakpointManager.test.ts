@@ -0,0 +1,147 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { BreakpointManager } from "@/limelight/network";
+import { BREAKPOINT_TIMEOUT_MS } from "@/constants";
+import { NetworkType } from "@/types";
+
+describe("BreakpointManager", () => {
+  let manager: BreakpointManager;
+  let sendMessageSpy: ReturnType<typeof vi.fn>;
+
+  const details = {
+    id: "req-1",
+    networkType: NetworkType.FETCH,
+    url: "https://api.example.com/users",
+    method: "GET",
+    headers: {},
+  };
+
+  beforeEach(() => {
+    sendMessageSpy = vi.fn();
+    manager = new BreakpointManager(sendMessageSpy, () => "session-123");
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("should match the request stage by default", () => {
+    manager.setRules([{ id: "bp", match: { url: "*/users" } }]);
+
+    expect(manager.match(details, "request")?.id).toBe("bp");
+    expect(manager.match(details, "response")).toBeNull();
+  });
+
+  it("should skip disabled rules and non-matching requests", () => {
+    manager.setRules([
+      { id: "off", enabled: false, match: {} },
+      { id: "posts", match: { url: "*/posts" } },
+    ]);
+
+    expect(manager.match(details, "request")).toBeNull();
+  });
+
+  it("should emit a PAUSED event and resolve with edits on resume", async () => {
+    const rule = { id: "bp", match: {}, stages: ["response" as const] };
+
+    const paused = manager.pause(rule, "response", { ...details, status: 200 });
+
+    expect(sendMessageSpy).toHaveBeenCalledWith(
+      expect.objectContaining({
+        id: "req-1",
+        phase: "PAUSED",
+        sessionId: "session-123",
+        stage: "response",
+        breakpointId: "bp",
+        status: 200,
+        timeout: BREAKPOINT_TIMEOUT_MS,
+      }),
+    );
+
+    expect(manager.resume("req-1", { status: 500 }, "request")).toBe(false);
+    expect(manager.resume("req-1", { status: 500 })).toBe(true);
+    await expect(paused).resolves.toEqual({ status: 500 });
+    expect(manager.resume("req-1")).toBe(false);
+  });
+
+  it("should resume unchanged after the timeout", async () => {
+    vi.useFakeTimers();
+
+    const paused = manager.pause(
+      { id: "bp", match: {}, timeout: 1000 },
+      "request",
+      details,
+    );
+
+    vi.advanceTimersByTime(1000);
+
+    await expect(paused).resolves.toBeNull();
+    expect(manager.hasPausedCalls()).toBe(false);
+  });
+
+  it("should not pause when the desktop is not connected", async () => {
+    manager = new BreakpointManager(
+      sendMessageSpy,
+      () => "session-123",
+      () => false,
+    );
+
+    await expect(
+      manager.pause({ id: "bp", match: {} }, "request", details),
+    ).resolves.toBeNull();
+    expect(sendMessageSpy).not.toHaveBeenCalled();
+    expect(manager.hasPausedCalls()).toBe(false);
+  });
+
+  it("should pass PAUSED events through beforeSend and redact headers", () => {
+    manager = new BreakpointManager(
+      sendMessageSpy,
+      () => "session-123",
+      () => true,
+      () => ({
+        beforeSend: (event) => ({ ...event, url: "https://api.example.com" }),
+      }),
+    );
+
+    manager.pause({ id: "bp", match: {} }, "request", {
+      ...details,
+      headers: { authorization: "Bearer secret" },
+    });
+
+    expect(sendMessageSpy).toHaveBeenCalledWith(
+      expect.objectContaining({
+        phase: "PAUSED",
+        url: "https://api.example.com",
+        headers: { authorization: "[REDACTED]" },
+      }),
+    );
+  });
+
+  it("should not pause when beforeSend drops the event", async () => {
+    manager = new BreakpointManager(
+      sendMessageSpy,
+      () => "session-123",
+      () => true,
+      () => ({ beforeSend: () => null }),
+    );
+
+    await expect(
+      manager.pause({ id: "bp", match: {} }, "request", details),
+    ).resolves.toBeNull();
+    expect(sendMessageSpy).not.toHaveBeenCalled();
+    expect(manager.hasPausedCalls()).toBe(false);
+  });
+
+  it("should resume every paused call when remote rules are cleared", async () => {
+    const rule = { id: "bp", match: {} };
+    manager.setRules([rule]);
+
+    const first = manager.pause(rule, "request", details);
+    const second = manager.pause(rule, "request", { ...details, id: "req-2" });
+
+    manager.clearRules();
+
+    await expect(first).resolves.toBeNull();
+    await expect(second).resolves.toBeNull();
+    expect(manager.match(details, "request")).toBeNull();
+  });
+});
@@ -1,5 +1,5 @@
 import { describe, it, expect, vi, beforeEach } from "vitest";
-import { CommandType } from "@/types";
+import { CommandType, NetworkType } from "@/types";
 import { CommandHandler } from "@/limelight/handlers/CommandHandler";
 
 describe("CommandHandler", () => {
@@ -7,6 +7,43 @@ describe("CommandHandler", () => {
     resetProfiles: vi.fn(),
   };
 
+  const mockNetworkInterceptor = {
+    canReplay: vi.fn(),
+    replay: vi.fn(),
+  };
+
+  const mockXhrInterceptor = {
+    canReplay: vi.fn(),
+    replay: vi.fn(),
+  };
+
+  const mockMockEngine = {
+    setRules: vi.fn(),
+    clearRules: vi.fn(),
+  };
+
+  const mockConditioner = {
+    setProfile: vi.fn(),
+  };
+
+  const mockBreakpoints = {
+    setRules: vi.fn(),
+    clearRules: vi.fn(),
+    resume: vi.fn(),
+  };
+
+  const mockBatcher = {
+    negotiate: vi.fn(),
+  };
+
+  const mockProtocol = {
+    apply: vi.fn(),
+  };
+
+  const mockHar = {
+    export: vi.fn(),
+  };
+
   const mockSendMessage = vi.fn();
   const mockGetConfig = vi.fn();
 
@@ -17,7 +54,17 @@ describe("CommandHandler", () => {
     mockGetConfig.mockReturnValue({ enableInternalLogging: false });
 
     handler = new CommandHandler(
-      { render: mockRenderInterceptor as any },
+      {
+        render: mockRenderInterceptor as any,
+        network: mockNetworkInterceptor as any,
+        xhr: mockXhrInterceptor as any,
+        mocks: mockMockEngine as any,
+        conditioner: mockConditioner as any,
+        breakpoints: mockBreakpoints as any,
+        batcher: mockBatcher as any,
+        protocol: mockProtocol as any,
+        har: mockHar as any,
+      },
       mockSendMessage,
       mockGetConfig,
     );
@@ -48,6 +95,191 @@ describe("CommandHandler", () => {
     });
   });
 
+  describe("REPLAY_REQUEST command", () => {
+    it("should replay through the interceptor that captured the request", () => {
+      mockNetworkInterceptor.canReplay.mockReturnValue(false);
+      mockXhrInterceptor.canReplay.mockReturnValue(true);
+      mockXhrInterceptor.replay.mockReturnValue(true);
+
+      handler.handle({
+        type: CommandType.REPLAY_REQUEST,
+        requestId: "req-1",
+      });
+
+      expect(mockXhrInterceptor.replay).toHaveBeenCalledWith(
+        "req-1",
+        undefined,
+      );
+      expect(mockNetworkInterceptor.replay).not.toHaveBeenCalled();
+    });
+
+    it("should replay an edited payload by network type", () => {
+      mockNetworkInterceptor.canReplay.mockReturnValue(false);
+      mockXhrInterceptor.canReplay.mockReturnValue(false);
+      mockNetworkInterceptor.replay.mockReturnValue(true);
+
+      handler.handle({
+        type: CommandType.REPLAY_REQUEST,
+        requestId: "req-expired",
+        request: {
+          url: "https://api.example.com/users",
+          networkType: NetworkType.FETCH,
+        },
+      });
+
+      expect(mockNetworkInterceptor.replay).toHaveBeenCalledWith(undefined, {
+        id: "req-expired",
+        url: "https://api.example.com/users",
+        networkType: NetworkType.FETCH,
+      });
+    });
+
+    it("should acknowledge failure for unknown requests", () => {
+      mockNetworkInterceptor.canReplay.mockReturnValue(false);
+      mockXhrInterceptor.canReplay.mockReturnValue(false);
+
+      handler.handle({
+        type: CommandType.REPLAY_REQUEST,
+        id: "cmd-456",
+        requestId: "req-missing",
+      });
+
+      expect(mockSendMessage).toHaveBeenCalledWith({
+        phase: CommandType.ACK,
+        commandId: "cmd-456",
+        type: CommandType.REPLAY_REQUEST,
+        success: false,
+      });
+    });
+  });
+
+  describe("mock rule commands", () => {
+    it("should install rules from SET_MOCK_RULES", () => {
+      const rules = [{ id: "rule-1", match: {}, response: { status: 500 } }];
+
+      handler.handle({ type: CommandType.SET_MOCK_RULES, rules });
+
+      expect(mockMockEngine.setRules).toHaveBeenCalledWith(rules);
+    });
+
+    it("should clear rules on CLEAR_MOCK_RULES", () => {
+      handler.handle({ type: CommandType.CLEAR_MOCK_RULES });
+
+      expect(mockMockEngine.clearRules).toHaveBeenCalledOnce();
+    });
+  });
+
+  describe("SET_NETWORK_PROFILE command", () => {
+    it("should switch the network profile and acknowledge the result", () => {
+      mockConditioner.setProfile.mockReturnValue(true);
+
+      handler.handle({
+        type: CommandType.SET_NETWORK_PROFILE,
+        id: "cmd-789",
+        profile: "3G",
+      });
+
+      expect(mockConditioner.setProfile).toHaveBeenCalledWith("3G");
+      expect(mockSendMessage).toHaveBeenCalledWith(
+        expect.objectContaining({ commandId: "cmd-789", success: true }),
+      );
+    });
+  });
+
+  describe("breakpoint commands", () => {
+    it("should install and clear breakpoint rules", () => {
+      const rules = [{ id: "bp", match: { url: "*/users" } }];
+
+      handler.handle({ type: CommandType.SET_BREAKPOINTS, rules });
+      handler.handle({ type: CommandType.CLEAR_BREAKPOINTS });
+
+      expect(mockBreakpoints.setRules).toHaveBeenCalledWith(rules);
+      expect(mockBreakpoints.clearRules).toHaveBeenCalledOnce();
+    });
+
+    it("should resume paused requests with edits", () => {
+      mockBreakpoints.resume.mockReturnValue(true);
+
+      handler.handle({
+        type: CommandType.RESUME_REQUEST,
+        id: "cmd-1",
+        requestId: "req-1",
+        stage: "response",
+        edits: { status: 500 },
+      });
+
+      expect(mockBreakpoints.resume).toHaveBeenCalledWith(
+        "req-1",
+        { status: 500 },
+        "response",
+      );
+      expect(mockSendMessage).toHaveBeenCalledWith(
+        expect.objectContaining({ commandId: "cmd-1", success: true }),
+      );
+    });
+
+    it("should acknowledge failure when nothing is paused", () => {
+      mockBreakpoints.resume.mockReturnValue(false);
+
+      handler.handle({
+        type: CommandType.RESUME_REQUEST,
+        id: "cmd-2",
+        requestId: "missing",
+      });
+
+      expect(mockSendMessage).toHaveBeenCalledWith(
+        expect.objectContaining({ commandId: "cmd-2", success: false }),
+      );
+    });
+  });
+
+  describe("CONNECT_ACK command", () => {
+    it("should negotiate the transport with the batcher", () => {
+      mockBatcher.negotiate.mockReturnValue(true);
+      const transport = { batching: true, compression: "dictionary" as const };
+
+      handler.handle({ type: CommandType.CONNECT_ACK, transport });
+
+      expect(mockBatcher.negotiate).toHaveBeenCalledWith(transport);
+    });
+
+    it("should apply server capabilities and report incompatible versions", () => {
+      mockProtocol.apply.mockReturnValue(false);
+      mockBatcher.negotiate.mockReturnValue(true);
+
+      const command = {
+        type: CommandType.CONNECT_ACK as const,
+        id: "ack-1",
+        protocolVersion: "9.0.0",
+        capabilities: { interceptors: ["network" as const] },
+      };
+
+      handler.handle(command);
+
+      expect(mockProtocol.apply).toHaveBeenCalledWith(command);
+      expect(mockSendMessage).toHaveBeenCalledWith(
+        expect.objectContaining({ commandId: "ack-1", success: false }),
+      );
+    });
+  });
+
+  describe("EXPORT_HAR command", () => {
+    it("should return the HAR document in the acknowledgment", () => {
+      const har = { log: { version: "1.2", entries: [] } };
+      mockHar.export.mockReturnValue(har);
+
+      handler.handle({ type: CommandType.EXPORT_HAR, id: "cmd-har" });
+
+      expect(mockSendMessage).toHaveBeenCalledWith({
+        phase: CommandType.ACK,
+        commandId: "cmd-har",
+        type: CommandType.EXPORT_HAR,
+        success: true,
+        data: har,
+      });
+    });
+  });
+
   describe("unknown commands", () => {
     it("should log warning for unknown command when logging enabled", () => {
       mockGetConfig.mockReturnValue({ enableInternalLogging: true });
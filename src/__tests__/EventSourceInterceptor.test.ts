@@ -0,0 +1,175 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { EventSourceInterceptor } from "@/limelight";
+import { EventSourcePhase } from "@/types";
+
+class FakeEventSource extends EventTarget {
+  static CONNECTING = 0;
+  static OPEN = 1;
+  static CLOSED = 2;
+
+  readyState = 0;
+
+  constructor(public url: string) {
+    super();
+  }
+
+  close() {
+    this.readyState = 2;
+  }
+
+  open() {
+    this.readyState = 1;
+    this.dispatchEvent(new Event("open"));
+  }
+
+  emit(type: string, data: string, lastEventId = "") {
+    this.dispatchEvent(new MessageEvent(type, { data, lastEventId }));
+  }
+
+  fail(readyState: number) {
+    this.readyState = readyState;
+    this.dispatchEvent(new Event("error"));
+  }
+}
+
+/**
+ * Shaped like react-native-sse: its own listener registry and a "close" event.
+ */
+class FakePolyfill {
+  private listeners: Record<string, ((event: any) => void)[]> = {};
+
+  constructor(public url: string) {}
+
+  addEventListener(type: string, listener: (event: any) => void) {
+    this.listeners[type] = [...(this.listeners[type] ?? []), listener];
+  }
+
+  dispatch(type: string, event: any = {}) {
+    this.listeners[type]?.forEach((listener) => listener({ type, ...event }));
+  }
+
+  close() {
+    this.dispatch("close");
+  }
+}
+
+describe("EventSourceInterceptor", () => {
+  let interceptor: EventSourceInterceptor;
+  let sendMessageSpy: ReturnType<typeof vi.fn>;
+
+  const sent = () => sendMessageSpy.mock.calls.map(([message]) => message);
+
+  beforeEach(() => {
+    (global as any).EventSource = FakeEventSource;
+
+    sendMessageSpy = vi.fn();
+    interceptor = new EventSourceInterceptor(
+      sendMessageSpy,
+      () => "session-123",
+    );
+  });
+
+  afterEach(() => {
+    interceptor.cleanup();
+    delete (global as any).EventSource;
+  });
+
+  it("should report a stream's timeline under one connection id", () => {
+    interceptor.setup({});
+
+    const source = new EventSource(
+      "https://api.example.com/scores",
+    ) as unknown as FakeEventSource;
+    source.addEventListener("score", () => {});
+
+    source.open();
+    source.emit("message", "kickoff", "1");
+    source.emit("score", '{"home":1}', "2");
+    source.fail(0);
+    source.open();
+    source.close();
+
+    expect(sent().map((m) => m.phase)).toEqual([
+      EventSourcePhase.OPEN,
+      EventSourcePhase.MESSAGE,
+      EventSourcePhase.MESSAGE,
+      EventSourcePhase.ERROR,
+      EventSourcePhase.RECONNECT,
+      EventSourcePhase.CLOSE,
+    ]);
+    expect(new Set(sent().map((m) => m.connectionId)).size).toBe(1);
+
+    const [, message, score, error, reconnect, close] = sent();
+
+    expect(message).toMatchObject({ eventType: "message", lastEventId: "1" });
+    expect(score).toMatchObject({
+      eventType: "score",
+      size: 10,
+      data: expect.objectContaining({ raw: '{"home":1}' }),
+    });
+    expect(error).toMatchObject({ willReconnect: true });
+    expect(reconnect).toMatchObject({ attempt: 1 });
+    expect(close).toMatchObject({ reason: "client" });
+  });
+
+  it("should report a close when the browser gives up", () => {
+    interceptor.setup({});
+
+    const source = new EventSource(
+      "https://api.example.com/scores",
+    ) as unknown as FakeEventSource;
+    source.fail(2);
+
+    expect(sent()).toEqual([
+      expect.objectContaining({
+        phase: EventSourcePhase.ERROR,
+        willReconnect: false,
+      }),
+      expect.objectContaining({
+        phase: EventSourcePhase.CLOSE,
+        reason: "error",
+      }),
+    ]);
+  });
+
+  it("should track polyfill instances once the app adds a listener", () => {
+    interceptor.setup({ eventSource: FakePolyfill });
+
+    const source = new FakePolyfill("https://api.example.com/feed");
+    source.addEventListener("update", () => {});
+
+    source.dispatch("open");
+    source.dispatch("update", { data: "hi", lastEventId: "7" });
+    source.dispatch("error", { message: "timeout" });
+    source.close();
+
+    expect(sent().map((m) => m.phase)).toEqual([
+      EventSourcePhase.OPEN,
+      EventSourcePhase.MESSAGE,
+      EventSourcePhase.ERROR,
+      EventSourcePhase.CLOSE,
+    ]);
+    expect(sent()[0]).toMatchObject({ url: "https://api.example.com/feed" });
+    expect(sent()[2]).toMatchObject({ errorMessage: "timeout" });
+    expect(sent()[2].willReconnect).toBeUndefined();
+  });
+
+  it("should restore the originals on cleanup", () => {
+    const { addEventListener, close } = FakePolyfill.prototype;
+    interceptor.setup({ eventSource: FakePolyfill });
+
+    interceptor.cleanup();
+
+    expect(global.EventSource).toBe(FakeEventSource);
+    expect(
+      Object.prototype.hasOwnProperty.call(
+        FakeEventSource.prototype,
+        "addEventListener",
+      ),
+    ).toBe(false);
+    expect(FakePolyfill.prototype.addEventListener).toBe(addEventListener);
+    expect(FakePolyfill.prototype.close).toBe(close);
+
+    interceptor.setup({});
+  });
+});
@@ -0,0 +1,45 @@
+import { describe, it, expect, vi } from "vitest";
+import { FileTransport } from "@/limelight/transport";
+
+describe("FileTransport", () => {
+  it("should write each message as a line of NDJSON, in order", async () => {
+    const chunks: string[] = [];
+    const write = vi.fn(async (chunk: string) => {
+      await new Promise((resolve) => setTimeout(resolve, 1));
+      chunks.push(chunk);
+    });
+
+    const transport = new FileTransport({ write });
+    const onopen = vi.fn();
+    transport.onopen = onopen;
+    await Promise.resolve();
+
+    expect(onopen).toHaveBeenCalledOnce();
+
+    transport.send('{"seq":0}');
+    transport.send('{"seq":1}');
+    await transport.flushed();
+
+    expect(chunks).toEqual(['{"seq":0}\n', '{"seq":1}\n']);
+    expect(transport.bufferedAmount).toBe(0);
+  });
+
+  it("should report write failures and keep writing", async () => {
+    const write = vi
+      .fn()
+      .mockRejectedValueOnce(new Error("disk full"))
+      .mockResolvedValue(undefined);
+
+    const transport = new FileTransport({ write });
+    const onerror = vi.fn();
+    transport.onerror = onerror;
+    await Promise.resolve();
+
+    transport.send("a");
+    transport.send("b");
+    await transport.flushed();
+
+    expect(onerror).toHaveBeenCalledWith(new Error("disk full"));
+    expect(write).toHaveBeenCalledTimes(2);
+  });
+});
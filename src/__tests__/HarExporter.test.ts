@@ -0,0 +1,225 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import { HarExporter } from "@/limelight/exporters";
+import {
+  BodyFormat,
+  GraphqlOprtation,
+  HttpMethod,
+  NetworkErrorEvent,
+  NetworkPhase,
+  NetworkRequest,
+  NetworkResponse,
+  NetworkType,
+} from "@/types";
+import { MAX_HAR_ENTRIES } from "@/constants";
+
+const request = (
+  id: string,
+  overrides: Partial<NetworkRequest> = {},
+): NetworkRequest => ({
+  id,
+  sessionId: "session-123",
+  timestamp: Date.UTC(2024, 0, 1),
+  phase: NetworkPhase.REQUEST,
+  networkType: NetworkType.FETCH,
+  url: "https://api.example.com/users?page=2&sort=name",
+  method: HttpMethod.POST,
+  headers: {
+    "content-type": "application/json",
+    authorization: "[REDACTED]",
+  },
+  body: {
+    format: BodyFormat.JSON,
+    size: 13,
+    preview: "{...}",
+    raw: '{"name":"a"}',
+  },
+  name: "/users",
+  initiator: "fetch()",
+  requestSize: 13,
+  ...overrides,
+});
+
+const response = (id: string): NetworkResponse => ({
+  id,
+  sessionId: "session-123",
+  timestamp: Date.UTC(2024, 0, 1) + 120,
+  phase: NetworkPhase.RESPONSE,
+  networkType: NetworkType.FETCH,
+  status: 201,
+  statusText: "Created",
+  headers: { "Content-Type": "application/json; charset=utf-8" },
+  body: { format: BodyFormat.JSON, size: 9, preview: "{...}", raw: '{"id":1}' },
+  duration: 120,
+  responseSize: 9,
+  redirected: false,
+  ok: true,
+});
+
+describe("HarExporter", () => {
+  let exporter: HarExporter;
+
+  beforeEach(() => {
+    exporter = new HarExporter();
+    exporter.setConfig({ recording: true });
+  });
+
+  it("should export a completed call as a HAR 1.2 entry", () => {
+    exporter.record(request("req-1"));
+    exporter.record(response("req-1"));
+
+    const har = exporter.export();
+
+    expect(har.log.version).toBe("1.2");
+    expect(har.log.creator.name).toBe("Limelight");
+    expect(har.log.entries).toHaveLength(1);
+
+    const [entry] = har.log.entries;
+
+    expect(entry).toMatchObject({
+      startedDateTime: "2024-01-01T00:00:00.000Z",
+      time: 120,
+      request: {
+        method: "POST",
+        url: "https://api.example.com/users?page=2&sort=name",
+        queryString: [
+          { name: "page", value: "2" },
+          { name: "sort", value: "name" },
+        ],
+        postData: { mimeType: "application/json", text: '{"name":"a"}' },
+        bodySize: 13,
+      },
+      response: {
+        status: 201,
+        statusText: "Created",
+        content: {
+          size: 9,
+          mimeType: "application/json; charset=utf-8",
+          text: '{"id":1}',
+        },
+      },
+      timings: { send: -1, wait: -1, receive: -1 },
+      _id: "req-1",
+      _networkType: NetworkType.FETCH,
+    });
+    expect(entry!.request.headers).toContainEqual({
+      name: "authorization",
+      value: "[REDACTED]",
+    });
+  });
+
+  it("should keep GraphQL metadata in a custom field", () => {
+    const graphql = {
+      operationName: "GetUser",
+      operationType: GraphqlOprtation.QUERY,
+    };
+
+    exporter.record(request("req-1", { graphql }));
+
+    expect(exporter.export().log.entries[0]!._graphql).toEqual(graphql);
+  });
+
+  it("should report Resource Timing phases when they were measured", () => {
+    exporter.record(request("req-1"));
+    exporter.record({
+      ...response("req-1"),
+      timing: {
+        total: 120,
+        dns: 5,
+        connect: 30,
+        tls: 20,
+        request: 60,
+        download: 25,
+      },
+    });
+
+    expect(exporter.export().log.entries[0]!.timings).toEqual({
+      dns: 5,
+      connect: 30,
+      ssl: 20,
+      send: -1,
+      wait: 60,
+      receive: 25,
+    });
+  });
+
+  it("should mark failed and unfinished calls", () => {
+    const error: NetworkErrorEvent = {
+      id: "req-1",
+      sessionId: "session-123",
+      timestamp: Date.UTC(2024, 0, 1) + 50,
+      phase: NetworkPhase.ERROR,
+      networkType: NetworkType.FETCH,
+      errorMessage: "Network request failed",
+    };
+
+    exporter.record(request("req-1"));
+    exporter.record(error);
+    exporter.record(request("req-2"));
+
+    const [failed, pending] = exporter.export().log.entries;
+
+    expect(failed).toMatchObject({
+      time: 50,
+      response: { status: 0 },
+      _error: "Network request failed",
+    });
+    expect(failed!._pending).toBeUndefined();
+    expect(pending).toMatchObject({ response: { status: 0 }, _pending: true });
+  });
+
+  it("should only keep the most recent calls", () => {
+    for (let i = 0; i <= MAX_HAR_ENTRIES; i++) {
+      exporter.record(request(`req-${i}`));
+    }
+
+    const entries = exporter.export().log.entries;
+
+    expect(entries).toHaveLength(MAX_HAR_ENTRIES);
+    expect(entries[0]!._id).toBe("req-1");
+  });
+
+  it("should derive phases from upload and header timing", () => {
+    exporter.record(request("req-1"));
+    exporter.record({
+      ...response("req-1"),
+      timing: { total: 120, uploadEnd: 10, headers: 90 },
+    });
+
+    expect(exporter.export().log.entries[0]!.timings).toEqual({
+      send: 10,
+      wait: 80,
+      receive: 30,
+    });
+  });
+
+  it("should drop the oldest calls past the byte budget", () => {
+    exporter.setConfig({ recording: { maxBytes: 1000 } });
+
+    for (let i = 0; i < 5; i++) {
+      exporter.record(request(`req-${i}`));
+    }
+
+    const ids = exporter.export().log.entries.map((entry) => entry._id);
+
+    expect(ids.length).toBeLessThan(5);
+    expect(ids.at(-1)).toBe("req-4");
+  });
+
+  it("should record nothing unless recording is enabled", () => {
+    exporter.setConfig({});
+    exporter.record(request("req-1"));
+
+    expect(exporter.export().log.entries).toEqual([]);
+  });
+
+  it("should ignore messages that are not network calls", () => {
+    exporter.record({
+      phase: "CONSOLE",
+      sessionId: "session-123",
+      timestamp: 1,
+    } as any);
+    exporter.record(response("unknown"));
+
+    expect(exporter.export().log.entries).toEqual([]);
+  });
+});
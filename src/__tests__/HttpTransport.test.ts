@@ -0,0 +1,173 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { HttpTransport } from "@/limelight/transport";
+import { HTTP_TRANSPORT_DEFAULTS } from "@/constants";
+
+const jsonResponse = (body: unknown) =>
+  new Response(JSON.stringify(body), {
+    status: 200,
+    headers: { "content-type": "application/json" },
+  });
+
+const flushPromises = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+describe("HttpTransport", () => {
+  let originalFetch: typeof fetch;
+  let mockFetch: ReturnType<typeof vi.fn>;
+  let transport: HttpTransport | null;
+
+  beforeEach(() => {
+    originalFetch = global.fetch;
+    mockFetch = vi.fn(() => new Promise(() => {})); // Long polls never return
+    global.fetch = mockFetch as any;
+    transport = null;
+  });
+
+  afterEach(() => {
+    transport?.close();
+    global.fetch = originalFetch;
+  });
+
+  it("should open once the server answers the first poll", async () => {
+    mockFetch.mockResolvedValueOnce(new Response(null, { status: 204 }));
+    const onopen = vi.fn();
+
+    transport = new HttpTransport("ws://localhost:8484/limelight");
+    transport.onopen = onopen;
+
+    expect(transport.readyState).toBe(0);
+    await flushPromises();
+
+    expect(transport.readyState).toBe(1);
+    expect(onopen).toHaveBeenCalledOnce();
+
+    const [url, init] = mockFetch.mock.calls[0]!;
+    expect(url).toMatch(
+      /^http:\/\/localhost:8484\/limelight\/commands\?clientId=.+&wait=0$/,
+    );
+    expect(init.headers["x-limelight-internal"]).toBe("1");
+  });
+
+  it("should POST messages sent in the same tick as one NDJSON body", async () => {
+    mockFetch.mockResolvedValueOnce(new Response(null, { status: 204 }));
+
+    transport = new HttpTransport("wss://api.example.com/limelight", {
+      headers: { authorization: "Bearer token" },
+    });
+    await flushPromises();
+
+    mockFetch.mockResolvedValueOnce(new Response(null, { status: 202 }));
+    transport.send('{"phase":"CONNECT"}');
+    transport.send('{"phase":"CONSOLE"}');
+
+    expect(transport.bufferedAmount).toBeGreaterThan(0);
+    await flushPromises();
+
+    const post = mockFetch.mock.calls.find(
+      ([, init]) => init.method === "POST",
+    )!;
+
+    expect(post[0]).toMatch(/^https:\/\/api\.example\.com\/limelight\/events/);
+    expect(post[1].body).toBe('{"phase":"CONNECT"}\n{"phase":"CONSOLE"}\n');
+    expect(post[1].headers.authorization).toBe("Bearer token");
+    expect(transport.bufferedAmount).toBe(0);
+  });
+
+  it("should still POST messages sent right before closing", async () => {
+    mockFetch.mockResolvedValueOnce(new Response(null, { status: 204 }));
+
+    transport = new HttpTransport("ws://localhost:8484/limelight");
+    await flushPromises();
+
+    mockFetch.mockResolvedValueOnce(new Response(null, { status: 202 }));
+    transport.send('{"phase":"DISCONNECT"}');
+    transport.close();
+
+    expect(transport.readyState).toBe(3);
+    await flushPromises();
+
+    const post = mockFetch.mock.calls.find(
+      ([, init]) => init.method === "POST",
+    )!;
+
+    expect(post[1].body).toBe('{"phase":"DISCONNECT"}\n');
+    expect(post[1].signal.aborted).toBe(false);
+  });
+
+  it("should let POSTs in flight finish when closing", async () => {
+    mockFetch.mockResolvedValueOnce(new Response(null, { status: 204 }));
+
+    transport = new HttpTransport("ws://localhost:8484/limelight");
+    await flushPromises();
+
+    let resolvePost: (response: Response) => void = () => {};
+    mockFetch.mockReturnValueOnce(
+      new Promise((resolve) => (resolvePost = resolve)),
+    );
+    transport.send('{"phase":"CONSOLE"}');
+    await flushPromises();
+
+    transport.close();
+
+    const post = mockFetch.mock.calls.find(
+      ([, init]) => init.method === "POST",
+    )!;
+
+    expect(post[1].signal.aborted).toBe(false);
+    resolvePost(new Response(null, { status: 202 }));
+  });
+
+  it("should abort POSTs still in flight after the close timeout", async () => {
+    vi.useFakeTimers();
+    mockFetch.mockResolvedValueOnce(new Response(null, { status: 204 }));
+
+    transport = new HttpTransport("ws://localhost:8484/limelight");
+    await vi.advanceTimersByTimeAsync(0);
+
+    transport.send('{"phase":"CONSOLE"}');
+    await vi.advanceTimersByTimeAsync(0);
+    transport.close();
+
+    const post = mockFetch.mock.calls.find(
+      ([, init]) => init.method === "POST",
+    )!;
+
+    await vi.advanceTimersByTimeAsync(
+      HTTP_TRANSPORT_DEFAULTS.CLOSE_FLUSH_TIMEOUT_MS,
+    );
+    expect(post[1].signal.aborted).toBe(true);
+
+    vi.useRealTimers();
+  });
+
+  it("should deliver polled commands to onmessage", async () => {
+    mockFetch
+      .mockResolvedValueOnce(new Response(null, { status: 204 }))
+      .mockResolvedValueOnce(jsonResponse([{ type: "CLEAR_RENDERS" }]));
+    const onmessage = vi.fn();
+
+    transport = new HttpTransport("ws://localhost:8484/limelight", {
+      pollInterval: 0,
+    });
+    transport.onmessage = onmessage;
+    await flushPromises();
+
+    expect(onmessage).toHaveBeenCalledWith({
+      data: JSON.stringify({ type: "CLEAR_RENDERS" }),
+    });
+  });
+
+  it("should close when the server is unreachable", async () => {
+    mockFetch.mockRejectedValueOnce(new TypeError("fetch failed"));
+    const onerror = vi.fn();
+    const onclose = vi.fn();
+
+    transport = new HttpTransport("ws://localhost:8484/limelight");
+    transport.onerror = onerror;
+    transport.onclose = onclose;
+    await flushPromises();
+
+    expect(transport.readyState).toBe(3);
+    expect(onerror).toHaveBeenCalledOnce();
+    expect(onclose).toHaveBeenCalledOnce();
+  });
+});
@@ -1,6 +1,8 @@
 import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
 import WS from "ws";
-import { LimelightClient } from "@/limelight";
+import { LimelightClient, MemoryTransport } from "@/limelight";
+import { CommandType } from "@/types";
+import { PROTOCOL_VERSION } from "@/constants";
 
 global.WebSocket = WS as any;
 
@@ -109,7 +111,7 @@ describe("LimelightClient", () => {
       });
 
       // 4. Manually trigger the failure on the mock instance
-      const wsInstance = (client as any).ws;
+      const wsInstance = (client as any).transport;
       if (wsInstance.onerror)
         wsInstance.onerror(new Error("Simulated Failure"));
       if (wsInstance.onclose) wsInstance.onclose();
@@ -139,20 +141,18 @@ describe("LimelightClient", () => {
       (client as any).sendMessage(message);
 
       // Verify message is queued
-      expect((client as any).messageQueue).toHaveLength(1);
+      expect((client as any).messageBuffer.length).toBe(1);
     });
 
-    it("should flush queue on connection", async () => {
+    it("should send CONNECT before flushing the queue in order", async () => {
       const messages: any[] = [];
 
       const messagePromise = new Promise<void>((resolve) => {
-        let receivedCount = 0;
         mockServer.on("connection", (socket) => {
           socket.on("message", (data) => {
             messages.push(JSON.parse(data.toString()));
-            receivedCount++;
-            // Wait for at least 2 queued messages (plus CONNECT message)
-            if (receivedCount >= 2) {
+            // CONNECT plus the 2 queued messages
+            if (messages.length >= 3) {
               resolve();
             }
           });
@@ -160,13 +160,13 @@ describe("LimelightClient", () => {
       });
 
       // Queue messages while disconnected
-      (client as any).messageQueue.push({
+      (client as any).sendMessage({
         phase: "CONSOLE",
         sessionId: "test",
         timestamp: Date.now(),
         data: { test: 1 },
       });
-      (client as any).messageQueue.push({
+      (client as any).sendMessage({
         phase: "CONSOLE",
         sessionId: "test",
         timestamp: Date.now(),
@@ -181,15 +181,22 @@ describe("LimelightClient", () => {
 
       await messagePromise;
 
-      // Should have at least the 2 queued messages
-      expect(messages.length).toBeGreaterThanOrEqual(2);
+      expect(messages.map((message) => message.phase)).toEqual([
+        "CONNECT",
+        "CONSOLE",
+        "CONSOLE",
+      ]);
+      expect(messages[1].data.test).toBe(1);
+      expect(messages[2].data.test).toBe(2);
+      expect(messages[1].seq).toBeLessThan(messages[2].seq);
     });
 
-    it("should drop oldest message when queue is full", () => {
-      const maxSize = (client as any).maxQueueSize;
+    it("should drop oldest message when queue is full", async () => {
+      const buffer = (client as any).messageBuffer;
+      await buffer.configure({ buffer: { maxMessages: 10 } });
 
       // Fill queue beyond max size
-      for (let i = 0; i < maxSize + 5; i++) {
+      for (let i = 0; i < 15; i++) {
         (client as any).sendMessage({
           phase: "CONSOLE",
           sessionId: "test",
@@ -198,9 +205,583 @@ describe("LimelightClient", () => {
         });
       }
 
-      expect((client as any).messageQueue).toHaveLength(maxSize);
+      expect(buffer.length).toBe(10);
+
       // First 5 should have been dropped, so first in queue should be id: 5
-      expect((client as any).messageQueue[0].data.id).toBe(5);
+      const sent: any[] = [];
+      buffer.drain((data: string) => sent.push(JSON.parse(data)) > 0);
+      expect(sent[0].data.id).toBe(5);
+    });
+
+    it("should keep queued messages across disconnect()", () => {
+      (client as any).sendMessage({
+        phase: "CONSOLE",
+        sessionId: "test",
+        timestamp: Date.now(),
+        data: {},
+      });
+
+      client.disconnect();
+      expect((client as any).messageBuffer.length).toBe(1);
+
+      client.reset();
+      expect((client as any).messageBuffer.length).toBe(0);
+    });
+
+    it("should send restored messages before live ones", async () => {
+      const messages: any[] = [];
+      let resolveGetItem: (value: string) => void = () => {};
+
+      const messagePromise = new Promise<void>((resolve) => {
+        mockServer.on("connection", (socket) => {
+          socket.on("message", (data) => {
+            messages.push(JSON.parse(data.toString()));
+            // CONNECT plus the restored and live messages
+            if (messages.length >= 3) {
+              resolve();
+            }
+          });
+        });
+      });
+
+      client.connect({
+        serverUrl: "ws://localhost:8080",
+        projectKey: "project-123",
+        enableNetworkInspector: false,
+        enableConsole: false,
+        enableRenderInspector: false,
+        buffer: {
+          storage: {
+            getItem: () =>
+              new Promise<string>((resolve) => (resolveGetItem = resolve)),
+            setItem: vi.fn(),
+            removeItem: vi.fn(),
+          },
+        },
+      });
+      await Promise.resolve();
+
+      (client as any).sendMessage({
+        phase: "CONSOLE",
+        sessionId: "test",
+        timestamp: Date.now(),
+        data: { live: true },
+      });
+
+      resolveGetItem(
+        JSON.stringify([
+          JSON.stringify({
+            phase: "CONSOLE",
+            sessionId: "old",
+            timestamp: 0,
+            data: { live: false },
+          }),
+        ]),
+      );
+
+      await messagePromise;
+
+      expect(
+        messages.filter((m) => m.phase === "CONSOLE").map((m) => m.data.live),
+      ).toEqual([false, true]);
+    });
+  });
+
+  describe("batching", () => {
+    it("should batch messages once the desktop accepts it", async () => {
+      const frames: any[] = [];
+
+      const batchPromise = new Promise<void>((resolve) => {
+        mockServer.on("connection", (socket) => {
+          socket.on("message", (data) => {
+            const frame = JSON.parse(data.toString());
+            frames.push(frame);
+
+            if (frame.phase === "CONNECT") {
+              socket.send(
+                JSON.stringify({
+                  type: "CONNECT_ACK",
+                  transport: { batching: true, compression: "none" },
+                }),
+              );
+
+              setTimeout(() => {
+                for (let i = 0; i < 3; i++) {
+                  (client as any).sendMessage({
+                    phase: "CONSOLE",
+                    sessionId: "test",
+                    timestamp: Date.now(),
+                    data: { id: i },
+                  });
+                }
+              }, 20);
+            }
+
+            if (frame.phase === "BATCH") resolve();
+          });
+        });
+      });
+
+      client.connect({
+        serverUrl: "ws://localhost:8080",
+        projectKey: "project-123",
+        batching: true,
+      });
+
+      await batchPromise;
+
+      expect(frames[0].data.protocolVersion).toBe(PROTOCOL_VERSION);
+      expect(frames[0].data.capabilities.interceptors).toContain("network");
+      expect(frames[0].data.transport).toEqual({
+        batching: true,
+        compression: ["dictionary", "none"],
+      });
+      expect(frames).toHaveLength(2);
+      expect(frames[1].messages.map((m: any) => m.data.id)).toEqual([0, 1, 2]);
+    });
+  });
+
+  describe("session lifecycle", () => {
+    it("should send DISCONNECT with a reason before closing", async () => {
+      const phases: any[] = [];
+
+      const disconnectPromise = new Promise<void>((resolve) => {
+        mockServer.on("connection", (socket) => {
+          socket.on("message", (data) => {
+            const message = JSON.parse(data.toString());
+            phases.push(message);
+
+            if (message.phase === "CONNECT") {
+              client.disconnect();
+            }
+
+            if (message.phase === "DISCONNECT") resolve();
+          });
+        });
+      });
+
+      client.connect({
+        serverUrl: "ws://localhost:8080",
+        projectKey: "project-123",
+      });
+
+      await disconnectPromise;
+
+      expect(phases[1]).toMatchObject({
+        phase: "DISCONNECT",
+        sessionId: phases[0].sessionId,
+        data: { reason: "disconnect", projectKey: "project-123" },
+      });
+    });
+
+    it("should send RECONNECT linking to the dropped session", async () => {
+      const messages: any[] = [];
+      let connections = 0;
+
+      const reconnectPromise = new Promise<void>((resolve) => {
+        mockServer.on("connection", (socket) => {
+          connections++;
+
+          socket.on("message", (data) => {
+            const message = JSON.parse(data.toString());
+            messages.push(message);
+
+            // Drop the first connection as soon as it is established
+            if (message.phase === "CONNECT" && connections === 1) {
+              socket.terminate();
+            }
+
+            if (message.phase === "RECONNECT") resolve();
+          });
+        });
+      });
+
+      client.connect({
+        serverUrl: "ws://localhost:8080",
+        projectKey: "project-123",
+      });
+
+      await reconnectPromise;
+
+      const [firstConnect, secondConnect, reconnect] = messages;
+
+      expect(secondConnect.phase).toBe("CONNECT");
+      expect(reconnect.sessionId).toBe(secondConnect.sessionId);
+      expect(reconnect.data.previousSessionId).toBe(firstConnect.sessionId);
+      expect(reconnect.data.gapMs).toBeGreaterThanOrEqual(0);
+    });
+  });
+
+  describe("event subscriptions", () => {
+    it("should deliver outgoing messages to in-app listeners", () => {
+      const consoleListener = vi.fn();
+      const requestListener = vi.fn();
+
+      const unsubscribe = client.on("CONSOLE", consoleListener);
+      client.on("REQUEST", requestListener);
+
+      const message = {
+        phase: "CONSOLE" as const,
+        sessionId: "test",
+        timestamp: Date.now(),
+        data: { test: true },
+      };
+
+      (client as any).sendMessage(message);
+      unsubscribe();
+      (client as any).sendMessage(message);
+
+      expect(consoleListener).toHaveBeenCalledOnce();
+      expect(consoleListener).toHaveBeenCalledWith(message);
+      expect(requestListener).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("exportHar()", () => {
+    it("should export network calls sent by the client", () => {
+      const timestamp = Date.now();
+
+      client.connect({
+        recording: true,
+        enableNetworkInspector: false,
+        enableConsole: false,
+        enableRenderInspector: false,
+      });
+
+      (client as any).sendMessage({
+        id: "req-1",
+        sessionId: "test",
+        timestamp,
+        phase: "REQUEST",
+        networkType: "fetch",
+        url: "https://api.example.com/users",
+        method: "GET",
+        headers: {},
+        name: "/users",
+        initiator: "fetch()",
+        requestSize: 0,
+      });
+
+      expect(client.exportHar().log.entries).toEqual([
+        expect.objectContaining({ _id: "req-1", _pending: true }),
+      ]);
+
+      client.reset();
+      expect(client.exportHar().log.entries).toEqual([]);
+    });
+  });
+
+  describe("exportSession()", () => {
+    it("should archive messages sent by the client", () => {
+      client.connect({
+        recording: true,
+        enableNetworkInspector: false,
+        enableConsole: false,
+        enableRenderInspector: false,
+      });
+
+      const message = {
+        phase: "CONSOLE" as const,
+        sessionId: "test",
+        timestamp: Date.now(),
+        data: {},
+      };
+
+      (client as any).sendMessage(message);
+
+      expect(client.exportSession()).toMatchObject({
+        format: "limelight-session",
+        messages: [message],
+      });
+    });
+  });
+
+  describe("transports", () => {
+    it("should connect through a custom transport", async () => {
+      let transport: MemoryTransport | null = null;
+
+      client.connect({
+        projectKey: "project-123",
+        enableNetworkInspector: false,
+        enableConsole: false,
+        enableRenderInspector: false,
+        transport: () => (transport = new MemoryTransport()),
+      });
+      await Promise.resolve();
+
+      (client as any).sendMessage({
+        phase: "CONSOLE",
+        sessionId: "test",
+        timestamp: Date.now(),
+        data: {},
+      });
+      transport!.receive({ type: CommandType.CLEAR_RENDERS, id: "cmd-1" });
+
+      expect(client.getConnectionState()).toBe("connected");
+      expect(transport!.messages.map((m) => m.phase)).toEqual([
+        "CONNECT",
+        "CONSOLE",
+        CommandType.ACK,
+      ]);
+
+      client.reset();
+    });
+
+    it("should pass options to the HTTP transport", () => {
+      const originalFetch = global.fetch;
+      const mockFetch = vi.fn(() => new Promise(() => {}));
+      global.fetch = mockFetch as any;
+
+      client.connect({
+        projectKey: "project-123",
+        enableNetworkInspector: false,
+        enableConsole: false,
+        enableRenderInspector: false,
+        transport: { type: "http", headers: { authorization: "Bearer token" } },
+      });
+
+      expect(mockFetch).toHaveBeenCalledWith(
+        expect.stringContaining("/commands"),
+        expect.objectContaining({
+          headers: expect.objectContaining({ authorization: "Bearer token" }),
+        }),
+      );
+
+      client.reset();
+      global.fetch = originalFetch;
+    });
+
+    it("should reply to EXPORT_HAR without emitting the HAR to listeners", async () => {
+      let transport: MemoryTransport | null = null;
+      const listener = vi.fn();
+
+      client.connect({
+        projectKey: "project-123",
+        enableNetworkInspector: false,
+        enableConsole: false,
+        enableRenderInspector: false,
+        transport: () => (transport = new MemoryTransport()),
+      });
+      await Promise.resolve();
+
+      client.on("*", listener);
+      transport!.receive({ type: CommandType.EXPORT_HAR, id: "cmd-1" });
+
+      expect(transport!.messages.at(-1)).toMatchObject({
+        phase: CommandType.ACK,
+        commandId: "cmd-1",
+        success: true,
+        data: { log: expect.any(Object) },
+      });
+      expect(listener).not.toHaveBeenCalled();
+
+      client.reset();
+    });
+  });
+
+  describe("reconnect strategy", () => {
+    let OriginalWS: typeof WebSocket;
+    let sockets: any[];
+
+    beforeEach(() => {
+      vi.useFakeTimers();
+      OriginalWS = global.WebSocket;
+      sockets = [];
+
+      // Sockets that never connect, so every attempt fails
+      const MockWebSocket: any = vi.fn().mockImplementation(() => {
+        const socket = {
+          readyState: 0,
+          close: vi.fn(),
+          send: vi.fn(),
+          onopen: null,
+          onerror: null,
+          onclose: null,
+        };
+        sockets.push(socket);
+        return socket;
+      });
+      MockWebSocket.OPEN = 1;
+      MockWebSocket.CONNECTING = 0;
+      global.WebSocket = MockWebSocket;
+    });
+
+    afterEach(() => {
+      global.WebSocket = OriginalWS;
+    });
+
+    const failLatestSocket = () => {
+      const socket = sockets[sockets.length - 1];
+      socket.readyState = 3;
+      socket.onclose?.();
+    };
+
+    it("should keep retrying forever with maxAttempts Infinity", async () => {
+      client.connect({
+        serverUrl: "ws://localhost:8080",
+        projectKey: "project-123",
+        reconnect: { maxAttempts: Infinity, baseDelay: 10, maxDelay: 20 },
+      });
+
+      for (let i = 0; i < 10; i++) {
+        failLatestSocket();
+        await vi.advanceTimersByTimeAsync(20);
+      }
+
+      expect(sockets).toHaveLength(11);
+      expect(client.getConnectionState()).toBe("reconnecting");
+    });
+
+    it("should keep the session and setup across reconnects", async () => {
+      client.connect({
+        serverUrl: "ws://localhost:8080",
+        projectKey: "project-123",
+        reconnect: { baseDelay: 10, maxDelay: 10 },
+      });
+
+      const sessionId = (client as any).sessionId;
+      const configureSpy = vi.spyOn(client as any, "configure");
+
+      failLatestSocket();
+      await vi.advanceTimersByTimeAsync(10);
+
+      expect(sockets).toHaveLength(2);
+      expect((client as any).sessionId).toBe(sessionId);
+      expect(configureSpy).not.toHaveBeenCalled();
+
+      client.reset();
+    });
+
+    it("should report connection state changes until retries run out", async () => {
+      const states: string[] = [];
+      const unsubscribe = client.onConnectionStateChange((state) =>
+        states.push(state),
+      );
+
+      client.connect({
+        serverUrl: "ws://localhost:8080",
+        projectKey: "project-123",
+        reconnect: { maxAttempts: 1, baseDelay: 10 },
+      });
+
+      failLatestSocket();
+      await vi.advanceTimersByTimeAsync(10);
+      failLatestSocket();
+
+      expect(states).toEqual(["connecting", "reconnecting", "disconnected"]);
+
+      unsubscribe();
+      client.reset();
+      expect(states).toHaveLength(3);
+    });
+
+    it("should retry immediately when the app returns to the foreground", async () => {
+      let emitAppState: (state: string) => void = () => {};
+
+      client.connect({
+        serverUrl: "ws://localhost:8080",
+        projectKey: "project-123",
+        reconnect: { maxAttempts: 0 },
+        appState: {
+          currentState: "active",
+          addEventListener: (_type, listener) => {
+            emitAppState = listener;
+            return { remove: vi.fn() };
+          },
+        },
+      });
+
+      failLatestSocket();
+      expect(client.getConnectionState()).toBe("disconnected");
+
+      emitAppState("background");
+      emitAppState("active");
+
+      expect(sockets).toHaveLength(2);
+      expect(client.getConnectionState()).toBe("reconnecting");
+    });
+
+    it("should retry immediately when the network is regained", () => {
+      let emitNetInfo: (state: {
+        isConnected: boolean | null;
+      }) => void = () => {};
+
+      client.connect({
+        serverUrl: "ws://localhost:8080",
+        projectKey: "project-123",
+        reconnect: { maxAttempts: 0 },
+        netInfo: {
+          addEventListener: (listener) => {
+            emitNetInfo = listener;
+            return vi.fn();
+          },
+        },
+      });
+
+      failLatestSocket();
+
+      emitNetInfo({ isConnected: false });
+      emitNetInfo({ isConnected: true });
+
+      expect(sockets).toHaveLength(2);
+    });
+  });
+
+  describe("protocol negotiation", () => {
+    it("should stop bridged requests and breakpoints after a version mismatch", async () => {
+      const phases: string[] = [];
+      const warnSpy = vi.spyOn(console, "warn").mockImplementation(() => {});
+
+      const markerPromise = new Promise<void>((resolve) => {
+        mockServer.on("connection", (socket) => {
+          socket.on("message", (data) => {
+            const message = JSON.parse(data.toString());
+            phases.push(message.phase);
+
+            if (message.phase === "CONNECT") {
+              socket.send(
+                JSON.stringify({
+                  type: "CONNECT_ACK",
+                  protocolVersion: "99.0.0",
+                }),
+              );
+
+              setTimeout(() => {
+                client.startRequest({ url: "https://api.example.com/users" });
+                (client as any).sendMessage({
+                  phase: "CONSOLE",
+                  sessionId: "test",
+                  timestamp: Date.now(),
+                  data: {},
+                });
+              }, 20);
+            }
+
+            if (message.phase === "CONSOLE") resolve();
+          });
+        });
+      });
+
+      client.connect({
+        serverUrl: "ws://localhost:8080",
+        projectKey: "project-123",
+        enableNetworkInspector: false,
+        enableConsole: false,
+        enableRenderInspector: false,
+        breakpoints: [{ id: "bp-1", match: { url: "*" } }],
+      });
+
+      await markerPromise;
+
+      expect(phases).not.toContain("REQUEST");
+      expect(
+        (client as any).breakpoints.match(
+          { url: "https://api.example.com/users", method: "GET" },
+          "request",
+        ),
+      ).toBeNull();
+
+      warnSpy.mockRestore();
     });
   });
 });
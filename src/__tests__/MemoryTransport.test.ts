@@ -0,0 +1,32 @@
+import { describe, it, expect, vi } from "vitest";
+import { MemoryTransport } from "@/limelight/transport";
+import { CommandType } from "@/types";
+
+describe("MemoryTransport", () => {
+  it("should record sent messages and deliver commands", async () => {
+    const transport = new MemoryTransport();
+    const onmessage = vi.fn();
+    transport.onmessage = onmessage;
+    await Promise.resolve();
+
+    transport.send('{"phase":"CONNECT","seq":0}');
+    transport.receive({ type: CommandType.CLEAR_RENDERS });
+
+    expect(transport.messages).toEqual([{ phase: "CONNECT", seq: 0 }]);
+    expect(onmessage).toHaveBeenCalledWith({
+      data: JSON.stringify({ type: CommandType.CLEAR_RENDERS }),
+    });
+  });
+
+  it("should refuse to send once closed", async () => {
+    const transport = new MemoryTransport();
+    const onclose = vi.fn();
+    transport.onclose = onclose;
+    await Promise.resolve();
+
+    transport.close();
+
+    expect(onclose).toHaveBeenCalledOnce();
+    expect(() => transport.send("{}")).toThrow();
+  });
+});
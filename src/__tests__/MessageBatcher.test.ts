@@ -0,0 +1,142 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { MessageBatcher } from "@/limelight/transport";
+import { expandKeys } from "@/helpers";
+
+const message = (id: number) =>
+  JSON.stringify({ phase: "CONSOLE", sessionId: "s", data: { id } });
+
+describe("MessageBatcher", () => {
+  let batcher: MessageBatcher;
+  let sendFrameSpy: ReturnType<typeof vi.fn>;
+  let bufferedAmount: number;
+
+  const sentFrames = () =>
+    sendFrameSpy.mock.calls.map(([frame]) => JSON.parse(frame));
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    sendFrameSpy = vi.fn(() => true);
+    bufferedAmount = 0;
+    batcher = new MessageBatcher(
+      sendFrameSpy,
+      () => bufferedAmount,
+      () => "session-123",
+    );
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("should not offer batching unless enabled", () => {
+    batcher.configure({});
+    expect(batcher.getOffer()).toBeUndefined();
+
+    batcher.configure({ batching: { enabled: false } });
+    expect(batcher.getOffer()).toBeUndefined();
+
+    batcher.configure({ batching: true });
+    expect(batcher.getOffer()).toEqual({
+      batching: true,
+      compression: ["dictionary", "none"],
+    });
+  });
+
+  it("should stay inactive until the desktop accepts batching", () => {
+    batcher.configure({ batching: true });
+
+    expect(batcher.isActive()).toBe(false);
+    expect(batcher.negotiate({ batching: false })).toBe(true);
+    expect(batcher.isActive()).toBe(false);
+
+    expect(batcher.negotiate({ batching: true, compression: "none" })).toBe(
+      true,
+    );
+    expect(batcher.isActive()).toBe(true);
+  });
+
+  it("should reject compression it did not offer", () => {
+    batcher.configure({ batching: { compression: "none" } });
+
+    expect(
+      batcher.negotiate({ batching: true, compression: "dictionary" }),
+    ).toBe(false);
+    expect(batcher.isActive()).toBe(false);
+  });
+
+  it("should flush after the interval", () => {
+    batcher.configure({ batching: { flushInterval: 100 } });
+    batcher.negotiate({ batching: true, compression: "none" });
+
+    batcher.add(message(1));
+    batcher.add(message(2));
+    expect(sendFrameSpy).not.toHaveBeenCalled();
+
+    vi.advanceTimersByTime(100);
+
+    const [frame] = sentFrames();
+    expect(frame).toMatchObject({
+      phase: "BATCH",
+      sessionId: "session-123",
+      compression: "none",
+    });
+    expect(frame.messages.map((m: any) => m.data.id)).toEqual([1, 2]);
+  });
+
+  it("should flush immediately when the message limit is reached", () => {
+    batcher.configure({ batching: { maxMessages: 2 } });
+    batcher.negotiate({ batching: true, compression: "none" });
+
+    batcher.add(message(1));
+    batcher.add(message(2));
+
+    expect(sendFrameSpy).toHaveBeenCalledOnce();
+  });
+
+  it("should compress repeated keys with a dictionary", () => {
+    batcher.configure({ batching: true });
+    batcher.negotiate({ batching: true, compression: "dictionary" });
+
+    batcher.add(message(1));
+    batcher.add(message(2));
+    batcher.flush();
+
+    const [frame] = sentFrames();
+    expect(frame.compression).toBe("dictionary");
+    expect(frame.keys).toEqual(["phase", "sessionId", "data", "id"]);
+    expect(expandKeys(frame.keys, frame.messages)).toEqual([
+      JSON.parse(message(1)),
+      JSON.parse(message(2)),
+    ]);
+  });
+
+  it("should hold frames while the socket is backed up", () => {
+    batcher.configure({ batching: { highWaterMark: 1000, flushInterval: 50 } });
+    batcher.negotiate({ batching: true, compression: "none" });
+
+    bufferedAmount = 5000;
+    batcher.add(message(1));
+    batcher.flush();
+    vi.advanceTimersByTime(50);
+
+    expect(sendFrameSpy).not.toHaveBeenCalled();
+
+    bufferedAmount = 0;
+    vi.advanceTimersByTime(50);
+
+    expect(sendFrameSpy).toHaveBeenCalledOnce();
+  });
+
+  it("should hand back unsent messages on reset", () => {
+    batcher.configure({ batching: true });
+    batcher.negotiate({ batching: true, compression: "none" });
+
+    batcher.add(message(1));
+
+    expect(batcher.reset()).toEqual([message(1)]);
+    expect(batcher.isActive()).toBe(false);
+
+    vi.runAllTimers();
+    expect(sendFrameSpy).not.toHaveBeenCalled();
+  });
+});
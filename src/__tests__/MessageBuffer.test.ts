@@ -0,0 +1,139 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { MessageBuffer } from "@/limelight/transport";
+import { BufferStorage } from "@/types";
+import { MESSAGE_BUFFER_DEFAULTS } from "@/constants";
+
+const createStorage = (initial: Record<string, string> = {}) => {
+  const data = { ...initial };
+
+  const storage: BufferStorage = {
+    getItem: vi.fn(async (key: string) => data[key] ?? null),
+    setItem: vi.fn(async (key: string, value: string) => {
+      data[key] = value;
+    }),
+    removeItem: vi.fn(async (key: string) => {
+      delete data[key];
+    }),
+  };
+
+  return { storage, data };
+};
+
+const drainAll = (buffer: MessageBuffer): string[] => {
+  const sent: string[] = [];
+  buffer.drain((data) => {
+    sent.push(data);
+    return true;
+  });
+  return sent;
+};
+
+describe("MessageBuffer", () => {
+  let buffer: MessageBuffer;
+
+  beforeEach(() => {
+    buffer = new MessageBuffer();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("should drain messages in order", () => {
+    buffer.enqueue("a");
+    buffer.enqueue("b");
+
+    expect(drainAll(buffer)).toEqual(["a", "b"]);
+    expect(buffer.isEmpty()).toBe(true);
+  });
+
+  it("should stop draining when send fails", () => {
+    buffer.enqueue("a");
+    buffer.enqueue("b");
+
+    buffer.drain(() => false);
+
+    expect(buffer.length).toBe(2);
+  });
+
+  it("should drop the oldest messages past the byte limit", async () => {
+    await buffer.configure({ buffer: { maxBytes: 10 } });
+
+    buffer.enqueue("aaaa");
+    buffer.enqueue("bbbb");
+    buffer.enqueue("cccc");
+
+    expect(drainAll(buffer)).toEqual(["bbbb", "cccc"]);
+  });
+
+  it("should count multi-byte characters by their encoded size", async () => {
+    await buffer.configure({ buffer: { maxBytes: 6 } });
+
+    buffer.enqueue("é");
+    buffer.enqueue("日本");
+
+    expect(drainAll(buffer)).toEqual(["日本"]);
+  });
+
+  it("should restore persisted messages ahead of new ones", async () => {
+    const { storage } = createStorage({
+      [MESSAGE_BUFFER_DEFAULTS.STORAGE_KEY]: JSON.stringify(["old"]),
+    });
+
+    buffer.enqueue("new");
+    await buffer.configure({ buffer: { storage } });
+
+    expect(drainAll(buffer)).toEqual(["old", "new"]);
+  });
+
+  it("should hold messages until restore completes", async () => {
+    const { storage } = createStorage();
+    const restoring = buffer.configure({ buffer: { storage } });
+
+    buffer.enqueue("a");
+    expect(drainAll(buffer)).toEqual([]);
+
+    await restoring;
+    expect(drainAll(buffer)).toEqual(["a"]);
+  });
+
+  it("should not report empty until restore completes", async () => {
+    const { storage } = createStorage();
+    const restoring = buffer.configure({ buffer: { storage } });
+
+    expect(buffer.isEmpty()).toBe(false);
+
+    await restoring;
+    expect(buffer.isEmpty()).toBe(true);
+  });
+
+  it("should persist buffered messages after a short delay", async () => {
+    vi.useFakeTimers();
+
+    const { storage, data } = createStorage();
+    await buffer.configure({ buffer: { storage, storageKey: "custom" } });
+
+    buffer.enqueue("a");
+    buffer.enqueue("b");
+
+    await vi.advanceTimersByTimeAsync(MESSAGE_BUFFER_DEFAULTS.PERSIST_DELAY_MS);
+
+    expect(storage.setItem).toHaveBeenCalledOnce();
+    expect(JSON.parse(data.custom!)).toEqual(["a", "b"]);
+
+    drainAll(buffer);
+    await vi.advanceTimersByTimeAsync(MESSAGE_BUFFER_DEFAULTS.PERSIST_DELAY_MS);
+
+    expect(data.custom).toBeUndefined();
+  });
+
+  it("should ignore corrupt persisted data", async () => {
+    const { storage } = createStorage({
+      [MESSAGE_BUFFER_DEFAULTS.STORAGE_KEY]: "{not json",
+    });
+
+    await buffer.configure({ buffer: { storage } });
+
+    expect(buffer.isEmpty()).toBe(true);
+  });
+});
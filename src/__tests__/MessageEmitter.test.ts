@@ -0,0 +1,81 @@
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import { MessageEmitter } from "@/limelight/events";
+import { LimelightMessage, NetworkPhase, NetworkType } from "@/types";
+
+const consoleMessage = {
+  phase: "CONSOLE",
+  sessionId: "session-123",
+  timestamp: 1,
+  data: {},
+} as unknown as LimelightMessage;
+
+const errorMessage: LimelightMessage = {
+  id: "req-1",
+  sessionId: "session-123",
+  timestamp: 1,
+  phase: NetworkPhase.ERROR,
+  networkType: NetworkType.FETCH,
+  errorMessage: "boom",
+};
+
+describe("MessageEmitter", () => {
+  let emitter: MessageEmitter;
+
+  beforeEach(() => {
+    emitter = new MessageEmitter(() => null);
+  });
+
+  it("should dispatch messages to listeners of their phase", () => {
+    const consoleListener = vi.fn();
+    const errorListener = vi.fn();
+
+    emitter.on("CONSOLE", consoleListener);
+    emitter.on("ERROR", errorListener);
+
+    emitter.emit(consoleMessage);
+
+    expect(consoleListener).toHaveBeenCalledWith(consoleMessage);
+    expect(errorListener).not.toHaveBeenCalled();
+  });
+
+  it("should dispatch every message to wildcard listeners", () => {
+    const listener = vi.fn();
+    emitter.on("*", listener);
+
+    emitter.emit(consoleMessage);
+    emitter.emit(errorMessage);
+
+    expect(listener).toHaveBeenCalledTimes(2);
+  });
+
+  it("should stop dispatching after off()", () => {
+    const listener = vi.fn();
+
+    emitter.on("ERROR", listener);
+    emitter.off("ERROR", listener);
+    emitter.emit(errorMessage);
+
+    expect(listener).not.toHaveBeenCalled();
+  });
+
+  it("should isolate listeners that throw", () => {
+    const listener = vi.fn();
+
+    emitter.on("*", () => {
+      throw new Error("listener failed");
+    });
+    emitter.on("*", listener);
+
+    expect(() => emitter.emit(consoleMessage)).not.toThrow();
+    expect(listener).toHaveBeenCalledOnce();
+  });
+
+  it("should not re-dispatch messages produced by a listener", () => {
+    const listener = vi.fn(() => emitter.emit(errorMessage));
+    emitter.on("*", listener);
+
+    emitter.emit(consoleMessage);
+
+    expect(listener).toHaveBeenCalledOnce();
+  });
+});
@@ -0,0 +1,97 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import { MockEngine } from "@/limelight/network";
+
+describe("MockEngine", () => {
+  let engine: MockEngine;
+
+  beforeEach(() => {
+    engine = new MockEngine();
+  });
+
+  it("should return null when no rules are installed", () => {
+    expect(
+      engine.match({ url: "https://api.example.com/users", method: "GET" }),
+    ).toBeNull();
+  });
+
+  it("should match by glob, method and operation name", () => {
+    engine.setRules([
+      {
+        id: "users",
+        match: { url: "https://api.example.com/users/*", method: "get" },
+        response: { status: 200 },
+      },
+      {
+        id: "graphql",
+        match: { operationName: "GetCart" },
+        response: { status: 500 },
+      },
+    ]);
+
+    expect(
+      engine.match({ url: "https://api.example.com/users/1", method: "GET" })
+        ?.id,
+    ).toBe("users");
+    expect(
+      engine.match({ url: "https://api.example.com/users/1", method: "POST" }),
+    ).toBeNull();
+    expect(
+      engine.match({
+        url: "https://api.example.com/graphql",
+        method: "POST",
+        operationName: "GetCart",
+      })?.id,
+    ).toBe("graphql");
+  });
+
+  it("should support regular expressions and substrings", () => {
+    engine.setRules([
+      { id: "regex", match: { url: "/orders\\/\\d+$/" }, delay: 100 },
+      { id: "substring", match: { url: "/profile" }, delay: 100 },
+    ]);
+
+    expect(
+      engine.match({ url: "https://api.example.com/orders/42", method: "GET" })
+        ?.id,
+    ).toBe("regex");
+    expect(
+      engine.match({ url: "https://api.example.com/profile", method: "GET" })
+        ?.id,
+    ).toBe("substring");
+  });
+
+  it("should skip disabled rules", () => {
+    engine.setRules([
+      { id: "off", enabled: false, match: {}, response: { status: 200 } },
+    ]);
+
+    expect(engine.match({ url: "https://a.com", method: "GET" })).toBeNull();
+  });
+
+  it("should prefer remote rules and keep config rules on clear", () => {
+    engine.setConfigRules([
+      { id: "config", match: {}, response: { status: 200 } },
+    ]);
+    engine.setRules([{ id: "remote", match: {}, response: { status: 404 } }]);
+
+    expect(engine.match({ url: "https://a.com", method: "GET" })?.id).toBe(
+      "remote",
+    );
+
+    engine.clearRules();
+
+    expect(engine.match({ url: "https://a.com", method: "GET" })?.id).toBe(
+      "config",
+    );
+  });
+
+  it("should only flag short-circuiting rules as mocked", () => {
+    expect(engine.getEventFlags({ id: "slow", match: {}, delay: 500 })).toEqual(
+      { mockRuleId: "slow" },
+    );
+    expect(
+      engine.getEventFlags({ id: "fail", match: {}, error: "boom" }),
+    ).toEqual({ mocked: true, mockRuleId: "fail" });
+    expect(engine.getEventFlags(null)).toEqual({});
+  });
+});
@@ -0,0 +1,93 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { NetworkConditioner } from "@/limelight/network";
+
+describe("NetworkConditioner", () => {
+  let conditioner: NetworkConditioner;
+
+  beforeEach(() => {
+    conditioner = new NetworkConditioner();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("should be unthrottled by default", async () => {
+    expect(conditioner.getConditions()).toBeNull();
+    expect(conditioner.getEventFlags()).toEqual({});
+    await expect(conditioner.throttleRequest(1000)).resolves.toBeUndefined();
+  });
+
+  it("should resolve built-in profiles by name", () => {
+    expect(conditioner.setProfile("3G")).toBe(true);
+    expect(conditioner.getConditions()?.latency).toBe(560);
+    expect(conditioner.getEventFlags()).toEqual({ networkProfile: "3G" });
+  });
+
+  it("should reject unknown profile names", () => {
+    expect(conditioner.setProfile("5G" as any)).toBe(false);
+    expect(conditioner.getConditions()).toBeNull();
+  });
+
+  it("should let runtime profiles override the config profile", () => {
+    conditioner.setConfigProfile("slow-3G");
+    expect(conditioner.getConditions()?.name).toBe("slow-3G");
+
+    conditioner.setProfile(null);
+    expect(conditioner.getConditions()).toBeNull();
+
+    conditioner.setConfigProfile("3G");
+    expect(conditioner.getConditions()).toBeNull();
+  });
+
+  it("should fail requests when offline", async () => {
+    conditioner.setProfile("offline");
+
+    await expect(conditioner.throttleRequest(0)).rejects.toThrow(
+      "Network request failed",
+    );
+    expect(conditioner.simulateDuration(0, 0)).toBeNull();
+  });
+
+  it("should wait for latency and upload time", async () => {
+    vi.useFakeTimers();
+    conditioner.setProfile({ latency: 100, uploadKbps: 8 });
+
+    const resolved = vi.fn();
+    conditioner.throttleRequest(1000).then(resolved);
+
+    // 1000 bytes at 8 kbps take 1000ms on top of 100ms latency
+    await vi.advanceTimersByTimeAsync(1099);
+    expect(resolved).not.toHaveBeenCalled();
+
+    await vi.advanceTimersByTimeAsync(1);
+    expect(resolved).toHaveBeenCalled();
+  });
+
+  it("should simulate full duration for manual requests", () => {
+    conditioner.setProfile({
+      name: "custom",
+      latency: 50,
+      uploadKbps: 8,
+      downloadKbps: 16,
+    });
+
+    expect(conditioner.simulateDuration(100, 200)).toBe(50 + 100 + 100);
+  });
+
+  it("should drop requests according to packet loss", async () => {
+    vi.spyOn(Math, "random").mockReturnValue(0.1);
+    conditioner.setProfile({ packetLoss: 0.5 });
+
+    await expect(conditioner.throttleRequest(0)).rejects.toThrow(
+      "Network request failed",
+    );
+  });
+
+  it("should not drop manual requests according to packet loss", () => {
+    vi.spyOn(Math, "random").mockReturnValue(0.1);
+    conditioner.setProfile({ latency: 50, packetLoss: 0.5 });
+
+    expect(conditioner.simulateDuration(0, 0)).toBe(50);
+  });
+});
@@ -1,6 +1,15 @@
 import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
 import { NetworkInterceptor } from "@/limelight";
 import { parseGraphQL } from "@/helpers";
+import {
+  BreakpointManager,
+  MockEngine,
+  NetworkConditioner,
+} from "@/limelight/network";
+import {
+  RESOURCE_TIMING_CLEAR_THRESHOLD,
+  STREAMING_DEFAULTS,
+} from "@/constants";
 
 describe("NetworkInterceptor", () => {
   let interceptor: NetworkInterceptor;
@@ -67,6 +76,19 @@ describe("NetworkInterceptor", () => {
       );
     });
 
+    it("should not capture the SDK's own HTTP transport requests", async () => {
+      mockFetch.mockResolvedValue(new Response(null, { status: 204 }));
+
+      interceptor.setup({ enableNetworkInspector: true });
+
+      await fetch("http://localhost:8484/limelight/commands", {
+        headers: { "x-limelight-internal": "1" },
+      });
+
+      expect(mockFetch).toHaveBeenCalledOnce();
+      expect(sendMessageSpy).not.toHaveBeenCalled();
+    });
+
     it("should detect GraphQL requests", async () => {
       mockFetch.mockResolvedValue(
         new Response(JSON.stringify({ data: {} }), {
@@ -104,6 +126,212 @@ describe("NetworkInterceptor", () => {
       expect(result).toBeNull(); // or whatever your error handling does
     });
 
+    it("should mark GraphQL responses carrying errors as failed", async () => {
+      mockFetch.mockResolvedValue(
+        new Response(
+          JSON.stringify({
+            data: { user: { id: "1", avatar: null }, feed: null },
+            errors: [
+              {
+                message: "Feed unavailable",
+                path: ["feed"],
+                extensions: { code: "SERVICE_UNAVAILABLE" },
+              },
+            ],
+          }),
+          { status: 200, headers: { "content-type": "application/json" } },
+        ),
+      );
+
+      interceptor.setup({ enableNetworkInspector: true, enableGraphQL: true });
+
+      await fetch("https://api.example.com/graphql", {
+        method: "POST",
+        headers: { "content-type": "application/json" },
+        body: JSON.stringify({ query: "query Home { user { id } feed }" }),
+      });
+
+      expect(sendMessageSpy).toHaveBeenCalledWith(
+        expect.objectContaining({
+          phase: "RESPONSE",
+          status: 200,
+          ok: false,
+          graphqlResult: {
+            errors: [
+              {
+                message: "Feed unavailable",
+                path: ["feed"],
+                code: "SERVICE_UNAVAILABLE",
+              },
+            ],
+            hasPartialData: true,
+            nullCounts: { user: 1, feed: 1 },
+          },
+        }),
+      );
+    });
+
+    it("should leave successful GraphQL responses ok", async () => {
+      mockFetch.mockResolvedValue(
+        new Response(JSON.stringify({ data: { user: { id: "1" } } }), {
+          headers: { "content-type": "application/json" },
+        }),
+      );
+
+      interceptor.setup({ enableNetworkInspector: true, enableGraphQL: true });
+
+      await fetch("https://api.example.com/graphql", {
+        method: "POST",
+        headers: { "content-type": "application/json" },
+        body: JSON.stringify({ query: "query GetUser { user { id } }" }),
+      });
+
+      expect(sendMessageSpy).toHaveBeenCalledWith(
+        expect.objectContaining({
+          phase: "RESPONSE",
+          ok: true,
+          graphqlResult: { hasPartialData: false, nullCounts: { user: 0 } },
+        }),
+      );
+    });
+
+    it("should send batched GraphQL operations as linked child events", async () => {
+      mockFetch.mockResolvedValue(
+        new Response(
+          JSON.stringify([
+            { data: { user: { id: "1" } } },
+            { data: null, errors: [{ message: "Forbidden" }] },
+          ]),
+          { headers: { "content-type": "application/json" } },
+        ),
+      );
+
+      interceptor.setup({ enableNetworkInspector: true, enableGraphQL: true });
+
+      await fetch("https://api.example.com/graphql", {
+        method: "POST",
+        headers: { "content-type": "application/json" },
+        body: JSON.stringify([
+          { operationName: "GetUser", query: "query GetUser { user { id } }" },
+          { operationName: "GetAdmin", query: "query GetAdmin { admin }" },
+        ]),
+      });
+
+      const events = sendMessageSpy.mock.calls.map(([event]) => event);
+      const parentId = events[0].id;
+
+      expect(events.map((event) => [event.phase, event.id])).toEqual([
+        ["REQUEST", parentId],
+        ["REQUEST", `${parentId}:0`],
+        ["REQUEST", `${parentId}:1`],
+        ["RESPONSE", parentId],
+        ["RESPONSE", `${parentId}:0`],
+        ["RESPONSE", `${parentId}:1`],
+      ]);
+      expect(events[0].graphql).toEqual({ batchSize: 2 });
+      expect(events[2]).toMatchObject({
+        networkType: "graphql",
+        parentId,
+        batchIndex: 1,
+        name: "GetAdmin",
+      });
+      expect(events[3].ok).toBe(false);
+      expect(events[4].ok).toBe(true);
+      expect(events[5]).toMatchObject({
+        ok: false,
+        errors: [{ message: "Forbidden" }],
+      });
+    });
+
+    it("should summarize the query document's fields, fragments and depth", async () => {
+      mockFetch.mockResolvedValue(new Response("{}"));
+
+      interceptor.setup({ enableNetworkInspector: true, enableGraphQL: true });
+
+      await fetch("https://api.example.com/graphql", {
+        method: "POST",
+        body: JSON.stringify({
+          operationName: "Feed",
+          variables: { count: 10 },
+          query: `
+            # Home screen
+            query Feed($count: Int) {
+              me: viewer { ...UserFields }
+              posts(first: $count, filter: { tag: "a { b" }) @include(if: true) {
+                id
+                ... on Post { author { ...UserFields } }
+              }
+            }
+            fragment UserFields on User { id name }
+          `,
+        }),
+      });
+
+      expect(sendMessageSpy).toHaveBeenCalledWith(
+        expect.objectContaining({
+          phase: "REQUEST",
+          graphql: expect.objectContaining({
+            fragments: ["UserFields"],
+            rootFields: ["viewer", "posts"],
+            depth: 3,
+            complexity: 3 + 10 * (1 + 1 + 3),
+          }),
+        }),
+      );
+    });
+
+    it("should identify persisted queries sent without query text", async () => {
+      mockFetch.mockResolvedValue(new Response("{}"));
+
+      interceptor.setup({ enableNetworkInspector: true, enableGraphQL: true });
+
+      await fetch("https://api.example.com/graphql", {
+        method: "POST",
+        body: JSON.stringify({
+          operationName: "GetUser",
+          extensions: { persistedQuery: { version: 1, sha256Hash: "abc123" } },
+        }),
+      });
+
+      expect(sendMessageSpy).toHaveBeenCalledWith(
+        expect.objectContaining({
+          phase: "REQUEST",
+          graphql: expect.objectContaining({
+            operationName: "GetUser",
+            persistedQueryHash: "abc123",
+          }),
+        }),
+      );
+    });
+
+    it("should read GraphQL operations from GET search params", async () => {
+      mockFetch.mockResolvedValue(new Response("{}"));
+
+      interceptor.setup({ enableNetworkInspector: true, enableGraphQL: true });
+
+      const params = new URLSearchParams({
+        operationName: "GetUser",
+        variables: JSON.stringify({ id: "1" }),
+        extensions: JSON.stringify({
+          persistedQuery: { version: 1, sha256Hash: "abc123" },
+        }),
+      });
+
+      await fetch(`https://api.example.com/graphql?${params}`);
+
+      expect(sendMessageSpy).toHaveBeenCalledWith(
+        expect.objectContaining({
+          phase: "REQUEST",
+          method: "GET",
+          graphql: expect.objectContaining({
+            operationName: "GetUser",
+            variables: { id: "1" },
+            persistedQueryHash: "abc123",
+          }),
+        }),
+      );
+    });
+
     it("should handle fetch errors", async () => {
       mockFetch.mockRejectedValue(new Error("Network error"));
 
@@ -167,6 +395,1092 @@ describe("NetworkInterceptor", () => {
     });
   });
 
+  describe("resource timing", () => {
+    afterEach(() => {
+      vi.restoreAllMocks();
+    });
+
+    const entryAt = (t: number) =>
+      ({
+        startTime: t,
+        domainLookupStart: t,
+        domainLookupEnd: t + 5,
+        connectStart: t + 5,
+        secureConnectionStart: t + 15,
+        connectEnd: t + 35,
+        requestStart: t + 35,
+        responseStart: t + 95,
+        responseEnd: t + 120,
+      }) as unknown as PerformanceEntry;
+
+    // The request starts at 1000 and finishes at 1200
+    const mockRequestWindow = () => {
+      let now = 1000;
+      vi.spyOn(performance, "now").mockImplementation(() => now);
+      mockFetch.mockImplementation(async () => {
+        now = 1200;
+        return new Response("ok");
+      });
+    };
+
+    it("should add Resource Timing phases to the response timing", async () => {
+      mockRequestWindow();
+      vi.spyOn(performance, "getEntriesByName").mockReturnValue([
+        entryAt(1000),
+      ]);
+
+      interceptor.setup({ enableNetworkInspector: true });
+
+      await fetch("https://api.example.com/users");
+
+      expect(performance.getEntriesByName).toHaveBeenCalledWith(
+        "https://api.example.com/users",
+        "resource",
+      );
+      expect(sendMessageSpy).toHaveBeenCalledWith(
+        expect.objectContaining({
+          phase: "RESPONSE",
+          timing: expect.objectContaining({
+            start: expect.any(Number),
+            end: expect.any(Number),
+            dns: 5,
+            connect: 30,
+            tls: 20,
+            request: 60,
+            download: 25,
+            firstByte: expect.any(Number),
+          }),
+        }),
+      );
+    });
+
+    it("should pick the entry closest to the request's own window", async () => {
+      mockRequestWindow();
+      vi.spyOn(performance, "getEntriesByName").mockReturnValue([
+        entryAt(900), // started before this request
+        entryAt(1050),
+        entryAt(1010),
+      ]);
+
+      interceptor.setup({ enableNetworkInspector: true });
+
+      await fetch("https://api.example.com/users");
+
+      const response = sendMessageSpy.mock.calls
+        .map(([event]) => event)
+        .find((event) => event.phase === "RESPONSE");
+
+      expect(response.timing.firstByte).toBe(105);
+    });
+
+    it("should not look up entries for mocked responses", async () => {
+      const mockEngine = new MockEngine();
+      mockEngine.setRules([
+        { id: "users", match: { url: "*/users" }, response: { status: 200 } },
+      ]);
+      interceptor = new NetworkInterceptor(
+        sendMessageSpy,
+        getSessionIdSpy,
+        mockEngine,
+      );
+      vi.spyOn(performance, "getEntriesByName");
+
+      interceptor.setup({ enableNetworkInspector: true });
+
+      await fetch("https://api.example.com/users");
+
+      expect(performance.getEntriesByName).not.toHaveBeenCalled();
+    });
+
+    it("should clear the Resource Timing buffer once it is mostly full", async () => {
+      mockRequestWindow();
+      vi.spyOn(performance, "getEntriesByName").mockReturnValue([]);
+      vi.spyOn(performance, "getEntriesByType").mockReturnValue(
+        Array(RESOURCE_TIMING_CLEAR_THRESHOLD).fill(entryAt(0)),
+      );
+      const clearSpy = vi
+        .spyOn(performance, "clearResourceTimings")
+        .mockImplementation(() => {});
+
+      interceptor.setup({ enableNetworkInspector: true });
+
+      await fetch("https://api.example.com/users");
+
+      expect(clearSpy).toHaveBeenCalledOnce();
+    });
+
+    it("should fall back to start and end when no entry was recorded", async () => {
+      mockFetch.mockResolvedValue(new Response("ok"));
+      vi.spyOn(performance, "getEntriesByName").mockReturnValue([]);
+
+      interceptor.setup({ enableNetworkInspector: true });
+
+      await fetch("https://api.example.com/users");
+
+      const response = sendMessageSpy.mock.calls
+        .map(([event]) => event)
+        .find((event) => event.phase === "RESPONSE");
+
+      expect(response.timing).toEqual({
+        start: expect.any(Number),
+        end: expect.any(Number),
+        headers: expect.any(Number),
+        total: expect.any(Number),
+      });
+    });
+  });
+
+  describe("binary and form bodies", () => {
+    it("should list FormData fields and file metadata", async () => {
+      mockFetch.mockResolvedValue(new Response("ok"));
+      interceptor.setup({ enableNetworkInspector: true });
+
+      const form = new FormData();
+      form.append("title", "Holiday");
+      form.append(
+        "photo",
+        new File(["12345"], "beach.png", { type: "image/png" }),
+      );
+
+      await fetch("https://api.example.com/upload", {
+        method: "POST",
+        body: form,
+      });
+
+      const request = sendMessageSpy.mock.calls[0]?.[0];
+      expect(request.body).toEqual({
+        format: "FORM_DATA",
+        size: 12,
+        preview: "title=Holiday&photo=[File beach.png]",
+        parts: [
+          { name: "title", value: "Holiday", size: 7 },
+          {
+            name: "photo",
+            fileName: "beach.png",
+            contentType: "image/png",
+            size: 5,
+          },
+        ],
+      });
+    });
+
+    it("should read Blob request bodies and capture their contents", async () => {
+      mockFetch.mockResolvedValue(new Response("ok"));
+      interceptor.setup({ enableNetworkInspector: true });
+
+      await fetch("https://api.example.com/upload", {
+        method: "POST",
+        body: new Blob([new Uint8Array([0x01, 0x02, 0x03])], {
+          type: "application/octet-stream",
+        }),
+      });
+
+      const request = sendMessageSpy.mock.calls[0]?.[0];
+      expect(request.body).toMatchObject({
+        format: "ARRAY_BUFFER",
+        size: 3,
+        preview: "01 02 03",
+        raw: "AQID",
+        encoding: "base64",
+      });
+    });
+
+    it("should sniff binary responses and capture them as base64", async () => {
+      const png = new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a]);
+      mockFetch.mockResolvedValue(
+        new Response(png, {
+          headers: { "content-type": "application/octet-stream" },
+        }),
+      );
+      interceptor.setup({ enableNetworkInspector: true });
+
+      await fetch("https://cdn.example.com/avatar");
+
+      const response = sendMessageSpy.mock.calls
+        .map(([event]) => event)
+        .find((event) => event.phase === "RESPONSE");
+
+      expect(response.body).toEqual({
+        format: "IMAGE",
+        size: 6,
+        preview: "89 50 4e 47 0d 0a",
+        contentType: "image/png",
+        raw: "iVBORw0K",
+        encoding: "base64",
+        image: { thumbnail: "data:image/png;base64,iVBORw0K" },
+      });
+    });
+
+    it("should parse multipart response bodies", async () => {
+      const body = [
+        "--b1",
+        'Content-Disposition: form-data; name="meta"',
+        "",
+        '{"id":1}',
+        "--b1",
+        'Content-Disposition: form-data; name="file"; filename="a.txt"',
+        "Content-Type: text/plain",
+        "",
+        "hello",
+        "--b1--",
+        "",
+      ].join("\r\n");
+
+      mockFetch.mockResolvedValue(
+        new Response(body, {
+          headers: { "content-type": "multipart/form-data; boundary=b1" },
+        }),
+      );
+      interceptor.setup({ enableNetworkInspector: true });
+
+      await fetch("https://api.example.com/export");
+
+      const response = sendMessageSpy.mock.calls
+        .map(([event]) => event)
+        .find((event) => event.phase === "RESPONSE");
+
+      expect(response.body.format).toBe("MULTIPART");
+      expect(response.body.parts).toEqual([
+        { name: "meta", value: '{"id":1}', size: 8 },
+        {
+          name: "file",
+          fileName: "a.txt",
+          contentType: "text/plain",
+          size: 5,
+        },
+      ]);
+    });
+  });
+
+  describe("content types", () => {
+    const getResponse = () =>
+      sendMessageSpy.mock.calls
+        .map(([event]) => event)
+        .find((event) => event.phase === "RESPONSE");
+
+    it("should parse JSON responses into a structured preview", async () => {
+      mockFetch.mockResolvedValue(
+        new Response(
+          JSON.stringify({ user: { name: "x".repeat(300) }, ids: [1, 2] }),
+          { headers: { "content-type": "application/json; charset=utf-8" } },
+        ),
+      );
+      interceptor.setup({ enableNetworkInspector: true });
+
+      await fetch("https://api.example.com/me");
+
+      const { body } = getResponse();
+      expect(body.format).toBe("JSON");
+      expect(body.json).toEqual({
+        user: { name: `${"x".repeat(200)}…` },
+        ids: [1, 2],
+      });
+    });
+
+    it("should fall back to text when a JSON response does not parse", async () => {
+      mockFetch.mockResolvedValue(
+        new Response("<html>502</html>", {
+          headers: { "content-type": "application/json" },
+        }),
+      );
+      interceptor.setup({ enableNetworkInspector: true });
+
+      await fetch("https://api.example.com/me");
+
+      const { body } = getResponse();
+      expect(body.format).toBe("TEXT");
+      expect(body.json).toBeUndefined();
+    });
+
+    it("should classify XML, HTML and form-urlencoded responses", async () => {
+      interceptor.setup({ enableNetworkInspector: true });
+
+      const formats: string[] = [];
+      for (const [contentType, text] of [
+        ["application/rss+xml", "<rss/>"],
+        ["text/html", "<p>hi</p>"],
+        ["application/x-www-form-urlencoded", "a=1&b=two"],
+      ]) {
+        sendMessageSpy.mockClear();
+        mockFetch.mockResolvedValue(
+          new Response(text, { headers: { "content-type": contentType! } }),
+        );
+
+        await fetch("https://api.example.com/feed");
+        formats.push(getResponse().body.format);
+      }
+
+      expect(formats).toEqual(["XML", "HTML", "FORM_URLENCODED"]);
+      expect(getResponse().body.parts).toEqual([
+        { name: "a", value: "1" },
+        { name: "b", value: "two" },
+      ]);
+    });
+
+    it("should report image dimensions", async () => {
+      const png = new Uint8Array([
+        0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 0x00, 0x00, 0x00, 0x0d,
+        0x49, 0x48, 0x44, 0x52, 0x00, 0x00, 0x00, 0x02, 0x00, 0x00, 0x00, 0x03,
+      ]);
+      mockFetch.mockResolvedValue(
+        new Response(png, { headers: { "content-type": "image/png" } }),
+      );
+      interceptor.setup({ enableNetworkInspector: true });
+
+      await fetch("https://cdn.example.com/pixel.png");
+
+      const { body } = getResponse();
+      expect(body.format).toBe("IMAGE");
+      expect(body.image).toEqual({
+        width: 2,
+        height: 3,
+        thumbnail: expect.stringMatching(/^data:image\/png;base64,iVBORw0K/),
+      });
+    });
+
+    it("should classify protobuf and msgpack responses", async () => {
+      interceptor.setup({ enableNetworkInspector: true });
+
+      mockFetch.mockResolvedValue(
+        new Response(new Uint8Array([0x08, 0x96, 0x01]), {
+          headers: { "content-type": "application/octet-stream" },
+        }),
+      );
+      await fetch("https://api.example.com/rpc");
+      expect(getResponse().body.format).toBe("PROTOBUF");
+
+      sendMessageSpy.mockClear();
+      mockFetch.mockResolvedValue(
+        new Response(new Uint8Array([0x81, 0xa1, 0x61, 0x01]), {
+          headers: { "content-type": "application/msgpack" },
+        }),
+      );
+      await fetch("https://api.example.com/rpc");
+      expect(getResponse().body.format).toBe("MSGPACK");
+    });
+  });
+
+  describe("body capture", () => {
+    const getEvent = (phase: string) =>
+      sendMessageSpy.mock.calls
+        .map(([event]) => event)
+        .find((event) => event.phase === phase);
+
+    it("should truncate bodies over the response limit without parsing them", async () => {
+      const json = JSON.stringify({ items: "x".repeat(100) });
+      mockFetch.mockResolvedValue(
+        new Response(json, {
+          headers: { "content-type": "application/json" },
+        }),
+      );
+      interceptor.setup({
+        enableNetworkInspector: true,
+        bodyCapture: { maxBytes: 1000, maxResponseBytes: 20 },
+      });
+
+      await fetch("https://api.example.com/sync", {
+        method: "POST",
+        body: json,
+      });
+
+      expect(getEvent("REQUEST").body.truncated).toBeUndefined();
+      expect(getEvent("RESPONSE").body).toEqual({
+        format: "JSON",
+        size: json.length,
+        preview: json,
+        raw: json.slice(0, 20),
+        truncated: true,
+      });
+    });
+
+    it("should measure and cut text bodies in UTF-8 bytes", async () => {
+      mockFetch.mockResolvedValue(new Response("ok"));
+      interceptor.setup({
+        enableNetworkInspector: true,
+        bodyCapture: { maxRequestBytes: 5 },
+      });
+
+      await fetch("https://api.example.com/notes", {
+        method: "POST",
+        body: "héllo wörld",
+      });
+
+      expect(getEvent("REQUEST").body).toMatchObject({
+        size: 13,
+        raw: "héll",
+        truncated: true,
+      });
+    });
+
+    it("should mark binary bodies over the limit as truncated", async () => {
+      mockFetch.mockResolvedValue(
+        new Response(new Uint8Array(32), {
+          headers: { "content-type": "application/octet-stream" },
+        }),
+      );
+      interceptor.setup({
+        enableNetworkInspector: true,
+        bodyCapture: { maxResponseBytes: 16 },
+      });
+
+      await fetch("https://cdn.example.com/blob");
+
+      const body = getEvent("RESPONSE").body;
+      expect(body).toMatchObject({ size: 32, truncated: true });
+      expect(body.raw).toBeUndefined();
+    });
+
+    it("should skip bodies of excluded URLs", async () => {
+      mockFetch.mockResolvedValue(new Response("secret"));
+      interceptor.setup({
+        enableNetworkInspector: true,
+        bodyCapture: { exclude: ["*/auth/*"] },
+      });
+
+      await fetch("https://api.example.com/auth/token", {
+        method: "POST",
+        body: "password=hunter2",
+      });
+
+      expect(getEvent("REQUEST").body.format).toBe("NONE");
+      expect(getEvent("RESPONSE").body.format).toBe("NONE");
+    });
+
+    it("should only capture bodies of included URLs", async () => {
+      mockFetch.mockImplementation(async () => new Response("ok"));
+      interceptor.setup({
+        enableNetworkInspector: true,
+        bodyCapture: { include: ["/api/"] },
+      });
+
+      await fetch("https://example.com/api/users");
+      await fetch("https://cdn.example.com/bundle.js");
+
+      const bodies = sendMessageSpy.mock.calls
+        .map(([event]) => event)
+        .filter((event) => event.phase === "RESPONSE")
+        .map((event) => event.body.format);
+
+      expect(bodies).toEqual(["TEXT", "NONE"]);
+    });
+
+    it("should sample request and response bodies together", async () => {
+      const random = vi.spyOn(Math, "random").mockReturnValue(0.5);
+      mockFetch.mockImplementation(async () => new Response("ok"));
+      interceptor.setup({
+        enableNetworkInspector: true,
+        bodyCapture: {
+          sampleRate: 1,
+          sampleRates: [{ url: "/events", rate: 0.25 }],
+        },
+      });
+
+      await fetch("https://api.example.com/events", {
+        method: "POST",
+        body: "{}",
+      });
+
+      expect(getEvent("REQUEST").body.format).toBe("NONE");
+      expect(getEvent("RESPONSE").body.format).toBe("NONE");
+
+      random.mockRestore();
+    });
+  });
+
+  describe("request filtering", () => {
+    it("should pass ignored requests straight through", async () => {
+      mockFetch.mockResolvedValue(new Response("ok"));
+      interceptor.setup({
+        enableNetworkInspector: true,
+        network: { ignore: ["*/health", { host: "cdn.example.com" }] },
+      });
+
+      const init = { method: "GET" };
+      await fetch("https://api.example.com/health", init);
+      await fetch("https://cdn.example.com/logo.png");
+
+      expect(mockFetch).toHaveBeenCalledWith(
+        "https://api.example.com/health",
+        init,
+      );
+      expect(sendMessageSpy).not.toHaveBeenCalled();
+    });
+
+    it("should match methods and GraphQL operation names", async () => {
+      mockFetch.mockImplementation(async () => new Response("{}"));
+      interceptor.setup({
+        enableNetworkInspector: true,
+        enableGraphQL: true,
+        network: {
+          ignore: [{ method: "OPTIONS" }, { operationName: "Heartbeat" }],
+        },
+      });
+
+      await fetch("https://api.example.com/users", { method: "OPTIONS" });
+      await fetch("https://api.example.com/graphql", {
+        method: "POST",
+        body: JSON.stringify({ operationName: "Heartbeat", query: "{ ok }" }),
+      });
+      await fetch("https://api.example.com/graphql", {
+        method: "POST",
+        body: JSON.stringify({ operationName: "GetUser", query: "{ user }" }),
+      });
+
+      const requests = sendMessageSpy.mock.calls
+        .map(([event]) => event)
+        .filter((event) => event.phase === "REQUEST");
+
+      expect(requests).toHaveLength(1);
+      expect(requests[0].graphql.operationName).toBe("GetUser");
+    });
+
+    it("should only capture included requests", async () => {
+      mockFetch.mockImplementation(async () => new Response("ok"));
+      interceptor.setup({
+        enableNetworkInspector: true,
+        network: { include: [{ host: "api.example.com" }] },
+      });
+
+      await fetch("https://api.example.com/users");
+      await fetch("https://static.example.com/config.json");
+
+      expect(
+        sendMessageSpy.mock.calls.map(([event]) => event.url ?? event.phase),
+      ).toEqual(["https://api.example.com/users", "RESPONSE"]);
+    });
+
+    it("should ignore Metro and Limelight traffic by default", async () => {
+      mockFetch.mockImplementation(async () => new Response("ok"));
+      interceptor.setup({
+        enableNetworkInspector: true,
+        serverUrl: "ws://localhost:8484/limelight",
+      });
+
+      await fetch("http://localhost:8081/symbolicate", { method: "POST" });
+      await fetch("http://localhost:8484/limelight/events", { method: "POST" });
+
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+      expect(sendMessageSpy).not.toHaveBeenCalled();
+    });
+
+    it("should capture default-ignored requests when ignoreDefaults is false", async () => {
+      mockFetch.mockResolvedValue(new Response("ok"));
+      interceptor.setup({
+        enableNetworkInspector: true,
+        network: { ignoreDefaults: false },
+      });
+
+      await fetch("http://localhost:8081/symbolicate", { method: "POST" });
+
+      expect(sendMessageSpy).toHaveBeenCalledWith(
+        expect.objectContaining({ phase: "REQUEST" }),
+      );
+    });
+  });
+
+  describe("streaming responses", () => {
+    const streamingResponse = (contentType: string) => {
+      let controller!: ReadableStreamDefaultController<Uint8Array>;
+      const body = new ReadableStream<Uint8Array>({
+        start: (c) => {
+          controller = c;
+        },
+      });
+      const encoder = new TextEncoder();
+
+      return {
+        response: new Response(body, {
+          headers: { "content-type": contentType },
+        }),
+        push: (text: string) => controller.enqueue(encoder.encode(text)),
+        close: () => controller.close(),
+        fail: (error: Error) => controller.error(error),
+      };
+    };
+
+    const flush = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+    it("should return SSE responses right away and send chunks as they arrive", async () => {
+      const stream = streamingResponse("text/event-stream");
+      mockFetch.mockResolvedValue(stream.response);
+
+      interceptor.setup({ enableNetworkInspector: true });
+
+      const response = await fetch("https://api.example.com/chat");
+      expect(response.status).toBe(200);
+
+      stream.push("data: hello\n\n");
+      await flush();
+      stream.push("data: world\n\n");
+      await flush();
+
+      const phases = () =>
+        sendMessageSpy.mock.calls.map(([message]) => message.phase);
+
+      expect(phases()).toEqual(["REQUEST", "RESPONSE_CHUNK", "RESPONSE_CHUNK"]);
+      expect(sendMessageSpy.mock.calls[2]![0]).toMatchObject({
+        index: 1,
+        data: "data: world\n\n",
+        size: 13,
+      });
+
+      stream.close();
+      await flush();
+
+      expect(phases()).toHaveLength(4);
+      expect(sendMessageSpy).toHaveBeenLastCalledWith(
+        expect.objectContaining({
+          phase: "RESPONSE",
+          streamed: true,
+          chunkCount: 2,
+          responseSize: 26,
+          body: expect.objectContaining({
+            raw: "data: hello\n\ndata: world\n\n",
+          }),
+        }),
+      );
+    });
+
+    it("should keep sending chunk sizes past the capture limit", async () => {
+      const stream = streamingResponse("text/event-stream");
+      mockFetch.mockResolvedValue(stream.response);
+
+      interceptor.setup({ enableNetworkInspector: true });
+
+      await fetch("https://api.example.com/chat");
+      stream.push("a".repeat(STREAMING_DEFAULTS.MAX_CAPTURED_BYTES));
+      await flush();
+      stream.push("overflow");
+      await flush();
+
+      expect(sendMessageSpy.mock.calls[2]![0]).toMatchObject({
+        phase: "RESPONSE_CHUNK",
+        index: 1,
+        size: 8,
+        truncated: true,
+      });
+      expect(sendMessageSpy.mock.calls[2]![0]).not.toHaveProperty("data");
+
+      stream.close();
+      await flush();
+
+      expect(sendMessageSpy).toHaveBeenLastCalledWith(
+        expect.objectContaining({
+          phase: "RESPONSE",
+          chunkCount: 2,
+          truncated: true,
+        }),
+      );
+    });
+
+    it("should send an error when the stream fails", async () => {
+      const stream = streamingResponse("application/x-ndjson");
+      mockFetch.mockResolvedValue(stream.response);
+
+      interceptor.setup({ enableNetworkInspector: true });
+
+      await fetch("https://api.example.com/events");
+      stream.push('{"n":1}\n');
+      stream.fail(new Error("connection reset"));
+      await flush();
+
+      expect(sendMessageSpy).toHaveBeenLastCalledWith(
+        expect.objectContaining({
+          phase: "ERROR",
+          errorMessage: "connection reset",
+        }),
+      );
+    });
+  });
+
+  describe("mock rules", () => {
+    it("should return canned responses without calling fetch", async () => {
+      const mockEngine = new MockEngine();
+      interceptor = new NetworkInterceptor(
+        sendMessageSpy,
+        getSessionIdSpy,
+        mockEngine,
+      );
+
+      mockEngine.setRules([
+        {
+          id: "empty-users",
+          match: { url: "*/users", method: "GET" },
+          response: { status: 200, body: { users: [] } },
+        },
+      ]);
+
+      interceptor.setup({
+        enableNetworkInspector: true,
+        projectKey: "project-123",
+      });
+
+      const response = await fetch("https://api.example.com/users");
+
+      expect(mockFetch).not.toHaveBeenCalled();
+      expect(await response.json()).toEqual({ users: [] });
+      expect(response.headers.get("content-type")).toBe("application/json");
+      expect(sendMessageSpy).toHaveBeenCalledWith(
+        expect.objectContaining({
+          phase: "RESPONSE",
+          status: 200,
+          mocked: true,
+          mockRuleId: "empty-users",
+        }),
+      );
+    });
+
+    it("should force errors and flag the error event", async () => {
+      const mockEngine = new MockEngine();
+      interceptor = new NetworkInterceptor(
+        sendMessageSpy,
+        getSessionIdSpy,
+        mockEngine,
+      );
+
+      mockEngine.setRules([
+        { id: "offline", match: {}, error: "Network request failed" },
+      ]);
+
+      interceptor.setup({
+        enableNetworkInspector: true,
+        projectKey: "project-123",
+      });
+
+      await expect(fetch("https://api.example.com/users")).rejects.toThrow(
+        "Network request failed",
+      );
+
+      expect(mockFetch).not.toHaveBeenCalled();
+      expect(sendMessageSpy).toHaveBeenCalledWith(
+        expect.objectContaining({
+          phase: "ERROR",
+          mocked: true,
+          mockRuleId: "offline",
+        }),
+      );
+    });
+
+    it("should inject latency and still hit the network", async () => {
+      vi.useFakeTimers();
+      const mockEngine = new MockEngine();
+      interceptor = new NetworkInterceptor(
+        sendMessageSpy,
+        getSessionIdSpy,
+        mockEngine,
+      );
+
+      mockEngine.setRules([{ id: "slow", match: {}, delay: 2000 }]);
+      mockFetch.mockResolvedValue(new Response("ok"));
+
+      interceptor.setup({
+        enableNetworkInspector: true,
+        projectKey: "project-123",
+      });
+
+      const pending = fetch("https://api.example.com/users");
+
+      await vi.advanceTimersByTimeAsync(1000);
+      expect(mockFetch).not.toHaveBeenCalled();
+
+      await vi.advanceTimersByTimeAsync(1000);
+      await pending;
+
+      expect(mockFetch).toHaveBeenCalledOnce();
+      vi.useRealTimers();
+    });
+  });
+
+  describe("network profiles", () => {
+    it("should fail requests without hitting the network when offline", async () => {
+      const conditioner = new NetworkConditioner();
+      interceptor = new NetworkInterceptor(
+        sendMessageSpy,
+        getSessionIdSpy,
+        undefined,
+        conditioner,
+      );
+
+      conditioner.setProfile("offline");
+
+      interceptor.setup({
+        enableNetworkInspector: true,
+        projectKey: "project-123",
+      });
+
+      await expect(fetch("https://api.example.com/users")).rejects.toThrow(
+        "Network request failed",
+      );
+
+      expect(mockFetch).not.toHaveBeenCalled();
+      expect(sendMessageSpy).toHaveBeenCalledWith(
+        expect.objectContaining({
+          phase: "ERROR",
+          networkProfile: "offline",
+        }),
+      );
+    });
+
+    it("should include simulated timing in the response duration", async () => {
+      vi.useFakeTimers();
+      const conditioner = new NetworkConditioner();
+      interceptor = new NetworkInterceptor(
+        sendMessageSpy,
+        getSessionIdSpy,
+        undefined,
+        conditioner,
+      );
+
+      conditioner.setProfile({ name: "slow", latency: 300, downloadKbps: 8 });
+      mockFetch.mockResolvedValue(new Response("x".repeat(100)));
+
+      interceptor.setup({
+        enableNetworkInspector: true,
+        projectKey: "project-123",
+      });
+
+      const pending = fetch("https://api.example.com/users");
+      await vi.advanceTimersByTimeAsync(400);
+      await pending;
+
+      const responseEvent = sendMessageSpy.mock.calls.find(
+        (call) => call[0].phase === "RESPONSE",
+      )?.[0];
+
+      // 300ms latency + 100 bytes at 8 kbps
+      expect(responseEvent.duration).toBe(400);
+      expect(responseEvent.networkProfile).toBe("slow");
+      vi.useRealTimers();
+    });
+  });
+
+  describe("breakpoints", () => {
+    let breakpoints: BreakpointManager;
+
+    beforeEach(() => {
+      breakpoints = new BreakpointManager(sendMessageSpy, getSessionIdSpy);
+      interceptor = new NetworkInterceptor(
+        sendMessageSpy,
+        getSessionIdSpy,
+        new MockEngine(),
+        new NetworkConditioner(),
+        breakpoints,
+      );
+
+      interceptor.setup({
+        enableNetworkInspector: true,
+        projectKey: "project-123",
+      });
+    });
+
+    it("should hold requests until resumed and apply edits", async () => {
+      mockFetch.mockResolvedValue(new Response("ok"));
+      breakpoints.setRules([{ id: "bp", match: { url: "*/users" } }]);
+
+      const pending = fetch("https://api.example.com/users", {
+        headers: { authorization: "Bearer secret", "x-debug": "1" },
+      });
+
+      await vi.waitFor(() => expect(breakpoints.hasPausedCalls()).toBe(true));
+      expect(mockFetch).not.toHaveBeenCalled();
+
+      const pausedEvent = sendMessageSpy.mock.calls
+        .map(([event]) => event)
+        .find((event) => event.phase === "PAUSED");
+
+      expect(pausedEvent).toMatchObject({
+        stage: "request",
+        breakpointId: "bp",
+      });
+      expect(pausedEvent.headers.authorization).toBe("[REDACTED]");
+
+      breakpoints.resume(pausedEvent.id, {
+        url: "https://api.example.com/users?page=2",
+        method: "POST",
+        headers: { authorization: "[REDACTED]" },
+        body: "edited",
+      });
+
+      await pending;
+
+      const [input, init] = mockFetch.mock.calls[0]!;
+      expect(input).toBe("https://api.example.com/users?page=2");
+      expect(init.method).toBe("POST");
+      expect(init.body).toBe("edited");
+      expect(init.headers.get("authorization")).toBe("Bearer secret");
+      expect(init.headers.has("x-debug")).toBe(false);
+    });
+
+    it("should deliver edited responses to app code", async () => {
+      mockFetch.mockResolvedValue(new Response("ok", { status: 200 }));
+      breakpoints.setRules([{ id: "bp", match: {}, stages: ["response"] }]);
+
+      const pending = fetch("https://api.example.com/users");
+
+      await vi.waitFor(() => expect(breakpoints.hasPausedCalls()).toBe(true));
+
+      const pausedEvent = sendMessageSpy.mock.calls
+        .map(([event]) => event)
+        .find((event) => event.phase === "PAUSED");
+
+      expect(pausedEvent).toMatchObject({ stage: "response", status: 200 });
+
+      breakpoints.resume(pausedEvent.id, { status: 503, body: "down" });
+
+      const response = await pending;
+      expect(response.status).toBe(503);
+      expect(await response.text()).toBe("down");
+
+      const responseEvent = sendMessageSpy.mock.calls
+        .map(([event]) => event)
+        .find((event) => event.phase === "RESPONSE");
+
+      expect(responseEvent).toMatchObject({ status: 503, ok: false });
+      expect(responseEvent.body.raw).toBe("down");
+    });
+
+    it("should drop the body when an edit sets a null-body status", async () => {
+      mockFetch.mockResolvedValue(new Response("ok", { status: 200 }));
+      breakpoints.setRules([{ id: "bp", match: {}, stages: ["response"] }]);
+
+      const pending = fetch("https://api.example.com/users");
+
+      await vi.waitFor(() => expect(breakpoints.hasPausedCalls()).toBe(true));
+
+      const pausedEvent = sendMessageSpy.mock.calls
+        .map(([event]) => event)
+        .find((event) => event.phase === "PAUSED");
+
+      breakpoints.resume(pausedEvent.id, { status: 204 });
+
+      const response = await pending;
+      expect(response.status).toBe(204);
+      expect(await response.text()).toBe("");
+    });
+
+    it("should continue unchanged when resumed without edits", async () => {
+      mockFetch.mockResolvedValue(new Response("ok"));
+      breakpoints.setRules([{ id: "bp", match: {} }]);
+
+      const pending = fetch("https://api.example.com/users");
+
+      await vi.waitFor(() => expect(breakpoints.hasPausedCalls()).toBe(true));
+      breakpoints.resumeAll();
+
+      expect(await (await pending).text()).toBe("ok");
+      expect(mockFetch.mock.calls[0]![0]).toBe("https://api.example.com/users");
+    });
+
+    it("should not pause mocked responses", async () => {
+      const mockEngine = new MockEngine();
+      interceptor.cleanup();
+      interceptor = new NetworkInterceptor(
+        sendMessageSpy,
+        getSessionIdSpy,
+        mockEngine,
+        new NetworkConditioner(),
+        breakpoints,
+      );
+      interceptor.setup({ enableNetworkInspector: true });
+
+      mockEngine.setRules([
+        {
+          id: "users",
+          match: { url: "*/users" },
+          response: { status: 200, body: "mocked" },
+        },
+      ]);
+      breakpoints.setRules([{ id: "bp", match: {}, stages: ["response"] }]);
+
+      const response = await fetch("https://api.example.com/users");
+
+      expect(await response.text()).toBe("mocked");
+      expect(breakpoints.hasPausedCalls()).toBe(false);
+    });
+  });
+
+  describe("replay()", () => {
+    it("should re-issue a captured request linked to the original", async () => {
+      mockFetch.mockImplementation(() => Promise.resolve(new Response("ok")));
+
+      interceptor.setup({
+        enableNetworkInspector: true,
+        projectKey: "project-123",
+      });
+
+      await fetch("https://api.example.com/users", {
+        method: "POST",
+        headers: { Authorization: "Bearer secret-token" },
+        body: JSON.stringify({ name: "test" }),
+      });
+
+      const original = sendMessageSpy.mock.calls[0]?.[0];
+      sendMessageSpy.mockClear();
+
+      expect(interceptor.canReplay(original.id)).toBe(true);
+      expect(interceptor.replay(original.id)).toBe(true);
+
+      await vi.waitFor(() => {
+        expect(sendMessageSpy).toHaveBeenCalledWith(
+          expect.objectContaining({
+            phase: "RESPONSE",
+            replayOf: original.id,
+          }),
+        );
+      });
+
+      const replayEvent = sendMessageSpy.mock.calls[0]?.[0];
+      expect(replayEvent.id).not.toBe(original.id);
+      expect(replayEvent.replayOf).toBe(original.id);
+
+      const [, replayInit] = mockFetch.mock.calls[1]!;
+      expect(replayInit.method).toBe("POST");
+      expect(replayInit.body).toBe(JSON.stringify({ name: "test" }));
+      expect(replayInit.headers.get("authorization")).toBe(
+        "Bearer secret-token",
+      );
+    });
+
+    it("should apply edits and keep redacted header values", async () => {
+      mockFetch.mockImplementation(() => Promise.resolve(new Response("ok")));
+
+      interceptor.setup({
+        enableNetworkInspector: true,
+        projectKey: "project-123",
+      });
+
+      await fetch("https://api.example.com/users", {
+        headers: { Authorization: "Bearer secret-token" },
+      });
+
+      const original = sendMessageSpy.mock.calls[0]?.[0];
+
+      interceptor.replay(original.id, {
+        url: "https://staging.example.com/users",
+        headers: { authorization: "[REDACTED]", "x-debug": "1" },
+      });
+
+      await vi.waitFor(() => expect(mockFetch).toHaveBeenCalledTimes(2));
+
+      const [replayInput, replayInit] = mockFetch.mock.calls[1]!;
+      expect(replayInput).toBe("https://staging.example.com/users");
+      expect(replayInit.headers.get("authorization")).toBe(
+        "Bearer secret-token",
+      );
+      expect(replayInit.headers.get("x-debug")).toBe("1");
+    });
+
+    it("should not replay unknown requests", () => {
+      interceptor.setup({
+        enableNetworkInspector: true,
+        projectKey: "project-123",
+      });
+
+      expect(interceptor.replay("req-unknown")).toBe(false);
+      expect(mockFetch).not.toHaveBeenCalled();
+    });
+  });
+
   describe("cleanup()", () => {
     it("should restore original fetch", () => {
       const fetchBeforeSetup = global.fetch;
@@ -0,0 +1,108 @@
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import { ProtocolNegotiator } from "@/limelight/transport";
+import { CommandType } from "@/types";
+import { PROTOCOL_VERSION } from "@/constants";
+import { isProtocolCompatible } from "@/helpers";
+
+describe("ProtocolNegotiator", () => {
+  let negotiator: ProtocolNegotiator;
+  let disableSpy: ReturnType<typeof vi.fn>;
+
+  beforeEach(() => {
+    disableSpy = vi.fn();
+    negotiator = new ProtocolNegotiator(disableSpy);
+    negotiator.configure({
+      enableNetworkInspector: true,
+      enableConsole: true,
+      enableRenderInspector: false,
+      enableStateInspector: true,
+    });
+  });
+
+  it("should advertise enabled interceptors and supported commands", () => {
+    const capabilities = negotiator.getCapabilities();
+
+    expect(capabilities.interceptors).toEqual(["network", "console"]);
+    expect(capabilities.commands).toContain(CommandType.RESUME_REQUEST);
+    expect(capabilities.commands).not.toContain(CommandType.ACK);
+  });
+
+  it("should disable interceptors the desktop does not support", () => {
+    const compatible = negotiator.apply({
+      type: CommandType.CONNECT_ACK,
+      protocolVersion: PROTOCOL_VERSION,
+      capabilities: { interceptors: ["network"] },
+    });
+
+    expect(compatible).toBe(true);
+    expect(disableSpy).toHaveBeenCalledOnce();
+    expect(disableSpy).toHaveBeenCalledWith("console");
+  });
+
+  it("should leave everything enabled for desktops without capabilities", () => {
+    expect(negotiator.apply({ type: CommandType.CONNECT_ACK })).toBe(true);
+    expect(disableSpy).not.toHaveBeenCalled();
+  });
+
+  it("should always warn about incompatible protocol versions", () => {
+    const warnSpy = vi.spyOn(console, "warn").mockImplementation(() => {});
+
+    const compatible = negotiator.apply({
+      type: CommandType.CONNECT_ACK,
+      protocolVersion: "99.0.0",
+    });
+
+    expect(compatible).toBe(false);
+    expect(warnSpy).toHaveBeenCalledWith(expect.stringContaining("99.0.0"));
+
+    warnSpy.mockRestore();
+  });
+
+  it("should disable batching, breakpoints and the bridge on a version mismatch", () => {
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+
+    negotiator.apply({
+      type: CommandType.CONNECT_ACK,
+      protocolVersion: "99.0.0",
+    });
+
+    expect(disableSpy.mock.calls.map(([feature]) => feature)).toEqual([
+      "batching",
+      "breakpoints",
+      "bridge",
+    ]);
+
+    vi.restoreAllMocks();
+  });
+
+  it("should disable breakpoints when the desktop cannot resume requests", () => {
+    negotiator.apply({
+      type: CommandType.CONNECT_ACK,
+      protocolVersion: PROTOCOL_VERSION,
+      capabilities: { commands: [CommandType.CLEAR_RENDERS] },
+    });
+
+    expect(disableSpy).toHaveBeenCalledOnce();
+    expect(disableSpy).toHaveBeenCalledWith("breakpoints");
+  });
+
+  it("should disable the bridge along with network events", () => {
+    negotiator.apply({
+      type: CommandType.CONNECT_ACK,
+      protocolVersion: PROTOCOL_VERSION,
+      capabilities: { interceptors: ["console"] },
+    });
+
+    expect(disableSpy.mock.calls.map(([feature]) => feature)).toEqual([
+      "network",
+      "bridge",
+    ]);
+  });
+
+  it("should treat minor versions before 1.0 as breaking", () => {
+    expect(isProtocolCompatible("0.1.0", "0.1.4")).toBe(true);
+    expect(isProtocolCompatible("0.1.0", "0.2.0")).toBe(false);
+    expect(isProtocolCompatible("1.2.0", "1.5.0")).toBe(true);
+    expect(isProtocolCompatible("1.2.0", "2.0.0")).toBe(false);
+  });
+});
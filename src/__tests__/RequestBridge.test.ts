@@ -6,6 +6,7 @@ import {
   LimelightMessage,
 } from "@/types";
 import { RequestBridge } from "@/limelight/bridges/RequestBridge";
+import { NetworkConditioner } from "@/limelight/network";
 
 describe("RequestBridge", () => {
   let bridge: RequestBridge;
@@ -89,6 +90,10 @@ describe("RequestBridge", () => {
         operationType: GraphqlOprtation.QUERY,
         variables: { id: "123" },
         query: "query GetUser($id: ID!) { user(id: $id) { name } }",
+        fragments: [],
+        rootFields: ["user"],
+        depth: 2,
+        complexity: 2,
       });
     });
 
@@ -122,6 +127,42 @@ describe("RequestBridge", () => {
       expect(event.name).toBe("MyCustomRequest");
     });
 
+    it("does not track requests matching network ignore rules", () => {
+      bridge.setConfig({
+        network: { ignore: [{ operationName: "Heartbeat" }] },
+      } as any);
+
+      const requestId = bridge.startRequest({
+        url: "https://api.example.com/graphql",
+        graphql: { operationName: "Heartbeat" },
+      });
+      bridge.endRequest(requestId, { status: 200 });
+
+      expect(sendMessage).not.toHaveBeenCalled();
+    });
+
+    it("completes ignored requests without warning", () => {
+      const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+      bridge.setConfig({
+        enableInternalLogging: true,
+        network: { ignore: [{ url: "*/health" }] },
+      } as any);
+
+      const first = bridge.startRequest({
+        url: "https://api.example.com/health",
+      });
+      const second = bridge.startRequest({
+        url: "https://api.example.com/health",
+      });
+      bridge.endRequest(first, { status: 200 });
+      bridge.failRequest(second, new Error("down"));
+
+      expect(sendMessage).not.toHaveBeenCalled();
+      expect(warn).not.toHaveBeenCalled();
+
+      warn.mockRestore();
+    });
+
     it("auto-constructs body from graphql config when body not provided", () => {
       bridge.startRequest({
         url: "https://api.example.com/graphql",
@@ -187,6 +228,45 @@ describe("RequestBridge", () => {
       expect(event.ok).toBe(true);
     });
 
+    it("sets ok to false for GraphQL errors returned with a 200", () => {
+      const requestId = bridge.startRequest({
+        url: "https://api.example.com/graphql",
+        graphql: { operationName: "GetUser" },
+      });
+
+      sendMessage.mockClear();
+
+      bridge.endRequest(requestId, {
+        status: 200,
+        body: { data: null, errors: [{ message: "Not authorized" }] },
+      });
+
+      const event = sendMessage.mock.calls[0]?.[0];
+      expect(event.ok).toBe(false);
+      expect(event.graphqlResult).toEqual({
+        errors: [{ message: "Not authorized" }],
+        hasPartialData: false,
+        nullCounts: {},
+      });
+    });
+
+    it("classifies object bodies as JSON with a structured preview", () => {
+      const requestId = bridge.startRequest({
+        url: "https://api.example.com/graphql",
+      });
+
+      sendMessage.mockClear();
+
+      bridge.endRequest(requestId, {
+        status: 200,
+        body: { data: { user: { name: "John" } } },
+      });
+
+      const event = sendMessage.mock.calls[0]?.[0];
+      expect(event.body.format).toBe("JSON");
+      expect(event.body.json).toEqual({ data: { user: { name: "John" } } });
+    });
+
     it("includes response headers when provided", () => {
       const requestId = bridge.startRequest({
         url: "https://api.example.com/graphql",
@@ -315,6 +395,57 @@ describe("RequestBridge", () => {
     });
   });
 
+  describe("network profiles", () => {
+    it("adds simulated time to the reported duration", () => {
+      const conditioner = new NetworkConditioner();
+      bridge = new RequestBridge(sendMessage, getSessionId, conditioner);
+      conditioner.setProfile({ name: "slow", latency: 500 });
+
+      const requestId = bridge.startRequest({ url: "https://api.example.com" });
+      sendMessage.mockClear();
+
+      bridge.endRequest(requestId, { status: 200 });
+
+      const event = sendMessage.mock.calls[0]?.[0];
+      expect(event.duration).toBeGreaterThanOrEqual(500);
+      expect(event.networkProfile).toBe("slow");
+    });
+
+    it("reports an error when the profile is offline", () => {
+      const conditioner = new NetworkConditioner();
+      bridge = new RequestBridge(sendMessage, getSessionId, conditioner);
+      conditioner.setProfile("offline");
+
+      const requestId = bridge.startRequest({ url: "https://api.example.com" });
+      sendMessage.mockClear();
+
+      bridge.endRequest(requestId, { status: 200 });
+
+      const event = sendMessage.mock.calls[0]?.[0];
+      expect(event.phase).toBe(NetworkPhase.ERROR);
+      expect(event.errorMessage).toBe("Network request failed");
+    });
+
+    it("keeps successful responses under packet loss and flags the profile", () => {
+      vi.spyOn(Math, "random").mockReturnValue(0);
+      const conditioner = new NetworkConditioner();
+      bridge = new RequestBridge(sendMessage, getSessionId, conditioner);
+      conditioner.setProfile("flaky");
+
+      const requestId = bridge.startRequest({ url: "https://api.example.com" });
+      sendMessage.mockClear();
+
+      bridge.endRequest(requestId, { status: 200 });
+
+      const event = sendMessage.mock.calls[0]?.[0];
+      expect(event.phase).toBe(NetworkPhase.RESPONSE);
+      expect(event.status).toBe(200);
+      expect(event.networkProfile).toBe("flaky");
+
+      vi.restoreAllMocks();
+    });
+  });
+
   describe("cleanup", () => {
     it("clears all pending requests", () => {
       bridge.startRequest({ url: "https://api.example.com/1" });
@@ -0,0 +1,76 @@
+import { describe, it, expect, afterEach, vi } from "vitest";
+import { SessionLoader, SessionRecorder } from "@/limelight/exporters";
+import { MemoryTransport } from "@/limelight/transport";
+import { LimelightMessage } from "@/types";
+
+const recordSession = () => {
+  const recorder = new SessionRecorder();
+  recorder.setConfig({ recording: true });
+
+  recorder.record({
+    phase: "CONNECT",
+    sessionId: "session-1",
+    timestamp: 1000,
+    data: { projectKey: "", sdkVersion: "test-version" },
+  });
+  recorder.record({
+    phase: "CONSOLE",
+    sessionId: "session-1",
+    timestamp: 1000,
+  } as unknown as LimelightMessage);
+  recorder.record({
+    phase: "CONSOLE",
+    sessionId: "session-2", // recorded after a reconnect
+    timestamp: 3000,
+  } as unknown as LimelightMessage);
+
+  return recorder.export();
+};
+
+describe("SessionLoader", () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("should replay an archive through a transport as one session", async () => {
+    const transport = new MemoryTransport();
+    const loader = new SessionLoader(JSON.stringify(recordSession()));
+
+    await loader.play(transport);
+
+    expect(transport.messages).toEqual([
+      expect.objectContaining({ phase: "CONNECT", seq: 0 }),
+      expect.objectContaining({ phase: "CONSOLE", seq: 1 }),
+      expect.objectContaining({ phase: "CONSOLE", seq: 2 }),
+    ]);
+    expect(
+      transport.messages.every(
+        (m) => "sessionId" in m && m.sessionId === "session-1",
+      ),
+    ).toBe(true);
+  });
+
+  it("should keep the recorded gaps with original timing", async () => {
+    vi.useFakeTimers();
+    const transport = new MemoryTransport();
+    const loader = new SessionLoader(recordSession());
+
+    const playing = loader.play(transport, { timing: "original", speed: 2 });
+
+    await vi.advanceTimersByTimeAsync(0);
+    expect(transport.messages).toHaveLength(2);
+
+    await vi.advanceTimersByTimeAsync(1000);
+    await playing;
+    expect(transport.messages).toHaveLength(3);
+  });
+
+  it("should reject archives it cannot read", () => {
+    expect(() => new SessionLoader("{}")).toThrow(
+      "Not a Limelight session archive",
+    );
+    expect(
+      () => new SessionLoader({ ...recordSession(), version: 99 }),
+    ).toThrow("newer than this SDK supports");
+  });
+});
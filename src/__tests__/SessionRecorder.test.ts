@@ -0,0 +1,103 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import { SessionRecorder } from "@/limelight/exporters";
+import { CommandType, LimelightMessage } from "@/types";
+import { MAX_SESSION_MESSAGES, SESSION_ARCHIVE_VERSION } from "@/constants";
+
+const consoleMessage = (id: number) =>
+  ({
+    phase: "CONSOLE",
+    sessionId: "session-123",
+    timestamp: id,
+    data: { id },
+  }) as unknown as LimelightMessage;
+
+const connect = (sessionId: string): LimelightMessage => ({
+  phase: "CONNECT",
+  sessionId,
+  timestamp: 0,
+  data: { projectKey: "", sdkVersion: "test-version" },
+});
+
+describe("SessionRecorder", () => {
+  let recorder: SessionRecorder;
+
+  beforeEach(() => {
+    recorder = new SessionRecorder();
+    recorder.setConfig({ recording: true });
+  });
+
+  it("should archive messages in order with the first CONNECT as metadata", () => {
+    recorder.record(consoleMessage(1));
+    recorder.record(connect("session-1"));
+    recorder.record(consoleMessage(2));
+    recorder.record(connect("session-2"));
+
+    const archive = recorder.export();
+
+    expect(archive).toMatchObject({
+      format: "limelight-session",
+      version: SESSION_ARCHIVE_VERSION,
+      connect: { sessionId: "session-1" },
+      droppedMessages: 0,
+    });
+    expect(archive.messages).toEqual([consoleMessage(1), consoleMessage(2)]);
+  });
+
+  it("should leave out connection lifecycle messages and acknowledgments", () => {
+    recorder.record({
+      phase: "RECONNECT",
+      sessionId: "session-2",
+      timestamp: 0,
+      data: { previousSessionId: "session-1", gapMs: 10 },
+    });
+    recorder.record({
+      phase: CommandType.ACK,
+      commandId: "cmd-1",
+      type: CommandType.CLEAR_RENDERS,
+      success: true,
+    });
+
+    expect(recorder.export().messages).toEqual([]);
+  });
+
+  it("should drop the oldest messages past the limit", () => {
+    for (let i = 0; i < MAX_SESSION_MESSAGES + 2; i++) {
+      recorder.record(consoleMessage(i));
+    }
+
+    const archive = recorder.export();
+
+    expect(archive.messages).toHaveLength(MAX_SESSION_MESSAGES);
+    expect(archive.messages[0]).toEqual(consoleMessage(2));
+    expect(archive.droppedMessages).toBe(2);
+  });
+
+  it("should drop the oldest messages past the byte budget", () => {
+    recorder.setConfig({ recording: { maxBytes: 1000 } });
+
+    for (let i = 0; i < 50; i++) {
+      recorder.record(consoleMessage(i));
+    }
+
+    const archive = recorder.export();
+
+    expect(archive.messages.length).toBeLessThan(50);
+    expect(archive.messages.at(-1)).toEqual(consoleMessage(49));
+    expect(archive.droppedMessages).toBe(50 - archive.messages.length);
+  });
+
+  it("should not record unless recording is enabled", () => {
+    recorder.setConfig({ recording: false });
+    recorder.record(consoleMessage(1));
+
+    expect(recorder.export().messages).toEqual([]);
+  });
+
+  it("should forget everything on clear()", () => {
+    recorder.record(connect("session-1"));
+    recorder.record(consoleMessage(1));
+    recorder.clear();
+
+    expect(recorder.export()).toMatchObject({ connect: null, messages: [] });
+  });
+});
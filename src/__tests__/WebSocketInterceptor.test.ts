@@ -0,0 +1,172 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { WebSocketInterceptor } from "@/limelight";
+import { GraphqlOprtation, WebSocketPhase } from "@/types";
+
+class FakeWebSocket extends EventTarget {
+  static CONNECTING = 0;
+  static OPEN = 1;
+  static CLOSING = 2;
+  static CLOSED = 3;
+
+  protocol = "";
+
+  constructor(
+    public url: string,
+    public protocols?: string | string[],
+  ) {
+    super();
+  }
+
+  send(_data: unknown) {
+    // No-op
+  }
+
+  open(protocol = "") {
+    this.protocol = protocol;
+    this.dispatchEvent(new Event("open"));
+  }
+
+  receive(data: unknown) {
+    this.dispatchEvent(new MessageEvent("message", { data }));
+  }
+
+  serverClose(code: number, reason: string) {
+    this.dispatchEvent(
+      new CloseEvent("close", { code, reason, wasClean: true }),
+    );
+  }
+}
+
+describe("WebSocketInterceptor", () => {
+  let interceptor: WebSocketInterceptor;
+  let sendMessageSpy: ReturnType<typeof vi.fn>;
+  let originalWebSocket: typeof WebSocket;
+  const originalSend = FakeWebSocket.prototype.send;
+
+  const sent = () => sendMessageSpy.mock.calls.map(([message]) => message);
+
+  beforeEach(() => {
+    originalWebSocket = global.WebSocket;
+    global.WebSocket = FakeWebSocket as any;
+
+    sendMessageSpy = vi.fn();
+    interceptor = new WebSocketInterceptor(sendMessageSpy, () => "session-123");
+    interceptor.setup({ serverUrl: "ws://localhost:8484/limelight" });
+  });
+
+  afterEach(() => {
+    interceptor.cleanup();
+    global.WebSocket = originalWebSocket;
+  });
+
+  it("should report open, frames and close with a shared connection id", () => {
+    const ws = new WebSocket(
+      "wss://chat.example.com",
+    ) as unknown as FakeWebSocket;
+
+    expect(ws).toBeInstanceOf(FakeWebSocket);
+
+    ws.open();
+    ws.send("hello");
+    ws.receive(new ArrayBuffer(8));
+    ws.serverClose(1000, "bye");
+
+    expect(sent().map((m) => m.phase)).toEqual([
+      WebSocketPhase.OPEN,
+      WebSocketPhase.SEND,
+      WebSocketPhase.RECEIVE,
+      WebSocketPhase.CLOSE,
+    ]);
+
+    const [open, send, receive, close] = sent();
+
+    expect(new Set(sent().map((m) => m.connectionId)).size).toBe(1);
+    expect(open).toMatchObject({ url: "wss://chat.example.com" });
+    expect(send).toMatchObject({
+      binary: false,
+      size: 5,
+      data: expect.objectContaining({ raw: "hello" }),
+    });
+    expect(receive).toMatchObject({ binary: true, size: 8 });
+    expect(receive.data).toBeUndefined();
+    expect(close).toMatchObject({ code: 1000, reason: "bye", wasClean: true });
+  });
+
+  it("should apply the body capture rules to frames", () => {
+    interceptor.cleanup();
+    interceptor.setup({
+      serverUrl: "ws://localhost:8484/limelight",
+      bodyCapture: { exclude: ["*/private"], maxResponseBytes: 4 },
+    });
+
+    const publicWs = new WebSocket(
+      "wss://chat.example.com/public",
+    ) as unknown as FakeWebSocket;
+    const privateWs = new WebSocket(
+      "wss://chat.example.com/private",
+    ) as unknown as FakeWebSocket;
+
+    publicWs.receive("hello world");
+    privateWs.send("secret");
+
+    const [receive, send] = sent();
+
+    expect(receive.data).toMatchObject({ size: 11, truncated: true });
+    expect(send.data).toMatchObject({ size: 0, preview: "" });
+  });
+
+  it("should not track Limelight's own connection", () => {
+    const ws = new WebSocket(
+      "ws://localhost:8484/limelight",
+    ) as unknown as FakeWebSocket;
+
+    ws.open();
+    ws.send("{}");
+
+    expect(sendMessageSpy).not.toHaveBeenCalled();
+  });
+
+  it("should label graphql-ws frames with their operation", () => {
+    const ws = new WebSocket("wss://api.example.com/graphql", [
+      "graphql-transport-ws",
+    ]) as unknown as FakeWebSocket;
+
+    ws.open("graphql-transport-ws");
+    ws.send(
+      JSON.stringify({
+        id: "1",
+        type: "subscribe",
+        payload: {
+          query: "subscription OnMessage { message { id } }",
+          operationName: "OnMessage",
+        },
+      }),
+    );
+    ws.receive(
+      JSON.stringify({ id: "1", type: "next", payload: { data: {} } }),
+    );
+
+    const [, subscribe, next] = sent();
+
+    expect(subscribe.graphql).toEqual({
+      type: "subscribe",
+      id: "1",
+      operationName: "OnMessage",
+      operationType: GraphqlOprtation.SUB,
+    });
+    expect(next.graphql).toMatchObject({
+      type: "next",
+      id: "1",
+      operationName: "OnMessage",
+    });
+  });
+
+  it("should restore the original WebSocket on cleanup", () => {
+    interceptor.cleanup();
+
+    expect(global.WebSocket).toBe(FakeWebSocket);
+    expect(FakeWebSocket.prototype.send).toBe(originalSend);
+
+    interceptor.setup({});
+  });
+});
@@ -1,6 +1,7 @@
 // __tests__/XHRInterceptor.test.ts
 import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
 import { XHRInterceptor } from "@/limelight";
+import { BreakpointManager, MockEngine } from "@/limelight/network";
 
 describe("XHRInterceptor", () => {
   let interceptor: XHRInterceptor;
@@ -141,4 +142,216 @@ describe("XHRInterceptor", () => {
 
     expect((xhr as any)._limelightData).toBeUndefined();
   });
+
+  it("should fulfil mocked requests without sending them", async () => {
+    const mockEngine = new MockEngine();
+    const sendSpy = vi.spyOn(XMLHttpRequest.prototype, "send");
+    interceptor = new XHRInterceptor(
+      sendMessageSpy,
+      getSessionIdSpy,
+      mockEngine,
+    );
+
+    mockEngine.setRules([
+      {
+        id: "server-error",
+        match: { url: "*/todos/*" },
+        response: {
+          status: 500,
+          statusText: "Internal Server Error",
+          body: { message: "boom" },
+        },
+      },
+    ]);
+
+    interceptor.setup({
+      enableNetworkInspector: true,
+      projectKey: "project-123",
+    });
+
+    const xhr = new XMLHttpRequest();
+    const onload = vi.fn();
+    xhr.onload = onload;
+
+    const loadPromise = new Promise<void>((resolve) => {
+      xhr.addEventListener("load", () => resolve());
+    });
+
+    xhr.open("GET", "https://jsonplaceholder.typicode.com/todos/1");
+    xhr.send();
+
+    await loadPromise;
+
+    expect(sendSpy).not.toHaveBeenCalled();
+    expect(onload).toHaveBeenCalledOnce();
+    expect(xhr.status).toBe(500);
+    expect(JSON.parse(xhr.responseText)).toEqual({ message: "boom" });
+    expect(xhr.getResponseHeader("Content-Type")).toBe("application/json");
+    expect(sendMessageSpy).toHaveBeenCalledWith(
+      expect.objectContaining({
+        phase: "RESPONSE",
+        status: 500,
+        mocked: true,
+        mockRuleId: "server-error",
+      }),
+    );
+  });
+
+  it("should hold requests at a breakpoint until resumed", async () => {
+    const mockEngine = new MockEngine();
+    const breakpoints = new BreakpointManager(sendMessageSpy, getSessionIdSpy);
+    interceptor = new XHRInterceptor(
+      sendMessageSpy,
+      getSessionIdSpy,
+      mockEngine,
+      undefined,
+      breakpoints,
+    );
+
+    mockEngine.setRules([
+      { id: "ok", match: {}, response: { status: 200, body: "done" } },
+    ]);
+    breakpoints.setRules([{ id: "bp", match: { method: "POST" } }]);
+
+    interceptor.setup({
+      enableNetworkInspector: true,
+      projectKey: "project-123",
+    });
+
+    const xhr = new XMLHttpRequest();
+    const onload = vi.fn();
+    xhr.onload = onload;
+
+    const loadPromise = new Promise<void>((resolve) => {
+      xhr.addEventListener("load", () => resolve());
+    });
+
+    xhr.open("POST", "https://api.example.com/todos");
+    xhr.send("original");
+
+    expect(breakpoints.hasPausedCalls()).toBe(true);
+    expect(sendMessageSpy).toHaveBeenCalledWith(
+      expect.objectContaining({
+        phase: "PAUSED",
+        stage: "request",
+        breakpointId: "bp",
+        body: expect.objectContaining({ raw: "original" }),
+      }),
+    );
+
+    await new Promise((resolve) => setTimeout(resolve, 0));
+    expect(onload).not.toHaveBeenCalled();
+
+    const pausedEvent = sendMessageSpy.mock.calls
+      .map(([event]) => event)
+      .find((event) => event.phase === "PAUSED");
+
+    breakpoints.resume(pausedEvent.id, { body: "edited" });
+
+    await loadPromise;
+
+    expect(xhr.responseText).toBe("done");
+  });
+
+  it("should fail mocked requests with an error", async () => {
+    const mockEngine = new MockEngine();
+    interceptor = new XHRInterceptor(
+      sendMessageSpy,
+      getSessionIdSpy,
+      mockEngine,
+    );
+
+    mockEngine.setRules([{ id: "down", match: {}, error: "down" }]);
+
+    interceptor.setup({
+      enableNetworkInspector: true,
+      projectKey: "project-123",
+    });
+
+    const xhr = new XMLHttpRequest();
+
+    const errorPromise = new Promise<void>((resolve) => {
+      xhr.addEventListener("error", () => resolve());
+    });
+
+    xhr.open("GET", "https://api.example.com/todos");
+    xhr.send();
+
+    await errorPromise;
+
+    expect(sendMessageSpy).toHaveBeenCalledWith(
+      expect.objectContaining({
+        phase: "ERROR",
+        mocked: true,
+        mockRuleId: "down",
+      }),
+    );
+  });
+
+  it("should report progress, request options and a timing breakdown", async () => {
+    const mockEngine = new MockEngine();
+    interceptor = new XHRInterceptor(
+      sendMessageSpy,
+      getSessionIdSpy,
+      mockEngine,
+    );
+
+    mockEngine.setRules([
+      { id: "ok", match: {}, response: { status: 201, body: "saved" } },
+    ]);
+
+    interceptor.setup({
+      enableNetworkInspector: true,
+      projectKey: "project-123",
+    });
+
+    const xhr = new XMLHttpRequest();
+
+    const loadPromise = new Promise<void>((resolve) => {
+      xhr.addEventListener("load", () => resolve());
+    });
+
+    xhr.open("POST", "/upload");
+    xhr.timeout = 5000;
+    xhr.withCredentials = true;
+    xhr.send("x".repeat(100));
+
+    const progress = (loaded: number) =>
+      new ProgressEvent("progress", {
+        lengthComputable: true,
+        loaded,
+        total: 100,
+      });
+
+    xhr.upload.dispatchEvent(progress(40));
+    xhr.upload.dispatchEvent(progress(60)); // Throttled
+    xhr.upload.dispatchEvent(progress(100));
+    xhr.upload.dispatchEvent(new ProgressEvent("load"));
+
+    await loadPromise;
+
+    const events = sendMessageSpy.mock.calls.map(([event]) => event);
+
+    expect(events[0]).toMatchObject({
+      phase: "REQUEST",
+      timeout: 5000,
+      withCredentials: true,
+    });
+    expect(
+      events
+        .filter((event) => event.phase === "PROGRESS")
+        .map((event) => [event.direction, event.loaded, event.total]),
+    ).toEqual([
+      ["upload", 40, 100],
+      ["upload", 100, 100],
+    ]);
+    expect(events.at(-1)).toMatchObject({
+      phase: "RESPONSE",
+      status: 201,
+      timing: {
+        uploadEnd: expect.any(Number),
+        total: expect.any(Number),
+      },
+    });
+  });
 });
@@ -1,3 +1,9 @@
+import {
+  NetworkConditions,
+  NetworkFilterRule,
+  NetworkProfileName,
+} from "@/types";
+
 /**
  * Constants used throughout the Limelight application.
  */
@@ -48,6 +54,238 @@ declare const __SDK_VERSION__: string;
 export const SDK_VERSION =
   typeof __SDK_VERSION__ !== "undefined" ? __SDK_VERSION__ : "test-version";
 
+/**
+ * How many recent requests each network interceptor keeps for replay.
+ */
+export const MAX_REPLAYABLE_REQUESTS = 50;
+
+/**
+ * WebSocket subprotocols whose frames are decoded as GraphQL messages:
+ * graphql-ws and the older subscriptions-transport-ws.
+ */
+export const GRAPHQL_WS_PROTOCOLS = ["graphql-transport-ws", "graphql-ws"];
+
+/**
+ * Field arguments read as page sizes when estimating GraphQL query complexity.
+ */
+export const GRAPHQL_PAGINATION_ARGUMENTS = [
+  "first",
+  "last",
+  "limit",
+  "pageSize",
+  "perPage",
+  "take",
+];
+
+/**
+ * Content types whose bodies are captured chunk by chunk instead of awaited.
+ * Responses sent with Transfer-Encoding: chunked are streamed too.
+ */
+export const STREAMING_CONTENT_TYPES = [
+  "text/event-stream",
+  "application/x-ndjson",
+  "application/stream+json",
+  "application/jsonl",
+];
+
+/**
+ * Defaults for capturing streaming response bodies.
+ */
+export const STREAMING_DEFAULTS = {
+  MAX_CAPTURED_BYTES: 1024 * 1024, // Chunks past this are sent without data
+} as const;
+
+/**
+ * Resource Timing entries kept before the buffer is cleared. Browsers stop
+ * recording at 250 entries by default.
+ */
+export const RESOURCE_TIMING_CLEAR_THRESHOLD = 200;
+
+/**
+ * Minimum time between PROGRESS events for one direction of an XHR.
+ */
+export const PROGRESS_EVENT_INTERVAL_MS = 250;
+
+/**
+ * Requests ignored unless network.ignoreDefaults is false: Metro's
+ * symbolication and editor calls, common analytics beacons, and the Limelight
+ * web API. Requests to the configured serverUrl are always ignored.
+ */
+export const DEFAULT_IGNORED_REQUESTS: NetworkFilterRule[] = [
+  "*/symbolicate",
+  "*/open-stack-frame",
+  "*/open-url",
+  { host: "google-analytics.com" },
+  { host: "analytics.google.com" },
+  { host: "api.segment.io" },
+  { host: "api.mixpanel.com" },
+  { host: "api2.amplitude.com" },
+  { host: "ingest.sentry.io" },
+  { host: "api.getlimelight.io" },
+];
+
+/**
+ * Defaults for capturing request and response bodies.
+ */
+export const BODY_CAPTURE_DEFAULTS = {
+  MAX_BYTES: 256 * 1024, // Larger bodies are truncated
+  SAMPLE_RATE: 1,
+} as const;
+
+/**
+ * Content types whose bodies are read as bytes rather than text.
+ */
+export const BINARY_CONTENT_TYPES = [
+  "image/",
+  "audio/",
+  "video/",
+  "font/",
+  "application/octet-stream",
+  "application/pdf",
+  "application/zip",
+  "application/gzip",
+  "application/x-protobuf",
+  "application/protobuf",
+  "application/grpc",
+  "application/msgpack",
+  "application/x-msgpack",
+];
+
+/**
+ * Limits for inspecting binary bodies.
+ */
+export const BINARY_BODY_DEFAULTS = {
+  PREVIEW_BYTES: 32, // Shown as hex
+  MAX_BASE64_BYTES: 64 * 1024, // Larger bodies are described but not captured
+  MAX_THUMBNAIL_BYTES: 16 * 1024, // Larger images are reported without a thumbnail
+} as const;
+
+/**
+ * Limits for the structured preview of JSON bodies.
+ */
+export const JSON_PREVIEW_LIMITS = {
+  MAX_DEPTH: 8,
+  MAX_ARRAY_ITEMS: 50,
+  MAX_OBJECT_KEYS: 100,
+  MAX_STRING_LENGTH: 200,
+} as const;
+
+/**
+ * How many recent requests are kept for HAR export.
+ */
+export const MAX_HAR_ENTRIES = 500;
+
+/**
+ * Defaults for recording messages for export.
+ */
+export const RECORDING_DEFAULTS = {
+  MAX_BYTES: 5 * 1024 * 1024,
+} as const;
+
+/**
+ * How many recent messages are kept for session export.
+ */
+export const MAX_SESSION_MESSAGES = 5000;
+
+/**
+ * Identifies session archives, and the archive version this SDK writes.
+ */
+export const SESSION_ARCHIVE_FORMAT = "limelight-session";
+export const SESSION_ARCHIVE_VERSION = 1;
+
+/**
+ * How long a breakpoint holds a call before resuming it unchanged.
+ */
+export const BREAKPOINT_TIMEOUT_MS = 30000;
+
+/**
+ * Statuses whose responses cannot carry a body; the Response constructor
+ * throws if one is given.
+ */
+export const NULL_BODY_STATUSES = [204, 205, 304];
+
+/**
+ * Defaults for the buffer that holds messages while disconnected.
+ */
+export const MESSAGE_BUFFER_DEFAULTS = {
+  STORAGE_KEY: "limelight:buffer",
+  MAX_BYTES: 1024 * 1024,
+  MAX_MESSAGES: 1000,
+  PERSIST_DELAY_MS: 100, // Coalesces bursts of messages into one storage write
+} as const;
+
+/**
+ * Defaults for coalescing messages into BATCH frames.
+ */
+export const BATCHING_DEFAULTS = {
+  MAX_MESSAGES: 50,
+  MAX_BYTES: 64 * 1024,
+  FLUSH_INTERVAL_MS: 50,
+  HIGH_WATER_MARK: 1024 * 1024,
+  MAX_PENDING_MESSAGES: 1000, // Oldest are dropped past this while backpressured
+} as const;
+
+/**
+ * Defaults for reconnecting after the connection drops.
+ */
+export const RECONNECT_DEFAULTS = {
+  MAX_ATTEMPTS: 5,
+  BASE_DELAY_MS: 1000,
+  MAX_DELAY_MS: 30000,
+} as const;
+
+/**
+ * Transport ready states, matching the WebSocket values.
+ */
+export const TRANSPORT_STATE = {
+  CONNECTING: 0,
+  OPEN: 1,
+  CLOSING: 2,
+  CLOSED: 3,
+} as const;
+
+/**
+ * Marks the SDK's own HTTP traffic so the network interceptors skip it.
+ */
+export const INTERNAL_REQUEST_HEADER = "x-limelight-internal";
+
+/**
+ * Defaults for the HTTP transport.
+ */
+export const HTTP_TRANSPORT_DEFAULTS = {
+  POLL_INTERVAL_MS: 1000,
+  CLOSE_FLUSH_TIMEOUT_MS: 2000, // How long close() waits to deliver unsent messages
+} as const;
+
+/**
+ * Built-in network condition profiles, modeled on Chrome DevTools presets.
+ */
+export const NETWORK_PROFILES: Record<NetworkProfileName, NetworkConditions> = {
+  "slow-3G": {
+    name: "slow-3G",
+    latency: 2000,
+    downloadKbps: 400,
+    uploadKbps: 400,
+  },
+  "3G": {
+    name: "3G",
+    latency: 560,
+    downloadKbps: 1440,
+    uploadKbps: 675,
+  },
+  flaky: {
+    name: "flaky",
+    latency: 800,
+    downloadKbps: 1000,
+    uploadKbps: 500,
+    packetLoss: 0.2,
+  },
+  offline: {
+    name: "offline",
+    offline: true,
+  },
+};
+
 /**
  * Thresholds for suspicious render detection.
  */
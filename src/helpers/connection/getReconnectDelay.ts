@@ -0,0 +1,24 @@
+import { ReconnectConfig } from "@/types";
+import { RECONNECT_DEFAULTS } from "@/constants";
+
+/**
+ * Computes the exponential backoff delay before a reconnect attempt.
+ * @param attempt - The attempt number, starting at 1
+ * @param options - Reconnect options from the config
+ * @returns Delay in ms
+ */
+export const getReconnectDelay = (
+  attempt: number,
+  options: ReconnectConfig = {},
+): number => {
+  const baseDelay = options.baseDelay ?? RECONNECT_DEFAULTS.BASE_DELAY_MS;
+  const maxDelay = options.maxDelay ?? RECONNECT_DEFAULTS.MAX_DELAY_MS;
+  const jitter = Math.min(Math.max(options.jitter ?? 0, 0), 1);
+
+  const delay = Math.min(baseDelay * Math.pow(2, attempt - 1), maxDelay);
+
+  if (jitter === 0) return delay;
+
+  // Spread evenly within ±jitter of the nominal delay
+  return Math.round(delay * (1 + jitter * (Math.random() * 2 - 1)));
+};
@@ -0,0 +1,341 @@
+import { GraphQLDocumentSummary } from "@/types";
+import { GRAPHQL_PAGINATION_ARGUMENTS } from "@/constants";
+
+type Selection =
+  | { kind: "field"; name: string; multiplier: number; children: Selection[] }
+  | { kind: "spread"; name: string }
+  | { kind: "inline"; children: Selection[] };
+
+interface ParsedDocument {
+  operations: { name?: string; selections: Selection[] }[];
+  fragments: Map<string, Selection[]>;
+}
+
+/**
+ * Matches block strings, strings, comments, spreads, names, numbers and punctuators.
+ */
+const TOKEN_PATTERN =
+  /"""[\s\S]*?"""|"(?:\\.|[^"\\\n])*"|#[^\n\r]*|\.\.\.|[_A-Za-z][_0-9A-Za-z]*|-?\d[\d.eE+-]*|[^\s,]/g;
+
+const NAME_PATTERN = /^[_A-Za-z]/;
+
+const OPERATION_KEYWORDS = new Set(["query", "mutation", "subscription"]);
+
+/**
+ * A minimal GraphQL parser that keeps only what the summary needs: selection
+ * sets, fragment spreads and page size arguments. Anything else is skipped.
+ */
+class DocumentParser {
+  private pos = 0;
+
+  constructor(
+    private tokens: string[],
+    private variables: Record<string, unknown> | undefined,
+  ) {
+    // No-op
+  }
+
+  /**
+   * Parses the operations and fragment definitions in the document.
+   * @returns The parsed document.
+   */
+  parse(): ParsedDocument {
+    const document: ParsedDocument = { operations: [], fragments: new Map() };
+
+    while (this.pos < this.tokens.length) {
+      const token = this.peek();
+
+      if (token === "{") {
+        document.operations.push({ selections: this.parseSelectionSet() });
+      } else if (token && OPERATION_KEYWORDS.has(token)) {
+        this.pos++;
+        const name = this.isName(this.peek()) ? this.next() : undefined;
+        this.skipToSelectionSet();
+        document.operations.push({
+          name,
+          selections: this.parseSelectionSet(),
+        });
+      } else if (token === "fragment") {
+        this.pos++;
+        const name = this.next();
+        this.skipToSelectionSet();
+        document.fragments.set(name ?? "", this.parseSelectionSet());
+      } else {
+        this.pos++;
+      }
+    }
+
+    return document;
+  }
+
+  /**
+   * Parses a selection set, consuming its braces.
+   * @private
+   * @returns The selections, or an empty array if no selection set follows.
+   */
+  private parseSelectionSet(): Selection[] {
+    const selections: Selection[] = [];
+
+    if (this.peek() !== "{") return selections;
+    this.pos++;
+
+    while (this.pos < this.tokens.length && this.peek() !== "}") {
+      const token = this.next();
+
+      if (token === "...") {
+        if (this.peek() === "on") {
+          this.pos += 2; // Type condition
+        } else if (this.isName(this.peek())) {
+          selections.push({ kind: "spread", name: this.next() as string });
+          this.skipDirectives();
+          continue;
+        }
+
+        this.skipDirectives();
+        selections.push({ kind: "inline", children: this.parseSelectionSet() });
+      } else if (this.isName(token)) {
+        let name = token as string;
+
+        if (this.peek() === ":") {
+          this.pos++;
+          name = this.next() ?? name;
+        }
+
+        const multiplier = this.peek() === "(" ? this.parseArguments() : 1;
+        this.skipDirectives();
+
+        selections.push({
+          kind: "field",
+          name,
+          multiplier,
+          children: this.parseSelectionSet(),
+        });
+      }
+    }
+
+    this.pos++;
+    return selections;
+  }
+
+  /**
+   * Consumes a field's arguments and reads its page size, if any.
+   * Variables are resolved from the request's variables.
+   * @private
+   * @returns The page size, or 1 if the field is not paginated.
+   */
+  private parseArguments(): number {
+    const start = this.pos;
+    this.skipBalanced("(", ")");
+    const args = this.tokens.slice(start, this.pos);
+
+    for (let i = 0; i < args.length - 2; i++) {
+      if (
+        !GRAPHQL_PAGINATION_ARGUMENTS.includes(args[i] as string) ||
+        args[i + 1] !== ":"
+      ) {
+        continue;
+      }
+
+      const value =
+        args[i + 2] === "$"
+          ? this.variables?.[args[i + 3] as string]
+          : Number(args[i + 2]);
+
+      if (typeof value === "number" && value > 0) {
+        return value;
+      }
+    }
+
+    return 1;
+  }
+
+  /**
+   * Skips variable definitions, type conditions and directives up to the next selection set.
+   * @private
+   */
+  private skipToSelectionSet(): void {
+    while (this.pos < this.tokens.length && this.peek() !== "{") {
+      if (this.peek() === "(") {
+        this.skipBalanced("(", ")");
+      } else {
+        this.pos++;
+      }
+    }
+  }
+
+  /**
+   * Skips any directives, including their arguments.
+   * @private
+   */
+  private skipDirectives(): void {
+    while (this.peek() === "@") {
+      this.pos += 2;
+
+      if (this.peek() === "(") {
+        this.skipBalanced("(", ")");
+      }
+    }
+  }
+
+  /**
+   * Skips a bracketed group, including any nested groups.
+   * @private
+   * @param open - The opening bracket at the current position.
+   * @param close - The matching closing bracket.
+   */
+  private skipBalanced(open: string, close: string): void {
+    let depth = 0;
+
+    do {
+      const token = this.next();
+      if (token === open) depth++;
+      if (token === close) depth--;
+    } while (depth > 0 && this.pos < this.tokens.length);
+  }
+
+  /**
+   * Returns the current token without consuming it.
+   * @private
+   */
+  private peek(): string | undefined {
+    return this.tokens[this.pos];
+  }
+
+  /**
+   * Consumes and returns the current token.
+   * @private
+   */
+  private next(): string | undefined {
+    return this.tokens[this.pos++];
+  }
+
+  /**
+   * Checks whether a token is a name rather than a punctuator, string or number.
+   * @private
+   */
+  private isName(token: string | undefined): boolean {
+    return !!token && NAME_PATTERN.test(token);
+  }
+}
+
+interface FieldNode {
+  name: string;
+  multiplier: number;
+  children: FieldNode[];
+}
+
+/**
+ * Stops expanding fragments past this many fields, so documents that reuse
+ * nested fragments heavily cannot blow up.
+ */
+const MAX_EXPANDED_FIELDS = 10000;
+
+/**
+ * Replaces fragment spreads and inline fragments with the fields they select.
+ * Fragments already on the current path are skipped, so cycles terminate.
+ * @param selections - The selections to expand.
+ * @param fragments - The document's fragment definitions.
+ * @param state - Fragments spread so far and the remaining field budget.
+ * @param path - Fragments being expanded above this selection set.
+ * @returns The selected fields.
+ */
+const expandFields = (
+  selections: Selection[],
+  fragments: Map<string, Selection[]>,
+  state: { spreads: Set<string>; budget: number },
+  path: Set<string> = new Set(),
+): FieldNode[] =>
+  selections.flatMap((selection): FieldNode[] => {
+    if (state.budget <= 0) return [];
+
+    switch (selection.kind) {
+      case "field":
+        state.budget--;
+        return [
+          {
+            name: selection.name,
+            multiplier: selection.multiplier,
+            children: expandFields(selection.children, fragments, state, path),
+          },
+        ];
+
+      case "inline":
+        return expandFields(selection.children, fragments, state, path);
+
+      case "spread":
+        state.spreads.add(selection.name);
+        if (path.has(selection.name)) return [];
+
+        return expandFields(
+          fragments.get(selection.name) ?? [],
+          fragments,
+          state,
+          new Set(path).add(selection.name),
+        );
+    }
+  });
+
+/**
+ * Measures the deepest field selection.
+ * @param fields - The fields to measure.
+ * @returns The number of nested field levels.
+ */
+const getDepth = (fields: FieldNode[]): number =>
+  Math.max(0, ...fields.map((field) => 1 + getDepth(field.children)));
+
+/**
+ * Estimates the cost of resolving the fields.
+ * @param fields - The fields to estimate.
+ * @returns The estimated cost.
+ */
+const getComplexity = (fields: FieldNode[]): number =>
+  fields.reduce(
+    (sum, field) =>
+      sum + field.multiplier * (1 + getComplexity(field.children)),
+    0,
+  );
+
+/**
+ * Reads the shape of a GraphQL query document without a schema or the graphql
+ * package: the fragments it uses, its top-level fields, how deeply it nests
+ * and an estimated cost. Each field costs 1, multiplied by its page size
+ * argument (first, limit, ...) when one is given.
+ * @param query - The query document.
+ * @param operationName - The operation to summarize, when the document has several.
+ * @param variables - The request's variables, used to resolve page sizes.
+ * @returns The document summary, or null if no operation was found.
+ */
+export const analyzeGraphQLDocument = (
+  query: string,
+  operationName?: string,
+  variables?: Record<string, unknown>,
+): GraphQLDocumentSummary | null => {
+  try {
+    const tokens = (query.match(TOKEN_PATTERN) ?? []).filter(
+      (token) => !token.startsWith("#"),
+    );
+
+    const { operations, fragments } = new DocumentParser(
+      tokens,
+      variables,
+    ).parse();
+
+    const operation =
+      operations.find((candidate) => candidate.name === operationName) ??
+      operations[0];
+
+    if (!operation) return null;
+
+    const state = { spreads: new Set<string>(), budget: MAX_EXPANDED_FIELDS };
+    const fields = expandFields(operation.selections, fragments, state);
+
+    return {
+      fragments: Array.from(state.spreads),
+      rootFields: Array.from(new Set(fields.map((field) => field.name))),
+      depth: getDepth(fields),
+      complexity: getComplexity(fields),
+    };
+  } catch {
+    return null;
+  }
+};
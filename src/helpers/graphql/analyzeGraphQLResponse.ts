@@ -0,0 +1,122 @@
+import { GraphQLErrorSummary, GraphQLResultSummary } from "@/types";
+
+/**
+ * Counts the null values in a GraphQL result value, including the value itself.
+ * @param value - The value to count nulls in.
+ * @returns The number of null values found.
+ */
+const countNulls = (value: unknown): number => {
+  if (value === null) {
+    return 1;
+  }
+
+  if (typeof value !== "object") {
+    return 0;
+  }
+
+  return Object.values(value).reduce<number>(
+    (count, child) => count + countNulls(child),
+    0,
+  );
+};
+
+/**
+ * Reduces a GraphQL error to its message, path and extensions.code.
+ * @param error - An entry from the response's errors array.
+ * @returns The error summary.
+ */
+const summarizeError = (error: any): GraphQLErrorSummary => {
+  const message =
+    typeof error?.message === "string" ? error.message : "Unknown error";
+  const path = Array.isArray(error?.path) ? error.path : undefined;
+  const code =
+    typeof error?.extensions?.code === "string"
+      ? error.extensions.code
+      : undefined;
+
+  return {
+    message,
+    ...(path && { path }),
+    ...(code && { code }),
+  };
+};
+
+/**
+ * Summarizes one GraphQL result object.
+ * @param result - The parsed result.
+ * @returns The result summary, or null if the value is not a GraphQL result.
+ */
+const summarizeResult = (result: any): GraphQLResultSummary | null => {
+  if (
+    !result ||
+    typeof result !== "object" ||
+    Array.isArray(result) ||
+    (!("data" in result) && !("errors" in result))
+  ) {
+    return null;
+  }
+
+  const errors = Array.isArray(result.errors)
+    ? result.errors.map(summarizeError)
+    : [];
+
+  const data =
+    result.data && typeof result.data === "object" ? result.data : {};
+
+  const nullCounts: Record<string, number> = {};
+
+  for (const [field, value] of Object.entries(data)) {
+    nullCounts[field] = countNulls(value);
+  }
+
+  const hasData = Object.values(data).some((value) => value !== null);
+
+  return {
+    ...(errors.length > 0 && { errors }),
+    hasPartialData: errors.length > 0 && hasData,
+    nullCounts,
+  };
+};
+
+/**
+ * Parses a GraphQL response body and summarizes its errors and null fields.
+ * Servers commonly answer with a 200 even when the operation failed, so the
+ * errors array is the only reliable failure signal. Batched responses are
+ * summarized per operation and as a whole.
+ * @param body - The response body, as text or already parsed.
+ * @returns The result summary, or null if the body is not a GraphQL result.
+ */
+export const analyzeGraphQLResponse = (
+  body: unknown,
+): GraphQLResultSummary | null => {
+  try {
+    const parsed = typeof body === "string" ? JSON.parse(body) : body;
+
+    if (!Array.isArray(parsed)) {
+      return summarizeResult(parsed);
+    }
+
+    const operations = parsed.map(
+      (result) =>
+        summarizeResult(result) ?? { hasPartialData: false, nullCounts: {} },
+    );
+
+    const errors = operations.flatMap((operation) => operation.errors ?? []);
+    const nullCounts: Record<string, number> = {};
+
+    for (const operation of operations) {
+      for (const [field, count] of Object.entries(operation.nullCounts)) {
+        nullCounts[field] = (nullCounts[field] ?? 0) + count;
+      }
+    }
+
+    return {
+      ...(errors.length > 0 && { errors }),
+      hasPartialData: operations.some((operation) => operation.hasPartialData),
+      nullCounts,
+      operations,
+    };
+  } catch {
+    return null;
+  }
+};
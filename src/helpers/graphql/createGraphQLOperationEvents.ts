@@ -0,0 +1,71 @@
+import {
+  GraphQLRequest,
+  GraphQLResponse,
+  NetworkPhase,
+  NetworkRequest,
+  NetworkResponse,
+  NetworkType,
+} from "@/types";
+
+/**
+ * Builds the child REQUEST events for a batched GraphQL request, one per operation.
+ * @param parent - The REQUEST event of the HTTP request carrying the batch.
+ * @param operations - The operations in batch order.
+ * @returns The child events, linked to the parent by parentId.
+ */
+export const createGraphQLOperationRequests = (
+  parent: NetworkRequest,
+  operations: NonNullable<NetworkRequest["graphql"]>[],
+): GraphQLRequest[] =>
+  operations.map((operation, index) => ({
+    id: `${parent.id}:${index}`,
+    sessionId: parent.sessionId,
+    timestamp: parent.timestamp,
+    phase: NetworkPhase.REQUEST,
+    networkType: NetworkType.GRAPHQL,
+    url: parent.url,
+    method: parent.method,
+    headers: parent.headers,
+    name: operation.operationName || parent.name,
+    initiator: parent.initiator,
+    requestSize: 0,
+    graphql: operation,
+    parentId: parent.id,
+    batchIndex: index,
+    ...(parent.replayOf && { replayOf: `${parent.replayOf}:${index}` }),
+  }));
+
+/**
+ * Builds the child RESPONSE events for a batched GraphQL request, one per
+ * operation. Each is marked failed if its own result carried errors.
+ * @param parent - The RESPONSE event of the HTTP request carrying the batch.
+ * @param count - The number of operations in the batch.
+ * @returns The child events, linked to the parent by parentId.
+ */
+export const createGraphQLOperationResponses = (
+  parent: NetworkResponse,
+  count: number,
+): GraphQLResponse[] =>
+  Array.from({ length: count }, (_, index) => {
+    const result = parent.graphqlResult?.operations?.[index];
+
+    return {
+      id: `${parent.id}:${index}`,
+      sessionId: parent.sessionId,
+      timestamp: parent.timestamp,
+      phase: NetworkPhase.RESPONSE,
+      networkType: NetworkType.GRAPHQL,
+      status: parent.status,
+      statusText: parent.statusText,
+      headers: parent.headers,
+      duration: parent.duration,
+      responseSize: 0,
+      redirected: parent.redirected,
+      ok: parent.status >= 200 && parent.status < 300 && !result?.errors,
+      parentId: parent.id,
+      batchIndex: index,
+      ...(result && { graphqlResult: result }),
+      ...(result?.errors && { errors: result.errors }),
+      ...(parent.replayOf && { replayOf: `${parent.replayOf}:${index}` }),
+    };
+  });
@@ -3,3 +3,8 @@ export * from "./isGraphQLRequest";
 export * from "./parseGraphQL";
 export * from "./detectGraphQlOperationType";
 export * from "./normalizeOperationType";
+export * from "./parseGraphQLWebSocketMessage";
+export * from "./analyzeGraphQLResponse";
+export * from "./parseGraphQLOperations";
+export * from "./createGraphQLOperationEvents";
+export * from "./analyzeGraphQLDocument";
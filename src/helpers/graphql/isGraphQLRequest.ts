@@ -9,7 +9,12 @@ export const isGraphQLRequest = (url: string, body: any): boolean => {
   if (typeof rawBody !== "string") return isGraphqlUrl;
 
   try {
-    if (rawBody.includes('"query"') || rawBody.includes('"operationName"')) {
+    if (
+      rawBody.includes('"query"') ||
+      rawBody.includes('"operationName"') ||
+      rawBody.includes('"persistedQuery"') ||
+      rawBody.includes('"doc_id"')
+    ) {
       return true;
     }
   } catch {}
@@ -1,5 +1,6 @@
 import { NetworkRequest } from "@/types";
 import { detectGraphQlOperationType } from "./detectGraphQlOperationType";
+import { analyzeGraphQLDocument } from "./analyzeGraphQLDocument";
 
 /**
  * WARNING: Do NOT include raw variables or query literals in production payloads.
@@ -20,8 +21,15 @@ export const parseGraphQL = (body: any): NetworkRequest["graphql"] | null => {
       return null;
     }
 
-    // 3. Only return if there is at least a query (standard GraphQL)
-    if (!parsed.query && !parsed.operationName) {
+    // 3. Persisted queries send a hash or document id instead of the query text
+    const persistedQueryHash = parsed.extensions?.persistedQuery?.sha256Hash;
+    const documentId = parsed.doc_id ?? parsed.documentId;
+
+    const hasPersistedQuery =
+      typeof persistedQueryHash === "string" || typeof documentId === "string";
+
+    // 4. Only return if there is at least a query (standard GraphQL)
+    if (!parsed.query && !parsed.operationName && !hasPersistedQuery) {
       return null;
     }
 
@@ -30,6 +38,14 @@ export const parseGraphQL = (body: any): NetworkRequest["graphql"] | null => {
       operationType: detectGraphQlOperationType(parsed.query),
       variables: parsed.variables || undefined,
       query: parsed.query || undefined,
+      ...(typeof persistedQueryHash === "string" && { persistedQueryHash }),
+      ...(typeof documentId === "string" && { documentId }),
+      ...(typeof parsed.query === "string" &&
+        analyzeGraphQLDocument(
+          parsed.query,
+          parsed.operationName,
+          parsed.variables,
+        )),
     };
   } catch {
     return null;
@@ -0,0 +1,78 @@
+import { NetworkRequest } from "@/types";
+import { parseGraphQL } from "./parseGraphQL";
+
+type GraphQLOperation = NonNullable<NetworkRequest["graphql"]>;
+
+/**
+ * Parses a search param holding JSON, as GET requests encode variables and extensions.
+ * @param value - The search param value.
+ * @returns The parsed value, or undefined if it is missing or not JSON.
+ */
+const parseJsonParam = (value: string | null): any => {
+  if (!value) return undefined;
+
+  try {
+    return JSON.parse(value);
+  } catch {
+    return undefined;
+  }
+};
+
+/**
+ * Reads a GraphQL operation from a GET request's search params.
+ * @param url - The request URL.
+ * @returns The operation, or null if the URL does not carry one.
+ */
+const parseSearchParams = (url: string): GraphQLOperation | null => {
+  try {
+    const params = new URL(url).searchParams;
+
+    return (
+      parseGraphQL({
+        query: params.get("query") || undefined,
+        operationName: params.get("operationName") || undefined,
+        variables: parseJsonParam(params.get("variables")),
+        extensions: parseJsonParam(params.get("extensions")),
+        doc_id: params.get("doc_id") || undefined,
+      }) ?? null
+    );
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Extracts every GraphQL operation a request carries: one for a plain or
+ * persisted query, several for an array-batched body, or the one encoded in
+ * the URL of a GET request.
+ * @param url - The request URL.
+ * @param body - The raw request body, if any.
+ * @returns The operations in batch order, or an empty array if none were found.
+ */
+export const parseGraphQLOperations = (
+  url: string,
+  body?: string,
+): GraphQLOperation[] => {
+  if (!body) {
+    const operation = parseSearchParams(url);
+    return operation ? [operation] : [];
+  }
+
+  try {
+    const parsed = JSON.parse(body);
+
+    // Results come back by position, so a batch is only used if every entry parses
+    if (Array.isArray(parsed)) {
+      const operations = parsed.map((entry) => parseGraphQL(entry));
+
+      return operations.every(Boolean)
+        ? (operations as GraphQLOperation[])
+        : [];
+    }
+
+    const operation = parseGraphQL(parsed);
+    return operation ? [operation] : [];
+  } catch {
+    return [];
+  }
+};
@@ -0,0 +1,49 @@
+/**
+ * Message types used by graphql-ws (graphql-transport-ws) and the older
+ * subscriptions-transport-ws (graphql-ws) protocols.
+ */
+const GRAPHQL_WS_MESSAGE_TYPES = new Set([
+  "connection_init",
+  "connection_ack",
+  "connection_error",
+  "connection_terminate",
+  "ping",
+  "pong",
+  "ka",
+  "subscribe",
+  "start",
+  "next",
+  "data",
+  "error",
+  "complete",
+  "stop",
+]);
+
+/**
+ * Parses a WebSocket text frame as a GraphQL-over-WebSocket message.
+ * @param data - The frame's text.
+ * @returns The message type, operation ID and payload, or null if the frame is not a GraphQL message.
+ */
+export const parseGraphQLWebSocketMessage = (
+  data: string,
+): { type: string; id?: string; payload?: unknown } | null => {
+  try {
+    const parsed = JSON.parse(data);
+
+    if (
+      !parsed ||
+      typeof parsed !== "object" ||
+      !GRAPHQL_WS_MESSAGE_TYPES.has(parsed.type)
+    ) {
+      return null;
+    }
+
+    return {
+      type: parsed.type,
+      id: typeof parsed.id === "string" ? parsed.id : undefined,
+      payload: parsed.payload,
+    };
+  } catch {
+    return null;
+  }
+};
@@ -1,5 +1,8 @@
 export * from "./detection";
 export * from "./graphql";
+export * from "./network";
 export * from "./safety";
 export * from "./utils";
 export * from "./render";
+export * from "./transport";
+export * from "./connection";
@@ -0,0 +1,8 @@
+/**
+ * Reads the high-resolution clock used by Resource Timing.
+ * @returns performance.now(), or undefined where it is not available.
+ */
+export const getHighResTime = (): number | undefined =>
+  typeof performance !== "undefined" && typeof performance.now === "function"
+    ? performance.now()
+    : undefined;
@@ -0,0 +1,21 @@
+import { LimelightConfig } from "@/types";
+import { BODY_CAPTURE_DEFAULTS } from "@/constants";
+
+/**
+ * Reads the capture size limit for request or response bodies.
+ * @param config - The Limelight config.
+ * @param direction - Whether the body is a request or response body.
+ * @returns The maximum captured size, in bytes.
+ */
+export const getMaxBodyBytes = (
+  config: LimelightConfig | null | undefined,
+  direction: "request" | "response",
+): number => {
+  const capture = config?.bodyCapture;
+  const limit =
+    direction === "request"
+      ? capture?.maxRequestBytes
+      : capture?.maxResponseBytes;
+
+  return limit ?? capture?.maxBytes ?? BODY_CAPTURE_DEFAULTS.MAX_BYTES;
+};
@@ -0,0 +1,123 @@
+import { NetworkTiming } from "@/types";
+import { RESOURCE_TIMING_CLEAR_THRESHOLD } from "@/constants";
+import { getHighResTime } from "./getHighResTime";
+
+/**
+ * Resolves a request URL to the absolute form Resource Timing names entries by.
+ * @param url - The request URL.
+ * @returns The absolute URL, or the URL unchanged if it cannot be resolved.
+ */
+const toEntryName = (url: string): string => {
+  try {
+    return typeof location !== "undefined" && location.href
+      ? new URL(url, location.href).href
+      : new URL(url).href;
+  } catch {
+    return url;
+  }
+};
+
+/**
+ * Picks the entry that started closest after the request did and ended within
+ * its window, so concurrent requests to the same URL are not mixed up.
+ * @param entries - Resource Timing entries for the URL.
+ * @param start - performance.now() when the request started.
+ * @param end - performance.now() when the request finished.
+ * @returns The best match, or undefined if no entry fits the window.
+ */
+const findClosestEntry = (
+  entries: PerformanceResourceTiming[],
+  start: number,
+  end: number,
+): PerformanceResourceTiming | undefined => {
+  let closest: PerformanceResourceTiming | undefined;
+
+  entries.forEach((entry) => {
+    if (entry.startTime < start || entry.responseEnd > end) return;
+
+    if (
+      !closest ||
+      entry.startTime < closest.startTime ||
+      (entry.startTime === closest.startTime &&
+        entry.responseEnd > closest.responseEnd)
+    ) {
+      closest = entry;
+    }
+  });
+
+  return closest;
+};
+
+/**
+ * Clears the Resource Timing buffer once it is mostly full, so the browser
+ * keeps recording entries for later requests.
+ */
+const trimResourceTimings = (): void => {
+  if (
+    typeof performance.clearResourceTimings === "function" &&
+    performance.getEntriesByType("resource").length >=
+      RESOURCE_TIMING_CLEAR_THRESHOLD
+  ) {
+    performance.clearResourceTimings();
+  }
+};
+
+/**
+ * Reads the high-resolution start and end of a request and, where the
+ * platform records a Resource Timing entry for it, its DNS, connect, TLS,
+ * request and download phases. Cross-origin entries without
+ * Timing-Allow-Origin carry no phases, so only start and end are reported.
+ * @param url - The request URL.
+ * @param start - performance.now() when the request started.
+ * @param reachesNetwork - False for mocked responses, which have no entry.
+ * @returns The timing fields that could be measured, or an empty object.
+ */
+export const getResourceTiming = (
+  url: string,
+  start: number | undefined,
+  reachesNetwork = true,
+): Partial<NetworkTiming> => {
+  const end = getHighResTime();
+
+  if (start === undefined || end === undefined) {
+    return {};
+  }
+
+  const timing = { start, end };
+
+  if (!reachesNetwork || typeof performance.getEntriesByName !== "function") {
+    return timing;
+  }
+
+  let entry: PerformanceResourceTiming | undefined;
+
+  try {
+    entry = findClosestEntry(
+      performance.getEntriesByName(
+        toEntryName(url),
+        "resource",
+      ) as PerformanceResourceTiming[],
+      start,
+      end,
+    );
+    trimResourceTimings();
+  } catch {
+    return timing;
+  }
+
+  if (!entry || !entry.requestStart) {
+    return timing;
+  }
+
+  return {
+    ...timing,
+    dns: entry.domainLookupEnd - entry.domainLookupStart,
+    connect: entry.connectEnd - entry.connectStart,
+    ...(entry.secureConnectionStart > 0 && {
+      tls: entry.connectEnd - entry.secureConnectionStart,
+    }),
+    request: entry.responseStart - entry.requestStart,
+    download: entry.responseEnd - entry.responseStart,
+    firstByte: entry.responseStart - start,
+  };
+};
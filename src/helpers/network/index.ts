@@ -0,0 +1,12 @@
+export * from "./matchesRequest";
+export * from "./matchesUrlPattern";
+export * from "./mergeReplayRequest";
+export * from "./normalizeMockResponse";
+export * from "./restoreRedactedHeaders";
+export * from "./isStreamingResponse";
+export * from "./getHighResTime";
+export * from "./getResourceTiming";
+export * from "./isBinaryContentType";
+export * from "./shouldCaptureBody";
+export * from "./getMaxBodyBytes";
+export * from "./shouldIgnoreRequest";
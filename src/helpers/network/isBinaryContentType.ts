@@ -0,0 +1,16 @@
+import { BINARY_CONTENT_TYPES } from "@/constants";
+
+/**
+ * Checks whether a body should be read as bytes, such as images or protobuf.
+ * SVG is XML, so it is read as text.
+ * @param contentType - The Content-Type header, if any.
+ * @returns True for binary content types.
+ */
+export const isBinaryContentType = (contentType?: string): boolean => {
+  const type = contentType?.toLowerCase() ?? "";
+
+  return (
+    !type.includes("svg") &&
+    BINARY_CONTENT_TYPES.some((binaryType) => type.includes(binaryType))
+  );
+};
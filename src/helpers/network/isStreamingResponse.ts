@@ -0,0 +1,26 @@
+import { STREAMING_CONTENT_TYPES } from "@/constants";
+
+/**
+ * Checks whether a response body arrives as a stream that should be captured
+ * chunk by chunk, such as server-sent events or NDJSON.
+ * @param headers - The response headers.
+ * @returns True for streaming content types and chunked transfer encoding.
+ */
+export const isStreamingResponse = (
+  headers: Record<string, string>,
+): boolean => {
+  let contentType = "";
+  let transferEncoding = "";
+
+  Object.entries(headers).forEach(([key, value]) => {
+    const name = key.toLowerCase();
+
+    if (name === "content-type") contentType = value.toLowerCase();
+    if (name === "transfer-encoding") transferEncoding = value.toLowerCase();
+  });
+
+  return (
+    transferEncoding.includes("chunked") ||
+    STREAMING_CONTENT_TYPES.some((type) => contentType.includes(type))
+  );
+};
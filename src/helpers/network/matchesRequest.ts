@@ -0,0 +1,33 @@
+import { MatchableRequest, RequestMatcher } from "@/types";
+import { matchesUrlPattern } from "./matchesUrlPattern";
+
+/**
+ * Checks whether a request satisfies every field of a matcher.
+ * @param request - The request being evaluated.
+ * @param matcher - The rule's match criteria.
+ * @returns True if all provided criteria match.
+ */
+export const matchesRequest = (
+  request: MatchableRequest,
+  matcher: RequestMatcher,
+): boolean => {
+  if (matcher.url && !matchesUrlPattern(request.url, matcher.url)) {
+    return false;
+  }
+
+  if (
+    matcher.method &&
+    matcher.method.toUpperCase() !== request.method.toUpperCase()
+  ) {
+    return false;
+  }
+
+  if (
+    matcher.operationName &&
+    matcher.operationName !== request.operationName
+  ) {
+    return false;
+  }
+
+  return true;
+};
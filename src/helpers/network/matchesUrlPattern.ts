@@ -0,0 +1,39 @@
+import { UrlPattern } from "@/types";
+
+/**
+ * Tests a URL against a glob, "/regex/flags" string, substring or RegExp.
+ * Invalid regular expressions never match.
+ * @param url - The URL to test.
+ * @param pattern - The pattern to test against.
+ * @returns True if the URL matches the pattern.
+ */
+export const matchesUrlPattern = (
+  url: string,
+  pattern: UrlPattern,
+): boolean => {
+  if (pattern instanceof RegExp) {
+    pattern.lastIndex = 0;
+    return pattern.test(url);
+  }
+
+  try {
+    const regexLiteral = pattern.match(/^\/(.+)\/([gimsuy]*)$/);
+
+    if (regexLiteral) {
+      return new RegExp(regexLiteral[1]!, regexLiteral[2]).test(url);
+    }
+
+    if (pattern.includes("*")) {
+      const source = pattern
+        .split("*")
+        .map((part) => part.replace(/[.+?^${}()|[\]\\]/g, "\\$&"))
+        .join(".*");
+
+      return new RegExp(`^${source}$`).test(url);
+    }
+  } catch {
+    return false;
+  }
+
+  return url.includes(pattern);
+};
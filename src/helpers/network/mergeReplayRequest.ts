@@ -0,0 +1,35 @@
+import { ReplayableRequest, ReplayRequestOverrides } from "@/types";
+import { restoreRedactedHeaders } from "./restoreRedactedHeaders";
+
+/**
+ * Builds the request to replay from a captured request and optional desktop edits.
+ * Redacted header values in the edits are restored from the captured request.
+ * @param captured - The request as originally sent by the app, if known.
+ * @param overrides - Edited fields from the desktop.
+ * @returns The request to re-issue, or null if there is no URL to send to.
+ */
+export const mergeReplayRequest = (
+  captured?: ReplayableRequest,
+  overrides?: ReplayRequestOverrides,
+): ReplayableRequest | null => {
+  const url = overrides?.url ?? captured?.url;
+
+  if (!url) return null;
+
+  const capturedHeaders = captured?.headers ?? {};
+  const headers = overrides?.headers
+    ? restoreRedactedHeaders(capturedHeaders, overrides.headers)
+    : { ...capturedHeaders };
+
+  const body =
+    overrides?.body !== undefined
+      ? (overrides.body.raw ?? overrides.body.preview)
+      : captured?.body;
+
+  return {
+    url,
+    method: (overrides?.method ?? captured?.method ?? "GET").toUpperCase(),
+    headers,
+    body: body || undefined,
+  };
+};
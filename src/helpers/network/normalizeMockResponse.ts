@@ -0,0 +1,36 @@
+import { NormalizedMockResponse, ResponseBridgeConfig } from "@/types";
+
+/**
+ * Serializes a ResponseBridgeConfig-style mock response for fetch or XHR.
+ * Object bodies are JSON encoded and default to an application/json content type.
+ * @param response - The canned response from a mock rule.
+ * @returns The normalized response.
+ */
+export const normalizeMockResponse = (
+  response: ResponseBridgeConfig,
+): NormalizedMockResponse => {
+  const headers: Record<string, string> = {};
+
+  Object.entries(response.headers ?? {}).forEach(([key, value]) => {
+    headers[key.toLowerCase()] = value;
+  });
+
+  let body = "";
+
+  if (typeof response.body === "string") {
+    body = response.body;
+  } else if (response.body !== undefined && response.body !== null) {
+    body = JSON.stringify(response.body);
+
+    if (!headers["content-type"]) {
+      headers["content-type"] = "application/json";
+    }
+  }
+
+  return {
+    status: response.status,
+    statusText: response.statusText ?? "",
+    headers,
+    body,
+  };
+};
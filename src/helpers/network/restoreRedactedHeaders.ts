@@ -0,0 +1,31 @@
+/**
+ * Applies an edited header set while restoring values the SDK redacted.
+ * Headers left as "[REDACTED]" keep their original value; headers missing
+ * from the edited set are dropped.
+ * @param original - The unredacted headers as sent by the app.
+ * @param edited - The edited headers from the desktop.
+ * @returns The headers to send.
+ */
+export const restoreRedactedHeaders = (
+  original: Record<string, string>,
+  edited: Record<string, string>,
+): Record<string, string> => {
+  const originalHeaders = new Map(
+    Object.entries(original).map(([key, value]) => [key.toLowerCase(), value]),
+  );
+
+  const headers: Record<string, string> = {};
+
+  Object.entries(edited).forEach(([key, value]) => {
+    const originalValue = originalHeaders.get(key.toLowerCase());
+
+    if (value === "[REDACTED]") {
+      if (originalValue !== undefined) headers[key] = originalValue;
+      return;
+    }
+
+    headers[key] = value;
+  });
+
+  return headers;
+};
@@ -0,0 +1,40 @@
+import { LimelightConfig } from "@/types";
+import { BODY_CAPTURE_DEFAULTS } from "@/constants";
+import { matchesUrlPattern } from "./matchesUrlPattern";
+
+/**
+ * Decides whether a request's bodies are captured, applying disableBodyCapture,
+ * the URL include/exclude lists and sampling. Call it once per request so the
+ * request and response bodies are sampled together.
+ * @param url - The request URL.
+ * @param config - The Limelight config.
+ * @returns True if the request and response bodies should be captured.
+ */
+export const shouldCaptureBody = (
+  url: string,
+  config: LimelightConfig | null | undefined,
+): boolean => {
+  if (config?.disableBodyCapture) return false;
+
+  const capture = config?.bodyCapture;
+  if (!capture) return true;
+
+  if (capture.exclude?.some((pattern) => matchesUrlPattern(url, pattern))) {
+    return false;
+  }
+
+  if (
+    capture.include &&
+    !capture.include.some((pattern) => matchesUrlPattern(url, pattern))
+  ) {
+    return false;
+  }
+
+  const rate =
+    capture.sampleRates?.find((rule) => matchesUrlPattern(url, rule.url))
+      ?.rate ??
+    capture.sampleRate ??
+    BODY_CAPTURE_DEFAULTS.SAMPLE_RATE;
+
+  return rate >= 1 || Math.random() < rate;
+};
@@ -0,0 +1,70 @@
+import { LimelightConfig, NetworkFilterRule } from "@/types";
+import { DEFAULT_IGNORED_REQUESTS } from "@/constants";
+import { matchesRequest } from "./matchesRequest";
+import { matchesUrlPattern } from "./matchesUrlPattern";
+
+/**
+ * Reads a URL's hostname.
+ * @param url - The request URL.
+ * @returns The hostname, or undefined for relative or malformed URLs.
+ */
+const getHost = (url: string): string | undefined => {
+  try {
+    return new URL(url).hostname;
+  } catch {
+    return undefined;
+  }
+};
+
+/**
+ * Checks whether a request is filtered out by the network ignore and include
+ * rules. Runs before any body is read, so the GraphQL operation name is only
+ * resolved when a rule needs it.
+ * @param url - The request URL.
+ * @param method - The request method.
+ * @param config - The Limelight config.
+ * @param getOperationName - Resolves the GraphQL operation name, if any.
+ * @returns True if the request should not be captured.
+ */
+export const shouldIgnoreRequest = (
+  url: string,
+  method: string,
+  config: LimelightConfig | null | undefined,
+  getOperationName?: () => string | undefined,
+): boolean => {
+  const serverUrl = config?.serverUrl
+    ?.replace(/^ws(s?):\/\//, "http$1://")
+    .replace(/\/+$/, "");
+
+  if (serverUrl && url.startsWith(serverUrl)) return true;
+
+  const filter = config?.network;
+  let operationName: string | undefined;
+  let operationNameResolved = false;
+
+  const matches = (rule: NetworkFilterRule): boolean => {
+    if (typeof rule === "string" || rule instanceof RegExp) {
+      return matchesUrlPattern(url, rule);
+    }
+
+    if (rule.host) {
+      const host = getHost(url);
+      if (!host || !matchesUrlPattern(host, rule.host)) return false;
+    }
+
+    if (rule.operationName && !operationNameResolved) {
+      operationName = getOperationName?.();
+      operationNameResolved = true;
+    }
+
+    return matchesRequest({ url, method, operationName }, rule);
+  };
+
+  if (filter?.include && !filter.include.some(matches)) return true;
+
+  return (
+    (filter?.ignoreDefaults !== false &&
+      DEFAULT_IGNORED_REQUESTS.some(matches)) ||
+    !!filter?.ignore?.some(matches)
+  );
+};
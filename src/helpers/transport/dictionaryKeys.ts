@@ -0,0 +1,61 @@
+/**
+ * Replaces every object key in a set of values with its index (base 36) in a
+ * shared key list. Event payloads repeat the same keys ("sessionId",
+ * "timestamp", "phase", ...) so this shrinks batches considerably.
+ * @param values - JSON-compatible values to compress
+ * @returns The shared key list and the compressed values
+ */
+export const compressKeys = (
+  values: unknown[],
+): { keys: string[]; values: unknown[] } => {
+  const keys: string[] = [];
+  const indexes = new Map<string, string>();
+
+  const encode = (value: unknown): unknown => {
+    if (Array.isArray(value)) return value.map(encode);
+
+    if (value === null || typeof value !== "object") return value;
+
+    const encoded: Record<string, unknown> = {};
+
+    Object.entries(value).forEach(([key, child]) => {
+      let index = indexes.get(key);
+
+      if (index === undefined) {
+        index = keys.length.toString(36);
+        indexes.set(key, index);
+        keys.push(key);
+      }
+
+      encoded[index] = encode(child);
+    });
+
+    return encoded;
+  };
+
+  return { keys, values: values.map(encode) };
+};
+
+/**
+ * Reverses compressKeys.
+ * @param keys - The shared key list
+ * @param values - The compressed values
+ * @returns The original values
+ */
+export const expandKeys = (keys: string[], values: unknown[]): unknown[] => {
+  const decode = (value: unknown): unknown => {
+    if (Array.isArray(value)) return value.map(decode);
+
+    if (value === null || typeof value !== "object") return value;
+
+    const decoded: Record<string, unknown> = {};
+
+    Object.entries(value).forEach(([index, child]) => {
+      decoded[keys[parseInt(index, 36)] ?? index] = decode(child);
+    });
+
+    return decoded;
+  };
+
+  return values.map(decode);
+};
@@ -0,0 +1,2 @@
+export * from "./dictionaryKeys";
+export * from "./isProtocolCompatible";
@@ -0,0 +1,19 @@
+/**
+ * Checks whether two protocol versions can talk to each other.
+ * Versions are compatible when their major versions match, or, before 1.0,
+ * when their minor versions match too.
+ * @param local - The SDK's protocol version
+ * @param remote - The desktop's protocol version
+ * @returns True if the versions are compatible
+ */
+export const isProtocolCompatible = (
+  local: string,
+  remote: string,
+): boolean => {
+  const [localMajor = "", localMinor = ""] = local.split(".");
+  const [remoteMajor = "", remoteMinor = ""] = remote.split(".");
+
+  if (localMajor !== remoteMajor) return false;
+
+  return localMajor !== "0" || localMinor === remoteMinor;
+};
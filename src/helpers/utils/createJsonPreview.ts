@@ -0,0 +1,54 @@
+import { JSON_PREVIEW_LIMITS } from "@/constants";
+
+/**
+ * Copies a parsed JSON value for display, cutting long strings, arrays and
+ * objects short and replacing anything nested too deeply with a placeholder.
+ * @param value - The parsed JSON value.
+ * @param depth - How deeply the value is nested.
+ * @returns The shortened copy.
+ */
+export const createJsonPreview = (value: unknown, depth = 0): unknown => {
+  if (typeof value === "string") {
+    return value.length > JSON_PREVIEW_LIMITS.MAX_STRING_LENGTH
+      ? `${value.slice(0, JSON_PREVIEW_LIMITS.MAX_STRING_LENGTH)}…`
+      : value;
+  }
+
+  if (!value || typeof value !== "object") return value;
+
+  if (Array.isArray(value)) {
+    if (depth >= JSON_PREVIEW_LIMITS.MAX_DEPTH) {
+      return `[Array(${value.length})]`;
+    }
+
+    const items = value
+      .slice(0, JSON_PREVIEW_LIMITS.MAX_ARRAY_ITEMS)
+      .map((item) => createJsonPreview(item, depth + 1));
+
+    if (value.length > JSON_PREVIEW_LIMITS.MAX_ARRAY_ITEMS) {
+      items.push(
+        `… ${value.length - JSON_PREVIEW_LIMITS.MAX_ARRAY_ITEMS} more items`,
+      );
+    }
+
+    return items;
+  }
+
+  if (depth >= JSON_PREVIEW_LIMITS.MAX_DEPTH) return "[Object]";
+
+  const entries = Object.entries(value);
+  const preview: Record<string, unknown> = {};
+
+  entries
+    .slice(0, JSON_PREVIEW_LIMITS.MAX_OBJECT_KEYS)
+    .forEach(([key, item]) => {
+      preview[key] = createJsonPreview(item, depth + 1);
+    });
+
+  if (entries.length > JSON_PREVIEW_LIMITS.MAX_OBJECT_KEYS) {
+    preview["…"] =
+      `${entries.length - JSON_PREVIEW_LIMITS.MAX_OBJECT_KEYS} more keys`;
+  }
+
+  return preview;
+};
@@ -0,0 +1,44 @@
+/**
+ * Encodes a string as UTF-8, falling back to a manual encoder where
+ * TextEncoder is not available, as on some React Native runtimes.
+ * @param value - The string to encode
+ * @returns The encoded bytes
+ */
+export const encodeUtf8 = (value: string): Uint8Array => {
+  if (typeof TextEncoder !== "undefined") {
+    return new TextEncoder().encode(value);
+  }
+
+  const bytes: number[] = [];
+
+  for (let i = 0; i < value.length; i++) {
+    let code = value.charCodeAt(i);
+
+    if (code >= 0xd800 && code <= 0xdbff && i + 1 < value.length) {
+      // Surrogate pair: combine into one code point
+      code =
+        0x10000 + ((code - 0xd800) << 10) + (value.charCodeAt(++i) - 0xdc00);
+    }
+
+    if (code < 0x80) {
+      bytes.push(code);
+    } else if (code < 0x800) {
+      bytes.push(0xc0 | (code >> 6), 0x80 | (code & 0x3f));
+    } else if (code < 0x10000) {
+      bytes.push(
+        0xe0 | (code >> 12),
+        0x80 | ((code >> 6) & 0x3f),
+        0x80 | (code & 0x3f),
+      );
+    } else {
+      bytes.push(
+        0xf0 | (code >> 18),
+        0x80 | ((code >> 12) & 0x3f),
+        0x80 | ((code >> 6) & 0x3f),
+        0x80 | (code & 0x3f),
+      );
+    }
+  }
+
+  return new Uint8Array(bytes);
+};
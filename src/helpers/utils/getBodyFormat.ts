@@ -0,0 +1,30 @@
+import { BodyFormat } from "@/types";
+
+/**
+ * Classifies a body by its Content-Type header.
+ * @param contentType - The Content-Type header, if any.
+ * @returns The body format, or undefined if the type says nothing useful.
+ */
+export const getBodyFormat = (contentType?: string): BodyFormat | undefined => {
+  const type = contentType?.split(";")[0]?.trim().toLowerCase();
+
+  if (!type) return undefined;
+  if (type.startsWith("multipart/")) return BodyFormat.MULTIPART;
+  if (type === "application/x-www-form-urlencoded") {
+    return BodyFormat.FORM_URLENCODED;
+  }
+  if (type === "application/json" || type.endsWith("+json")) {
+    return BodyFormat.JSON;
+  }
+  if (type === "text/html" || type === "application/xhtml+xml") {
+    return BodyFormat.HTML;
+  }
+  if (type.endsWith("/xml") || type.endsWith("+xml")) return BodyFormat.XML;
+  if (type.startsWith("image/")) return BodyFormat.IMAGE;
+  if (type.includes("protobuf") || type.startsWith("application/grpc")) {
+    return BodyFormat.PROTOBUF;
+  }
+  if (type.includes("msgpack")) return BodyFormat.MSGPACK;
+
+  return undefined;
+};
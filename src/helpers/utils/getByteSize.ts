@@ -0,0 +1,27 @@
+/**
+ * Computes the UTF-8 encoded size of a string without relying on TextEncoder,
+ * which is not available on every React Native runtime.
+ * @param value - The string to measure
+ * @returns Size in bytes
+ */
+export const getByteSize = (value: string): number => {
+  let bytes = 0;
+
+  for (let i = 0; i < value.length; i++) {
+    const code = value.charCodeAt(i);
+
+    if (code < 0x80) {
+      bytes += 1;
+    } else if (code < 0x800) {
+      bytes += 2;
+    } else if (code >= 0xd800 && code <= 0xdbff) {
+      // Surrogate pair: one 4-byte code point
+      bytes += 4;
+      i++;
+    } else {
+      bytes += 3;
+    }
+  }
+
+  return bytes;
+};
@@ -0,0 +1,109 @@
+/**
+ * Reads a JPEG's size from its start-of-frame segment.
+ * @param view - The image bytes.
+ * @returns The dimensions, or null if no frame header was found.
+ */
+const getJpegDimensions = (
+  view: DataView,
+): { width: number; height: number } | null => {
+  let offset = 2;
+
+  while (offset + 9 < view.byteLength) {
+    if (view.getUint8(offset) !== 0xff) return null;
+
+    const marker = view.getUint8(offset + 1);
+
+    // SOF0-SOF15, except DHT (C4), JPG (C8) and DAC (CC)
+    if (
+      marker >= 0xc0 &&
+      marker <= 0xcf &&
+      marker !== 0xc4 &&
+      marker !== 0xc8 &&
+      marker !== 0xcc
+    ) {
+      return {
+        height: view.getUint16(offset + 5),
+        width: view.getUint16(offset + 7),
+      };
+    }
+
+    offset += 2 + view.getUint16(offset + 2);
+  }
+
+  return null;
+};
+
+/**
+ * Reads a WebP's size from its lossy, lossless or extended header.
+ * @param view - The image bytes.
+ * @returns The dimensions, or null if the header is not recognized.
+ */
+const getWebpDimensions = (
+  view: DataView,
+): { width: number; height: number } | null => {
+  const chunk = String.fromCharCode(
+    view.getUint8(12),
+    view.getUint8(13),
+    view.getUint8(14),
+    view.getUint8(15),
+  );
+
+  if (chunk === "VP8 ") {
+    return {
+      width: view.getUint16(26, true) & 0x3fff,
+      height: view.getUint16(28, true) & 0x3fff,
+    };
+  }
+
+  if (chunk === "VP8L") {
+    const bits = view.getUint32(21, true);
+    return {
+      width: (bits & 0x3fff) + 1,
+      height: ((bits >> 14) & 0x3fff) + 1,
+    };
+  }
+
+  if (chunk === "VP8X") {
+    return {
+      width: (view.getUint32(24, true) & 0xffffff) + 1,
+      height: (view.getUint32(27, true) & 0xffffff) + 1,
+    };
+  }
+
+  return null;
+};
+
+/**
+ * Reads an image's width and height from its header, without decoding it.
+ * Supports PNG, GIF, JPEG and WebP.
+ * @param bytes - The image bytes.
+ * @param contentType - The image's MIME type.
+ * @returns The dimensions, or null if the format is unsupported or the header is cut off.
+ */
+export const getImageDimensions = (
+  bytes: Uint8Array,
+  contentType: string,
+): { width: number; height: number } | null => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+
+  try {
+    switch (contentType) {
+      case "image/png":
+        return { width: view.getUint32(16), height: view.getUint32(20) };
+      case "image/gif":
+        return {
+          width: view.getUint16(6, true),
+          height: view.getUint16(8, true),
+        };
+      case "image/jpeg":
+        return getJpegDimensions(view);
+      case "image/webp":
+        return getWebpDimensions(view);
+      default:
+        return null;
+    }
+  } catch {
+    // Header is shorter than the format requires
+    return null;
+  }
+};
@@ -0,0 +1,19 @@
+import { LimelightConfig } from "@/types";
+import { RECORDING_DEFAULTS } from "@/constants";
+
+/**
+ * Reads how many bytes of messages may be recorded for export.
+ * @param config - The Limelight config.
+ * @returns The byte budget, or null if recording is disabled.
+ */
+export const getRecordingLimit = (
+  config: LimelightConfig | null | undefined,
+): number | null => {
+  const recording = config?.recording;
+
+  if (!recording) return null;
+  if (recording === true) return RECORDING_DEFAULTS.MAX_BYTES;
+  if (recording.enabled === false) return null;
+
+  return recording.maxBytes ?? RECORDING_DEFAULTS.MAX_BYTES;
+};
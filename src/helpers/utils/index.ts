@@ -1,4 +1,14 @@
 export * from "./serializeBody";
+export * from "./serializeBodyAsync";
 export * from "./formatBytes";
 export * from "./isDevelopment";
 export * from "./formatRequestName";
+export * from "./wait";
+export * from "./getByteSize";
+export * from "./inspectBinary";
+export * from "./parseMultipartBody";
+export * from "./getBodyFormat";
+export * from "./createJsonPreview";
+export * from "./getImageDimensions";
+export * from "./encodeUtf8";
+export * from "./getRecordingLimit";
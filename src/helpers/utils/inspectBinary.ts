@@ -0,0 +1,163 @@
+import { BINARY_BODY_DEFAULTS } from "@/constants";
+
+/**
+ * Magic bytes of common binary formats and where in the body they appear.
+ */
+const SIGNATURES: { type: string; offset: number; bytes: number[] }[] = [
+  { type: "image/png", offset: 0, bytes: [0x89, 0x50, 0x4e, 0x47] },
+  { type: "image/jpeg", offset: 0, bytes: [0xff, 0xd8, 0xff] },
+  { type: "image/gif", offset: 0, bytes: [0x47, 0x49, 0x46, 0x38] },
+  { type: "image/webp", offset: 8, bytes: [0x57, 0x45, 0x42, 0x50] },
+  { type: "video/mp4", offset: 4, bytes: [0x66, 0x74, 0x79, 0x70] },
+  { type: "application/pdf", offset: 0, bytes: [0x25, 0x50, 0x44, 0x46] },
+  { type: "application/gzip", offset: 0, bytes: [0x1f, 0x8b] },
+  { type: "application/zip", offset: 0, bytes: [0x50, 0x4b, 0x03, 0x04] },
+];
+
+const BASE64_ALPHABET =
+  "ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/";
+
+/**
+ * Reads a protobuf varint.
+ * @param bytes - The message bytes.
+ * @param pos - Where the varint starts.
+ * @returns The value and the position after it, or null if it runs past the end.
+ */
+const readVarint = (
+  bytes: Uint8Array,
+  pos: number,
+): { value: number; pos: number } | null => {
+  let value = 0;
+
+  for (let shift = 0; shift < 64 && pos < bytes.length; shift += 7) {
+    const byte = bytes[pos++] as number;
+    value += (byte & 0x7f) * 2 ** shift;
+
+    if (!(byte & 0x80)) return { value, pos };
+  }
+
+  return null;
+};
+
+/**
+ * Checks whether bytes parse cleanly as protobuf wire format. Protobuf has
+ * no signature, so every field must have a valid key and fit in the body.
+ * @param bytes - The body bytes.
+ * @returns True if the whole body is a sequence of well-formed fields.
+ */
+const looksLikeProtobuf = (bytes: Uint8Array): boolean => {
+  let pos = 0;
+
+  while (pos < bytes.length) {
+    const key = readVarint(bytes, pos);
+    if (!key || key.value < 8) return false;
+
+    pos = key.pos;
+
+    switch (key.value & 7) {
+      case 0: {
+        const value = readVarint(bytes, pos);
+        if (!value) return false;
+        pos = value.pos;
+        break;
+      }
+      case 1:
+        pos += 8;
+        break;
+      case 2: {
+        const length = readVarint(bytes, pos);
+        if (!length) return false;
+        pos = length.pos + length.value;
+        break;
+      }
+      case 5:
+        pos += 4;
+        break;
+      default:
+        return false;
+    }
+  }
+
+  return pos === bytes.length;
+};
+
+/**
+ * Identifies a binary format from its leading bytes.
+ * @param bytes - The body bytes.
+ * @returns The MIME type, or undefined if the format is not recognized.
+ */
+const sniffContentType = (bytes: Uint8Array): string | undefined => {
+  const signature = SIGNATURES.find(({ offset, bytes: expected }) =>
+    expected.every((byte, i) => bytes[offset + i] === byte),
+  );
+
+  if (signature) return signature.type;
+  if (bytes.length > 0 && looksLikeProtobuf(bytes)) {
+    return "application/x-protobuf";
+  }
+
+  return undefined;
+};
+
+/**
+ * Encodes bytes as base64 without relying on btoa, which older React Native
+ * runtimes lack.
+ * @param bytes - The bytes to encode.
+ * @returns The base64 string.
+ */
+const toBase64 = (bytes: Uint8Array): string => {
+  let output = "";
+
+  for (let i = 0; i < bytes.length; i += 3) {
+    const a = bytes[i] as number;
+    const b = bytes[i + 1];
+    const c = bytes[i + 2];
+    const triplet = (a << 16) | ((b ?? 0) << 8) | (c ?? 0);
+
+    output += BASE64_ALPHABET[(triplet >> 18) & 63];
+    output += BASE64_ALPHABET[(triplet >> 12) & 63];
+    output += b === undefined ? "=" : BASE64_ALPHABET[(triplet >> 6) & 63];
+    output += c === undefined ? "=" : BASE64_ALPHABET[triplet & 63];
+  }
+
+  return output;
+};
+
+/**
+ * Describes a binary body: a hex preview of its first bytes, its format
+ * sniffed from the content (falling back to the declared type), and a base64
+ * copy when it is small enough to capture.
+ * @param bytes - The body bytes.
+ * @param declaredType - The Content-Type or Blob type, if known.
+ * @param maxBase64Bytes - Bodies larger than this are not captured.
+ * @returns The preview, content type and, for small bodies, the base64 content.
+ */
+export const inspectBinary = (
+  bytes: Uint8Array,
+  declaredType?: string,
+  maxBase64Bytes: number = BINARY_BODY_DEFAULTS.MAX_BASE64_BYTES,
+): {
+  preview: string;
+  contentType?: string;
+  raw?: string;
+  encoding?: "base64";
+} => {
+  const contentType = sniffContentType(bytes) ?? (declaredType || undefined);
+
+  const preview = Array.from(
+    bytes.subarray(0, BINARY_BODY_DEFAULTS.PREVIEW_BYTES),
+    (byte) => byte.toString(16).padStart(2, "0"),
+  ).join(" ");
+
+  return {
+    preview:
+      bytes.length > BINARY_BODY_DEFAULTS.PREVIEW_BYTES
+        ? `${preview} ...`
+        : preview,
+    ...(contentType && { contentType }),
+    ...(bytes.length <= maxBase64Bytes && {
+      raw: toBase64(bytes),
+      encoding: "base64" as const,
+    }),
+  };
+};
@@ -0,0 +1,68 @@
+import { SerializedBodyPart } from "@/types";
+import { getByteSize } from "./getByteSize";
+
+/**
+ * Reads a parameter such as name="avatar" from a header value.
+ * @param header - The header value.
+ * @param param - The parameter to read.
+ * @returns The unquoted value, or undefined if the parameter is missing.
+ */
+const getHeaderParam = (header: string, param: string): string | undefined => {
+  const match = header.match(
+    new RegExp(`(?:^|;)\\s*${param}=(?:"((?:\\\\.|[^"])*)"|([^;\\s]+))`, "i"),
+  );
+
+  return match ? (match[1] ?? match[2]) : undefined;
+};
+
+/**
+ * Parses a multipart body into its parts. Text parts keep their value; file
+ * parts are described by name, type and size only.
+ * @param body - The body text.
+ * @param contentType - The Content-Type header, which carries the boundary.
+ * @returns The parts, or null if the body is not multipart or has no boundary.
+ */
+export const parseMultipartBody = (
+  body: string,
+  contentType: string,
+): SerializedBodyPart[] | null => {
+  if (!/^multipart\//i.test(contentType.trim())) return null;
+
+  const boundary = getHeaderParam(contentType, "boundary");
+  if (!boundary) return null;
+
+  const parts: SerializedBodyPart[] = [];
+
+  for (const section of body.split(`--${boundary}`).slice(1)) {
+    if (section.startsWith("--")) break; // Closing delimiter
+
+    const content = section.replace(/^\r?\n/, "").replace(/\r?\n$/, "");
+    const separator = content.match(/\r?\n\r?\n/);
+    if (!separator || separator.index === undefined) continue;
+
+    const headers: Record<string, string> = {};
+    for (const line of content.slice(0, separator.index).split(/\r?\n/)) {
+      const colon = line.indexOf(":");
+      if (colon > 0) {
+        headers[line.slice(0, colon).trim().toLowerCase()] = line
+          .slice(colon + 1)
+          .trim();
+      }
+    }
+
+    const value = content.slice(separator.index + separator[0].length);
+    const disposition = headers["content-disposition"] ?? "";
+    const name = getHeaderParam(disposition, "name");
+    const fileName = getHeaderParam(disposition, "filename");
+    const partType = headers["content-type"];
+
+    parts.push({
+      ...(name !== undefined && { name }),
+      ...(fileName !== undefined ? { fileName } : { value }),
+      ...(partType && { contentType: partType }),
+      size: getByteSize(value),
+    });
+  }
+
+  return parts;
+};
@@ -1,16 +1,227 @@
-import { BodyFormat, SerializedBody } from "@/types";
+import { BodyFormat, SerializedBody, SerializedBodyPart } from "@/types";
+import { BINARY_BODY_DEFAULTS, BODY_CAPTURE_DEFAULTS } from "@/constants";
+import { createJsonPreview } from "./createJsonPreview";
+import { getBodyFormat } from "./getBodyFormat";
+import { getByteSize } from "./getByteSize";
+import { getImageDimensions } from "./getImageDimensions";
+import { inspectBinary } from "./inspectBinary";
+import { parseMultipartBody } from "./parseMultipartBody";
+
+/**
+ * Describes one FormData entry. Browsers hold files as File/Blob values;
+ * React Native holds them as { uri, name, type } references whose size is unknown.
+ * @param name - The field name.
+ * @param value - The field value.
+ * @returns The part description.
+ */
+const describeFormDataEntry = (
+  name: string,
+  value: any,
+): SerializedBodyPart => {
+  if (typeof value === "string") {
+    return { name, value, size: getByteSize(value) };
+  }
+
+  if (typeof Blob !== "undefined" && value instanceof Blob) {
+    return {
+      name,
+      fileName: (value as File).name ?? "blob",
+      ...(value.type && { contentType: value.type }),
+      size: value.size,
+    };
+  }
+
+  if (value && typeof value === "object" && "uri" in value) {
+    return {
+      name,
+      ...(value.name && { fileName: value.name }),
+      ...(value.type && { contentType: value.type }),
+    };
+  }
+
+  return { name, value: String(value), size: getByteSize(String(value)) };
+};
+
+/**
+ * Reads the entries of a FormData, falling back to React Native's internal
+ * _parts when entries() is not implemented.
+ * @param formData - The FormData to read.
+ * @returns The entries as [name, value] pairs.
+ */
+const getFormDataEntries = (formData: any): [string, any][] => {
+  if (typeof formData.entries === "function") {
+    return Array.from(formData.entries());
+  }
+
+  return Array.isArray(formData._parts) ? formData._parts : [];
+};
+
+/**
+ * Summarizes parts as name=value pairs, with files shown as [File name].
+ * @param parts - The parts to summarize.
+ * @returns The preview text.
+ */
+const previewParts = (parts: SerializedBodyPart[]): string =>
+  parts
+    .map(
+      (part) =>
+        `${part.name ?? ""}=${
+          part.value ?? `[File ${part.fileName ?? "unnamed"}]`
+        }`,
+    )
+    .join("&")
+    .slice(0, 200);
+
+/**
+ * Cuts a string to at most the given UTF-8 size, without splitting a character.
+ * @param text - The text to cut.
+ * @param maxBytes - The most bytes to keep.
+ * @returns The longest prefix that fits.
+ */
+const truncateToBytes = (text: string, maxBytes: number): string => {
+  let bytes = 0;
+
+  for (let i = 0; i < text.length; i++) {
+    const code = text.charCodeAt(i);
+    const isSurrogatePair = code >= 0xd800 && code <= 0xdbff;
+    const size = code < 0x80 ? 1 : code < 0x800 ? 2 : isSurrogatePair ? 4 : 3;
+
+    if (bytes + size > maxBytes) return text.slice(0, i);
+
+    bytes += size;
+    if (isSurrogatePair) i++;
+  }
+
+  return text;
+};
+
+/**
+ * Serializes a text body, classified by its Content-Type. JSON gets a
+ * structured preview; form and multipart bodies are split into parts.
+ * Bodies over the limit are truncated and not parsed.
+ * @param text - The body text.
+ * @param contentType - The Content-Type header, if known.
+ * @param maxBytes - The most body text to keep, in UTF-8 bytes.
+ * @returns The serialized body. Falls back to TEXT when the type is unknown
+ * or the body does not match it.
+ */
+const serializeText = (
+  text: string,
+  contentType: string | undefined,
+  maxBytes: number,
+): SerializedBody => {
+  const format = getBodyFormat(contentType);
+  const size = getByteSize(text);
+
+  if (size > maxBytes) {
+    return {
+      format: format ?? BodyFormat.TEXT,
+      size,
+      preview: text.slice(0, 200),
+      raw: truncateToBytes(text, maxBytes),
+      truncated: true,
+    };
+  }
+
+  const body = { size, preview: text.slice(0, 200), raw: text };
+
+  switch (format) {
+    case BodyFormat.MULTIPART: {
+      const parts = parseMultipartBody(text, contentType ?? "");
+      if (!parts) break;
+
+      return { format, ...body, preview: previewParts(parts), parts };
+    }
+
+    case BodyFormat.FORM_URLENCODED:
+      return {
+        format,
+        ...body,
+        parts: Array.from(new URLSearchParams(text), ([name, value]) => ({
+          name,
+          value,
+        })),
+      };
+
+    case BodyFormat.JSON:
+      try {
+        return { format, ...body, json: createJsonPreview(JSON.parse(text)) };
+      } catch {
+        break;
+      }
+
+    case BodyFormat.XML:
+    case BodyFormat.HTML:
+      return { format, ...body };
+  }
+
+  return { format: BodyFormat.TEXT, ...body };
+};
+
+/**
+ * Serializes a binary body. Images report their dimensions and, when small,
+ * a thumbnail; protobuf and msgpack are named; anything else is ARRAY_BUFFER.
+ * @param bytes - The body bytes.
+ * @param contentType - The Content-Type header, if known.
+ * @param maxBytes - Bodies larger than this are described but not captured.
+ * @returns The serialized body, marked truncated when it was not captured.
+ */
+const serializeBinary = (
+  bytes: Uint8Array,
+  contentType: string | undefined,
+  maxBytes: number,
+): SerializedBody => {
+  const binary = inspectBinary(
+    bytes,
+    contentType,
+    Math.min(maxBytes, BINARY_BODY_DEFAULTS.MAX_BASE64_BYTES),
+  );
+  const format = getBodyFormat(binary.contentType);
+  const truncated = binary.raw === undefined;
+
+  if (format === BodyFormat.IMAGE && binary.contentType) {
+    const dimensions = getImageDimensions(bytes, binary.contentType);
+    const thumbnail =
+      binary.raw && bytes.byteLength <= BINARY_BODY_DEFAULTS.MAX_THUMBNAIL_BYTES
+        ? `data:${binary.contentType};base64,${binary.raw}`
+        : undefined;
+
+    return {
+      format,
+      size: bytes.byteLength,
+      ...binary,
+      image: { ...dimensions, ...(thumbnail && { thumbnail }) },
+      ...(truncated && { truncated }),
+    };
+  }
+
+  return {
+    format:
+      format === BodyFormat.PROTOBUF || format === BodyFormat.MSGPACK
+        ? format
+        : BodyFormat.ARRAY_BUFFER,
+    size: bytes.byteLength,
+    ...binary,
+    ...(truncated && { truncated }),
+  };
+};
 
 /**
  * Serializes various body types into a normalized format.
- * Handles JSON, text, FormData, Blob, ArrayBuffer, and others.
+ * Handles JSON, text, XML, HTML, forms, multipart, images, Blob, ArrayBuffer, and others.
  * Returns size estimates and previews for easy display.
  *
  * @param input The body input to serialize
+ * @param disableBodyCapture Whether body capture is disabled
+ * @param contentType The Content-Type header, used to classify the body
+ * @param maxBytes The most body content to capture; longer bodies are truncated
  * @returns SerializedBody object or undefined
  */
 export const serializeBody = (
   input: any,
-  disableBodyCapture?: boolean
+  disableBodyCapture?: boolean,
+  contentType?: string,
+  maxBytes: number = BODY_CAPTURE_DEFAULTS.MAX_BYTES,
 ): SerializedBody | undefined => {
   if (disableBodyCapture) {
     return { format: BodyFormat.NONE, size: 0, preview: "" };
@@ -25,52 +236,61 @@ export const serializeBody = (
   }
 
   try {
-    // JSON
-    if (typeof input === "object") {
-      const json = JSON.stringify(input);
-      return {
-        format: BodyFormat.JSON,
-        size: json.length,
-        preview: json.slice(0, 200),
-        raw: json,
-      };
-    }
-
     // Text
     if (typeof input === "string") {
-      return {
-        format: BodyFormat.TEXT,
-        size: input.length,
-        preview: input.slice(0, 200),
-        raw: input,
-      };
+      return serializeText(input, contentType, maxBytes);
     }
 
     // FormData
     if (typeof FormData !== "undefined" && input instanceof FormData) {
+      const parts = getFormDataEntries(input).map(([name, value]) =>
+        describeFormDataEntry(name, value),
+      );
+
       return {
         format: BodyFormat.FORM_DATA,
-        size: 0,
-        preview: "[FormData]",
+        size: parts.reduce((sum, part) => sum + (part.size ?? 0), 0),
+        preview: previewParts(parts),
+        parts,
       };
     }
 
-    // Blob
+    // URLSearchParams
+    if (
+      typeof URLSearchParams !== "undefined" &&
+      input instanceof URLSearchParams
+    ) {
+      return serializeText(
+        input.toString(),
+        "application/x-www-form-urlencoded",
+        maxBytes,
+      );
+    }
+
+    // Blob (contents can only be read asynchronously; see serializeBodyAsync)
     if (typeof Blob !== "undefined" && input instanceof Blob) {
       return {
         format: BodyFormat.BLOB,
         size: input.size,
-        preview: "[Blob]",
+        preview: `[Blob${input.type ? ` ${input.type}` : ""}]`,
+        ...(input.type && { contentType: input.type }),
+        ...(input.size > maxBytes && { truncated: true }),
       };
     }
 
-    // ArrayBuffer
-    if (input instanceof ArrayBuffer) {
-      return {
-        format: BodyFormat.ARRAY_BUFFER,
-        size: input.byteLength,
-        preview: "[ArrayBuffer]",
-      };
+    // ArrayBuffer and typed arrays
+    if (input instanceof ArrayBuffer || ArrayBuffer.isView(input)) {
+      const bytes =
+        input instanceof ArrayBuffer
+          ? new Uint8Array(input)
+          : new Uint8Array(input.buffer, input.byteOffset, input.byteLength);
+
+      return serializeBinary(bytes, contentType, maxBytes);
+    }
+
+    // JSON
+    if (typeof input === "object") {
+      return serializeText(JSON.stringify(input), "application/json", maxBytes);
     }
 
     // Fallback
@@ -0,0 +1,69 @@
+import { SerializedBody } from "@/types";
+import { BODY_CAPTURE_DEFAULTS } from "@/constants";
+import { serializeBody } from "./serializeBody";
+
+/**
+ * Reads a Blob's contents, falling back to FileReader on runtimes whose Blob
+ * lacks arrayBuffer().
+ * @param blob - The Blob to read
+ * @returns The contents, or null if the Blob cannot be read
+ */
+const readBlob = (blob: Blob): Promise<ArrayBuffer | null> => {
+  if (typeof blob.arrayBuffer === "function") {
+    return blob.arrayBuffer().catch(() => null);
+  }
+
+  if (typeof FileReader === "undefined") {
+    return Promise.resolve(null);
+  }
+
+  return new Promise((resolve) => {
+    const reader = new FileReader();
+
+    reader.onload = () =>
+      resolve(reader.result instanceof ArrayBuffer ? reader.result : null);
+    reader.onerror = () => resolve(null);
+
+    try {
+      reader.readAsArrayBuffer(blob);
+    } catch {
+      resolve(null);
+    }
+  });
+};
+
+/**
+ * Serializes a body like serializeBody, but reads Blobs so their contents are
+ * captured rather than only described. For callers that can wait, such as
+ * fetch. Blobs over the limit, or that cannot be read, are described as before.
+ *
+ * @param input The body input to serialize
+ * @param disableBodyCapture Whether body capture is disabled
+ * @param contentType The Content-Type header; defaults to the Blob's type
+ * @param maxBytes The most body content to capture; longer bodies are truncated
+ * @returns SerializedBody object or undefined
+ */
+export const serializeBodyAsync = async (
+  input: any,
+  disableBodyCapture?: boolean,
+  contentType?: string,
+  maxBytes: number = BODY_CAPTURE_DEFAULTS.MAX_BYTES,
+): Promise<SerializedBody | undefined> => {
+  if (
+    disableBodyCapture ||
+    typeof Blob === "undefined" ||
+    !(input instanceof Blob) ||
+    input.size > maxBytes
+  ) {
+    return serializeBody(input, disableBodyCapture, contentType, maxBytes);
+  }
+
+  const bytes = await readBlob(input);
+
+  return serializeBody(
+    bytes ?? input,
+    false,
+    contentType || input.type || undefined,
+    maxBytes,
+  );
+};
@@ -0,0 +1,10 @@
+/**
+ * Resolves after the given number of milliseconds.
+ * Resolves immediately for zero or negative durations.
+ * @param ms - Milliseconds to wait.
+ */
+export const wait = (ms: number = 0): Promise<void> => {
+  if (ms <= 0) return Promise.resolve();
+
+  return new Promise((resolve) => setTimeout(resolve, ms));
+};
@@ -1,3 +1,9 @@
-export { Limelight } from "./limelight";
+export {
+  Limelight,
+  FileTransport,
+  HttpTransport,
+  MemoryTransport,
+  SessionLoader,
+} from "./limelight";
 export type { LimelightConfig } from "./types";
 export * from "./types";
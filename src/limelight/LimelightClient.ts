@@ -1,20 +1,36 @@
 import {
+  ConnectionEvent,
+  ConnectionState,
+  DisconnectReason,
+  Har,
+  NegotiatedFeature,
   LimelightConfig,
+  LimelightEventListener,
+  LimelightEventPhase,
   LimelightMessage,
+  NetworkProfile,
   RequestBridgeConfig,
+  SequencedMessage,
   ResponseBridgeConfig,
+  SessionArchive,
+  Transport,
 } from "@/types";
 import {
   ConsoleInterceptor,
+  EventSourceInterceptor,
   NetworkInterceptor,
   RenderInterceptor,
+  WebSocketInterceptor,
   XHRInterceptor,
 } from "@/limelight/interceptors";
-import { isDevelopment, safeStringify } from "@/helpers";
+import { getReconnectDelay, isDevelopment, safeStringify } from "@/helpers";
 import {
   LIMELIGHT_DESKTOP_WSS_URL,
   LIMELIGHT_WEB_WSS_URL,
+  PROTOCOL_VERSION,
+  RECONNECT_DEFAULTS,
   SDK_VERSION,
+  TRANSPORT_STATE,
   WS_PATH,
 } from "@/constants";
 import { createSessionId } from "@/protocol";
@@ -22,36 +38,115 @@ import { StateInterceptor } from "./interceptors/StateInterceptor";
 import { RequestBridge } from "./bridges/RequestBridge";
 import { CommandHandler } from "./handlers/CommandHandler";
 import { Command } from "@/types/commands";
+import { BreakpointManager, MockEngine, NetworkConditioner } from "./network";
+import {
+  HttpTransport,
+  MessageBatcher,
+  MessageBuffer,
+  ProtocolNegotiator,
+} from "./transport";
+import { AppStateObserver, ConnectivityObserver } from "./lifecycle";
+import { MessageEmitter } from "./events";
+import { HarExporter, SessionRecorder } from "./exporters";
 
 class LimelightClient {
-  private ws: WebSocket | null = null;
+  private transport: Transport | null = null;
   private config: LimelightConfig | null = null;
   private sessionId: string = "";
 
   private reconnectAttempts = 0;
-  private maxReconnectAttempts = 5;
-  private reconnectDelay = 1000;
   private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
-
-  private messageQueue: LimelightMessage[] = [];
-  private maxQueueSize = 100;
+  private connectionState: ConnectionState = "idle";
+  private connectionStateListeners = new Set<
+    (state: ConnectionState) => void
+  >();
+  private droppedSession: { sessionId: string; droppedAt: number } | null =
+    null;
+
+  private messageBuffer = new MessageBuffer();
+  private messageBatcher: MessageBatcher;
+  private protocolNegotiator: ProtocolNegotiator;
+  private appStateObserver: AppStateObserver;
+  private connectivityObserver: ConnectivityObserver;
+  private messageEmitter: MessageEmitter;
+  private harExporter = new HarExporter();
+  private sessionRecorder = new SessionRecorder();
+  private nextSeq = 0;
 
   private networkInterceptor: NetworkInterceptor;
+  private webSocketInterceptor: WebSocketInterceptor;
+  private eventSourceInterceptor: EventSourceInterceptor;
   private xhrInterceptor: XHRInterceptor;
   private consoleInterceptor: ConsoleInterceptor;
   private renderInterceptor: RenderInterceptor;
   private stateInterceptor: StateInterceptor;
   private requestBridge: RequestBridge;
   private commandHandler: CommandHandler | null = null;
+  private mockEngine: MockEngine;
+  private networkConditioner: NetworkConditioner;
+  private breakpoints: BreakpointManager;
 
   constructor() {
+    this.mockEngine = new MockEngine();
+    this.networkConditioner = new NetworkConditioner();
+    this.messageBatcher = new MessageBatcher(
+      this.sendFrame.bind(this),
+      () => this.transport?.bufferedAmount ?? 0,
+      () => this.sessionId,
+    );
+    this.appStateObserver = new AppStateObserver(
+      this.sendMessage.bind(this),
+      () => this.sessionId,
+    );
+    this.connectivityObserver = new ConnectivityObserver();
+    this.messageEmitter = new MessageEmitter(() => this.config);
+    this.messageEmitter.on("*", (message) => {
+      this.harExporter.record(message);
+      this.sessionRecorder.record(message);
+    });
+    this.appStateObserver.onChange((state) => {
+      if (
+        state === "foreground" &&
+        this.config?.reconnect?.reconnectOnForeground !== false
+      ) {
+        this.reconnectNow();
+      }
+    });
+    this.connectivityObserver.onRegained(() => {
+      if (this.config?.reconnect?.reconnectOnNetworkRegained !== false) {
+        this.reconnectNow();
+      }
+    });
+    this.protocolNegotiator = new ProtocolNegotiator(
+      this.disableFeature.bind(this),
+    );
+    this.breakpoints = new BreakpointManager(
+      this.sendMessage.bind(this),
+      () => this.sessionId,
+      () => this.transport?.readyState === TRANSPORT_STATE.OPEN,
+      () => this.config,
+    );
     this.networkInterceptor = new NetworkInterceptor(
       this.sendMessage.bind(this),
       () => this.sessionId,
+      this.mockEngine,
+      this.networkConditioner,
+      this.breakpoints,
     );
     this.xhrInterceptor = new XHRInterceptor(
       this.sendMessage.bind(this),
       () => this.sessionId,
+      this.mockEngine,
+      this.networkConditioner,
+      this.breakpoints,
+    );
+    this.webSocketInterceptor = new WebSocketInterceptor(
+      this.sendMessage.bind(this),
+      () => this.sessionId,
+    );
+    this.eventSourceInterceptor = new EventSourceInterceptor(
+      this.sendMessage.bind(this),
+      () => this.sessionId,
     );
     this.consoleInterceptor = new ConsoleInterceptor(
       this.sendMessage.bind(this),
@@ -68,10 +163,23 @@ class LimelightClient {
     this.requestBridge = new RequestBridge(
       this.sendMessage.bind(this),
       () => this.sessionId,
+      this.networkConditioner,
     );
     this.commandHandler = new CommandHandler(
-      { render: this.renderInterceptor },
-      this.sendMessage.bind(this),
+      {
+        render: this.renderInterceptor,
+        network: this.networkInterceptor,
+        xhr: this.xhrInterceptor,
+        mocks: this.mockEngine,
+        conditioner: this.networkConditioner,
+        breakpoints: this.breakpoints,
+        batcher: this.messageBatcher,
+        protocol: this.protocolNegotiator,
+        har: this.harExporter,
+      },
+      // Replies go straight to the desktop, so an exported HAR is not
+      // buffered or recorded back into the session
+      (message) => this.sendImmediately(message, false),
       () => this.config,
     );
   }
@@ -99,6 +207,8 @@ class LimelightClient {
       serverUrl: configServerUrl,
       enabled: isEnabled,
       enableNetworkInspector: config?.enableNetworkInspector ?? true,
+      enableWebSocketInspector: config?.enableWebSocketInspector ?? true,
+      enableEventSourceInspector: config?.enableEventSourceInspector ?? true,
       enableConsole: config?.enableConsole ?? true,
       enableGraphQL: config?.enableGraphQL ?? true,
       enableRenderInspector: config?.enableRenderInspector ?? true,
@@ -111,7 +221,21 @@ class LimelightClient {
     }
 
     this.sessionId = createSessionId();
+    this.messageBuffer
+      .configure(this.config)
+      .then(() => this.flushMessageQueue());
+    this.messageBatcher.configure(this.config);
+    this.protocolNegotiator.configure(this.config);
     this.requestBridge.setConfig(this.config);
+    this.requestBridge.setEnabled(true);
+    this.harExporter.setConfig(this.config);
+    this.sessionRecorder.setConfig(this.config);
+    this.mockEngine.setConfigRules(this.config.mockRules);
+    this.networkConditioner.setConfigProfile(this.config.networkProfile);
+    this.breakpoints.setConfigRules(this.config.breakpoints);
+    this.breakpoints.setEnabled(true);
+    this.appStateObserver.setup(this.config);
+    this.connectivityObserver.setup(this.config);
 
     try {
       if (this.config.enableNetworkInspector) {
@@ -119,6 +243,14 @@ class LimelightClient {
         this.xhrInterceptor.setup(this.config);
       }
 
+      if (this.config.enableWebSocketInspector) {
+        this.webSocketInterceptor.setup(this.config);
+      }
+
+      if (this.config.enableEventSourceInspector) {
+        this.eventSourceInterceptor.setup(this.config);
+      }
+
       if (this.config.enableConsole) {
         this.consoleInterceptor.setup(this.config);
       }
@@ -138,7 +270,48 @@ class LimelightClient {
   }
 
   /**
-   * Establishes a WebSocket connection to the Limelight server.
+   * Turns off part of the SDK because the connected desktop cannot handle it.
+   * Everything is turned back on by the next call to connect().
+   * @private
+   * @param {NegotiatedFeature} feature - The interceptor group or feature to stop
+   * @returns {void}
+   */
+  private disableFeature(feature: NegotiatedFeature) {
+    switch (feature) {
+      case "network":
+        this.networkInterceptor.cleanup();
+        this.xhrInterceptor.cleanup();
+        break;
+      case "websocket":
+        this.webSocketInterceptor.cleanup();
+        break;
+      case "eventsource":
+        this.eventSourceInterceptor.cleanup();
+        break;
+      case "console":
+        this.consoleInterceptor.cleanup();
+        break;
+      case "render":
+        this.renderInterceptor.cleanup();
+        break;
+      case "state":
+        this.stateInterceptor.cleanup();
+        break;
+      case "batching":
+        this.stopBatching();
+        this.flushMessageQueue();
+        break;
+      case "breakpoints":
+        this.breakpoints.setEnabled(false);
+        break;
+      case "bridge":
+        this.requestBridge.setEnabled(false);
+        break;
+    }
+  }
+
+  /**
+   * Connects to the Limelight server over the configured transport (a WebSocket by default).
    * If a config object is provided, it will configure the client before connecting.
    *
    * If no config is provided and the client hasn't been configured, it will use default settings.
@@ -150,12 +323,21 @@ class LimelightClient {
    */
   connect(config?: LimelightConfig) {
     this.configure(config);
+    this.openTransport();
+  }
 
+  /**
+   * Opens a transport to the configured server. Reconnects call this directly
+   * so the session, buffer and observers set up by configure() carry over.
+   * @private
+   * @returns {void}
+   */
+  private openTransport() {
     if (!this.config?.enabled) {
       return;
     }
 
-    if (this.ws && this.ws.readyState === WebSocket.OPEN) {
+    if (this.transport && this.transport.readyState === TRANSPORT_STATE.OPEN) {
       if (this.config?.enableInternalLogging) {
         console.warn("[Limelight] Already connected. Call disconnect() first.");
       }
@@ -163,21 +345,21 @@ class LimelightClient {
       return;
     }
 
-    if (this.ws) {
-      const oldWs = this.ws;
+    if (this.transport) {
+      const oldTransport = this.transport;
 
-      oldWs.onclose = null;
-      oldWs.onerror = null;
-      oldWs.onopen = null;
+      oldTransport.onclose = null;
+      oldTransport.onerror = null;
+      oldTransport.onopen = null;
 
       // 1 is OPEN
-      if (oldWs.readyState === 1) {
-        oldWs.close();
+      if (oldTransport.readyState === 1) {
+        oldTransport.close();
       }
-      this.ws = null;
+      this.transport = null;
     }
 
-    const { serverUrl, appName, platform } = this.config;
+    const { serverUrl } = this.config;
 
     if (!serverUrl) {
       if (this.config?.enableInternalLogging) {
@@ -186,30 +368,55 @@ class LimelightClient {
       return;
     }
 
+    if (this.connectionState !== "reconnecting") {
+      this.setConnectionState("connecting");
+    }
+
     try {
-      this.ws = new WebSocket(serverUrl);
+      this.transport = this.createTransport(serverUrl);
+
+      const transport = this.messageBatcher.getOffer();
+      let opened = false;
 
       const message: LimelightMessage = {
         phase: "CONNECT",
         sessionId: this.sessionId,
         timestamp: Date.now(),
         data: {
-          appName: appName,
-          platform:
-            platform ||
-            (typeof window !== "undefined" ? "web" : "react-native"),
-          projectKey: this.config.projectKey || "",
-          sdkVersion: SDK_VERSION,
+          ...this.getConnectionData(),
+          protocolVersion: PROTOCOL_VERSION,
+          capabilities: this.protocolNegotiator.getCapabilities(),
+          ...(transport && { transport }),
         },
       };
 
-      this.ws.onopen = () => {
+      this.transport.onopen = () => {
+        opened = true;
         this.reconnectAttempts = 0;
+        this.setConnectionState("connected");
+        // Batching only resumes once this desktop accepts it again
+        this.stopBatching();
+
+        // The handshake must precede anything buffered while disconnected
+        this.sendImmediately(message);
+
+        if (this.droppedSession) {
+          this.sendImmediately({
+            phase: "RECONNECT",
+            sessionId: this.sessionId,
+            timestamp: Date.now(),
+            data: {
+              previousSessionId: this.droppedSession.sessionId,
+              gapMs: Date.now() - this.droppedSession.droppedAt,
+            },
+          });
+          this.droppedSession = null;
+        }
+
         this.flushMessageQueue();
-        this.sendMessage(message);
       };
 
-      this.ws.onmessage = (event) => {
+      this.transport.onmessage = (event) => {
         try {
           const command = JSON.parse(event.data) as Command;
           this.commandHandler?.handle(command);
@@ -220,13 +427,24 @@ class LimelightClient {
         }
       };
 
-      this.ws.onerror = (error) => {
+      this.transport.onerror = (error) => {
         if (this.config?.enableInternalLogging) {
-          console.error("[Limelight] WebSocket error:", error);
+          console.error("[Limelight] Transport error:", error);
         }
       };
 
-      this.ws.onclose = () => {
+      this.transport.onclose = () => {
+        // Remember the first drop so the next connection can link back to it
+        if (opened && !this.droppedSession) {
+          this.droppedSession = {
+            sessionId: this.sessionId,
+            droppedAt: Date.now(),
+          };
+        }
+
+        // Nobody is left to resume paused calls
+        this.breakpoints.resumeAll();
+        this.stopBatching();
         this.attemptReconnect();
       };
     } catch (error) {
@@ -237,15 +455,43 @@ class LimelightClient {
     }
   }
 
+  /**
+   * Creates the transport for one connection attempt from config.transport.
+   * @private
+   * @param {string} serverUrl - The server to connect to
+   * @returns {Transport} The new transport
+   */
+  private createTransport(serverUrl: string): Transport {
+    const option = this.config?.transport ?? "websocket";
+
+    if (typeof option === "function") {
+      return option(serverUrl);
+    }
+
+    if (option === "http") {
+      return new HttpTransport(serverUrl);
+    }
+
+    if (typeof option === "object") {
+      return new HttpTransport(serverUrl, option);
+    }
+
+    return new WebSocket(serverUrl);
+  }
+
   /**
    * Attempts to reconnect to the Limelight server using exponential backoff.
-   * Will retry up to maxReconnectAttempts times with increasing delays.
-   * Maximum delay is capped at 30 seconds.
+   * Retries up to reconnect.maxAttempts times with increasing delays,
+   * capped at reconnect.maxDelay.
    * @private
    * @returns {void}
    */
   private attemptReconnect() {
-    if (this.reconnectAttempts >= this.maxReconnectAttempts) {
+    const options = this.config?.reconnect;
+    const maxAttempts = options?.maxAttempts ?? RECONNECT_DEFAULTS.MAX_ATTEMPTS;
+
+    if (this.reconnectAttempts >= maxAttempts) {
+      this.setConnectionState("disconnected");
       return;
     }
 
@@ -255,118 +501,265 @@ class LimelightClient {
     }
 
     this.reconnectAttempts++;
+    this.setConnectionState("reconnecting");
 
-    const delay = Math.min(
-      this.reconnectDelay * Math.pow(2, this.reconnectAttempts - 1),
-      30000,
-    );
+    const delay = getReconnectDelay(this.reconnectAttempts, options);
 
     this.reconnectTimer = setTimeout(() => {
       this.reconnectTimer = null;
-      this.connect(this.config || undefined);
+      this.openTransport();
     }, delay);
   }
 
   /**
-   * Sends all queued messages to the server.
-   * Only executes if the WebSocket connection is open.
+   * Retries right away, skipping any backoff, after the connection dropped or
+   * retries ran out. Used when the app returns to the foreground or the
+   * device comes back online.
+   * @private
+   * @returns {void}
+   */
+  private reconnectNow() {
+    if (
+      this.connectionState !== "reconnecting" &&
+      this.connectionState !== "disconnected"
+    ) {
+      return;
+    }
+
+    if (this.transport?.readyState === TRANSPORT_STATE.CONNECTING) return;
+
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+
+    this.reconnectAttempts = 0;
+    this.setConnectionState("reconnecting");
+    this.openTransport();
+  }
+
+  /**
+   * Records a new connection state and notifies listeners.
+   * @private
+   * @param {ConnectionState} state - The new state
+   * @returns {void}
+   */
+  private setConnectionState(state: ConnectionState) {
+    if (state === this.connectionState) return;
+
+    this.connectionState = state;
+
+    this.connectionStateListeners.forEach((listener) => {
+      try {
+        listener(state);
+      } catch (error) {
+        if (this.config?.enableInternalLogging) {
+          console.error("[Limelight] Connection state listener threw:", error);
+        }
+      }
+    });
+  }
+
+  /**
+   * Sends all buffered messages to the server in order.
+   * Only executes if the transport is open.
    * @private
    * @returns {void}
    */
   private flushMessageQueue() {
-    if (this.ws?.readyState !== WebSocket.OPEN) return;
+    this.messageBuffer.drain((data) => {
+      if (this.transport?.readyState !== TRANSPORT_STATE.OPEN) return false;
+
+      if (this.messageBatcher.isActive()) {
+        this.messageBatcher.add(data);
+        return true;
+      }
 
-    while (this.messageQueue.length > 0) {
-      const message = this.messageQueue.shift();
       try {
-        this.ws.send(safeStringify(message));
+        this.transport.send(data);
       } catch (error) {
         if (this.config?.enableInternalLogging) {
           console.error("[Limelight] Failed to send queued message:", error);
         }
       }
+
+      return true;
+    });
+  }
+
+  /**
+   * Describes this app for CONNECT and DISCONNECT messages.
+   * @private
+   * @returns {ConnectionEvent["data"]} The connection details
+   */
+  private getConnectionData(): ConnectionEvent["data"] {
+    return {
+      appName: this.config?.appName,
+      platform:
+        this.config?.platform ||
+        (typeof window !== "undefined" ? "web" : "react-native"),
+      projectKey: this.config?.projectKey || "",
+      sdkVersion: SDK_VERSION,
+    };
+  }
+
+  /**
+   * Sends a message straight away, ahead of anything buffered or batched.
+   * Used for session lifecycle messages whose position in the stream matters,
+   * and for command replies, which can carry large payloads such as a HAR.
+   * @private
+   * @param {LimelightMessage} message - The message to send
+   * @param {boolean} [emit=true] - Whether to pass the message to listeners and recorders
+   * @returns {boolean} True if the message was sent
+   */
+  private sendImmediately(message: LimelightMessage, emit = true): boolean {
+    if (this.transport?.readyState !== TRANSPORT_STATE.OPEN) return false;
+
+    try {
+      this.transport.send(this.serialize(message));
+      if (emit) this.messageEmitter.emit(message);
+      return true;
+    } catch (error) {
+      if (this.config?.enableInternalLogging) {
+        console.error(`[Limelight] Failed to send ${message.phase}:`, error);
+      }
+      return false;
     }
   }
 
   /**
-   * Sends a message to the Limelight server or queues it if not connected.
-   * Messages are automatically queued when the connection is not open.
-   * If the queue is full, the oldest message will be dropped.
+   * Sends a BATCH frame if the transport is open.
+   * @private
+   * @param {string} frame - The serialized frame
+   * @returns {boolean} False if the frame could not be sent
+   */
+  private sendFrame(frame: string): boolean {
+    if (this.transport?.readyState !== TRANSPORT_STATE.OPEN) return false;
+
+    try {
+      this.transport.send(frame);
+    } catch (error) {
+      if (this.config?.enableInternalLogging) {
+        console.error("[Limelight] Failed to send batch:", error);
+      }
+    }
+
+    return true;
+  }
+
+  /**
+   * Stops batching until the next handshake, moving any messages still
+   * waiting for a frame back into the buffer.
+   * @private
+   * @returns {void}
+   */
+  private stopBatching() {
+    this.messageBuffer.requeue(this.messageBatcher.reset());
+  }
+
+  /**
+   * Stamps a message with the next sequence number and serializes it.
+   * @private
+   * @param {LimelightMessage} message - The message to serialize
+   * @returns {string} The serialized message
+   */
+  private serialize(message: LimelightMessage): string {
+    const sequenced: SequencedMessage = { ...message, seq: this.nextSeq++ };
+
+    return safeStringify(sequenced);
+  }
+
+  /**
+   * Sends a message to the Limelight server or buffers it if not connected.
+   * Messages are sent in order, after anything already buffered.
+   * If the buffer is full, the oldest messages will be dropped.
    * @private
    * @param {LimelightMessage} message - The message to send
    * @returns {void}
    */
   private sendMessage(message: LimelightMessage) {
-    if (this.ws?.readyState === WebSocket.OPEN) {
-      this.flushMessageQueue();
+    this.messageEmitter.emit(message);
 
-      if (this.ws?.readyState === WebSocket.OPEN) {
-        try {
-          this.ws.send(safeStringify(message));
-        } catch (error) {
-          if (this.config?.enableInternalLogging) {
-            console.error("[Limelight] Failed to send message:", error);
-          }
+    const data = this.serialize(message);
 
-          this.messageQueue.push(message);
-        }
-      } else {
-        this.messageQueue.push(message);
+    if (
+      this.transport?.readyState === TRANSPORT_STATE.OPEN &&
+      this.messageBuffer.isEmpty()
+    ) {
+      if (this.messageBatcher.isActive()) {
+        this.messageBatcher.add(data);
+        return;
       }
-    } else {
-      if (this.messageQueue.length >= this.maxQueueSize) {
+
+      try {
+        this.transport.send(data);
+        return;
+      } catch (error) {
         if (this.config?.enableInternalLogging) {
-          console.warn(
-            "[Limelight] Message queue full, dropping oldest message",
-          );
+          console.error("[Limelight] Failed to send message:", error);
         }
-
-        this.messageQueue.shift();
       }
-
-      this.messageQueue.push(message);
     }
+
+    this.messageBuffer.enqueue(data);
+    this.flushMessageQueue();
   }
 
   /**
    * Disconnects from the Limelight server and cleans up resources.
-   * Closes the WebSocket connection, removes all interceptors, and resets connection state.
-   * Preserves configuration and session ID for potential reconnection.
+   * Closes the transport, removes all interceptors, and resets connection state.
+   * Preserves configuration, session ID and buffered messages for potential reconnection.
+   * Sends a DISCONNECT message first if connected.
+   * @param {DisconnectReason} [reason="disconnect"] - Why the session is ending
    * @returns {void}
    */
-  disconnect() {
-    if (this.ws) {
+  disconnect(reason: DisconnectReason = "disconnect") {
+    if (this.transport) {
+      // 0. Say goodbye so the desktop can tell this apart from a dropped connection
+      this.messageBatcher.flush();
+      const saidGoodbye = this.sendImmediately({
+        phase: "DISCONNECT",
+        sessionId: this.sessionId,
+        timestamp: Date.now(),
+        data: { ...this.getConnectionData(), reason },
+      });
+
       // 1. Detach all listeners first so no logic runs after this
-      this.ws.onopen = null;
-      this.ws.onerror = null;
-      this.ws.onclose = null;
+      this.transport.onopen = null;
+      this.transport.onerror = null;
+      this.transport.onclose = null;
 
       try {
         // 2. Only attempt to close if it's not already closed/closing
-        if (this.ws.readyState === 0 || this.ws.readyState === 1) {
-          // We use terminate if available (Node ws), otherwise close (Browser)
+        if (
+          this.transport.readyState === 0 ||
+          this.transport.readyState === 1
+        ) {
+          // We use terminate if available (Node ws), otherwise close (Browser).
+          // After a DISCONNECT we close gracefully so the message is flushed.
           if (
-            "terminate" in this.ws &&
-            typeof (this.ws as any).terminate === "function"
+            !saidGoodbye &&
+            "terminate" in this.transport &&
+            typeof (this.transport as any).terminate === "function"
           ) {
             // For Node ws: check if socket exists before terminating
             // This prevents "closed before established" errors
-            if ((this.ws as any)._socket) {
-              (this.ws as any).terminate();
+            if ((this.transport as any)._socket) {
+              (this.transport as any).terminate();
             } else {
               // If socket doesn't exist yet, just set readyState to CLOSED
               // to prevent the connection from completing
-              (this.ws as any).readyState = 3; // CLOSED
+              (this.transport as any).readyState = 3; // CLOSED
             }
           } else {
-            this.ws.close();
+            this.transport.close();
           }
         }
       } catch (e) {
         // Silently ignore WebSocket closure errors during cleanup
       }
 
-      this.ws = null;
+      this.transport = null;
     }
 
     if (this.reconnectTimer) {
@@ -374,15 +767,22 @@ class LimelightClient {
       this.reconnectTimer = null;
     }
 
+    this.breakpoints.resumeAll();
+    this.stopBatching();
+    this.appStateObserver.cleanup();
+    this.connectivityObserver.cleanup();
     this.networkInterceptor.cleanup();
     this.xhrInterceptor.cleanup();
+    this.webSocketInterceptor.cleanup();
+    this.eventSourceInterceptor.cleanup();
     this.consoleInterceptor.cleanup();
     this.renderInterceptor.cleanup();
     this.stateInterceptor.cleanup();
     this.requestBridge.cleanup();
 
     this.reconnectAttempts = 0;
-    this.messageQueue = [];
+    this.droppedSession = null;
+    this.setConnectionState("disconnected");
   }
 
   /**
@@ -392,9 +792,134 @@ class LimelightClient {
    * @returns {void}
    */
   reset() {
-    this.disconnect();
+    this.disconnect("reset");
+    this.messageBuffer.clear();
+    this.harExporter.clear();
+    this.sessionRecorder.clear();
     this.config = null;
     this.sessionId = "";
+    this.setConnectionState("idle");
+  }
+
+  /**
+   * Subscribes to the messages Limelight sends to the desktop, after
+   * beforeSend has been applied. Useful for in-app overlays, test assertions
+   * and forwarding events elsewhere.
+   *
+   * @example
+   * ```ts
+   * const unsubscribe = Limelight.on("REQUEST", (request) => {
+   *   console.log(request.method, request.url);
+   * });
+   * ```
+   *
+   * @param phase - The message phase to listen for, or "*" for every message
+   * @param listener - Called with each matching message
+   * @returns A function that removes the listener
+   */
+  on<P extends LimelightEventPhase | "*">(
+    phase: P,
+    listener: LimelightEventListener<P>,
+  ): () => void {
+    this.messageEmitter.on(phase, listener);
+
+    return () => this.messageEmitter.off(phase, listener);
+  }
+
+  /**
+   * Removes a listener registered with on().
+   *
+   * @param phase - The phase the listener was registered for
+   * @param listener - The listener to remove
+   */
+  off<P extends LimelightEventPhase | "*">(
+    phase: P,
+    listener: LimelightEventListener<P>,
+  ): void {
+    this.messageEmitter.off(phase, listener);
+  }
+
+  /**
+   * Returns the current connection state.
+   * @returns {ConnectionState} The connection state
+   */
+  getConnectionState(): ConnectionState {
+    return this.connectionState;
+  }
+
+  /**
+   * Registers a listener for connection state changes.
+   *
+   * @example
+   * ```ts
+   * const unsubscribe = Limelight.onConnectionStateChange((state) => {
+   *   console.log("Limelight is", state);
+   * });
+   * ```
+   *
+   * @param listener - Called with each new state
+   * @returns A function that removes the listener
+   */
+  onConnectionStateChange(
+    listener: (state: ConnectionState) => void,
+  ): () => void {
+    this.connectionStateListeners.add(listener);
+
+    return () => {
+      this.connectionStateListeners.delete(listener);
+    };
+  }
+
+  /**
+   * Exports the recent fetch, XHR and manually tracked requests as a HAR 1.2
+   * document. Headers and bodies appear as they were sent to the desktop, after
+   * redaction and beforeSend. Requires the recording config option; without
+   * it the document has no entries.
+   *
+   * @example
+   * ```ts
+   * Limelight.connect({ recording: true });
+   * // ...
+   * const har = Limelight.exportHar();
+   * await FileSystem.writeAsStringAsync(path, JSON.stringify(har));
+   * ```
+   *
+   * @returns The HAR document
+   */
+  exportHar(): Har {
+    return this.harExporter.export();
+  }
+
+  /**
+   * Exports everything sent this session (network, console, state, renders and
+   * transactions) as a versioned archive that SessionLoader can replay into the
+   * desktop later. Requires the recording config option; without it the
+   * archive has no messages.
+   *
+   * @example
+   * ```ts
+   * Limelight.connect({ recording: true });
+   * // ...
+   * const archive = Limelight.exportSession();
+   * await FileSystem.writeAsStringAsync(path, JSON.stringify(archive));
+   * ```
+   *
+   * @returns The session archive
+   */
+  exportSession(): SessionArchive {
+    return this.sessionRecorder.export();
+  }
+
+  /**
+   * Applies simulated network conditions to every intercepted request.
+   * Overrides the networkProfile from the config until changed again.
+   *
+   * @param profile - A built-in profile ("slow-3G", "3G", "flaky", "offline"),
+   * custom conditions, or null to disable throttling
+   * @returns False if the profile name is unknown
+   */
+  setNetworkProfile(profile: NetworkProfile | null): boolean {
+    return this.networkConditioner.setProfile(profile);
   }
 
   /**
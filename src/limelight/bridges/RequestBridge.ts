@@ -13,8 +13,16 @@ import {
   redactSensitiveHeaders,
   formatRequestName,
   normalizeOperationType,
+  analyzeGraphQLResponse,
+  analyzeGraphQLDocument,
+  getHighResTime,
+  getResourceTiming,
+  getMaxBodyBytes,
+  shouldCaptureBody,
+  shouldIgnoreRequest,
 } from "@/helpers";
 import { generateRequestId } from "@/protocol";
+import { NetworkConditioner } from "../network";
 import {
   RequestBridgeConfig,
   ResponseBridgeConfig,
@@ -22,16 +30,22 @@ import {
 
 interface PendingRequest {
   startTime: number;
+  startMark?: number; // performance.now() at startTime
   config: RequestBridgeConfig;
+  requestSize: number;
+  captureBody: boolean;
 }
 
 export class RequestBridge {
   private pendingRequests = new Map<string, PendingRequest>();
+  private ignoredRequests = new Set<string>(); // Matched ignore rules; completed silently
   private config: LimelightConfig | null = null;
+  private enabled = true;
 
   constructor(
     private sendMessage: (message: LimelightMessage) => void,
     private getSessionId: () => string,
+    private networkConditioner: NetworkConditioner = new NetworkConditioner(),
   ) {
     // No-op
   }
@@ -44,6 +58,15 @@ export class RequestBridge {
     this.config = config;
   }
 
+  /**
+   * Turns bridged requests on or off. While off, requests are still given an
+   * ID but complete silently.
+   * @param enabled Whether bridged requests are reported
+   */
+  setEnabled(enabled: boolean) {
+    this.enabled = enabled;
+  }
+
   /**
    * Starts tracking a manual request. Returns a requestId to use with endRequest/failRequest.
    * @param config The request configuration
@@ -53,7 +76,18 @@ export class RequestBridge {
     const requestId = generateRequestId();
     const startTime = Date.now();
 
-    this.pendingRequests.set(requestId, { startTime, config });
+    if (
+      !this.enabled ||
+      shouldIgnoreRequest(
+        config.url,
+        config.method || "POST",
+        this.config,
+        () => config.graphql?.operationName,
+      )
+    ) {
+      this.ignoredRequests.add(requestId);
+      return requestId;
+    }
 
     let bodyToSerialize = config.body;
 
@@ -67,14 +101,25 @@ export class RequestBridge {
 
     const method = (config.method?.toUpperCase() || "POST") as HttpMethod;
     const headers = config.headers || {};
+    const captureBody = shouldCaptureBody(config.url, this.config);
 
     const requestBody = serializeBody(
       typeof bodyToSerialize === "string"
         ? bodyToSerialize
         : JSON.stringify(bodyToSerialize),
-      this.config?.disableBodyCapture,
+      !captureBody,
+      this.getContentType(headers, bodyToSerialize),
+      getMaxBodyBytes(this.config, "request"),
     );
 
+    this.pendingRequests.set(requestId, {
+      startTime,
+      startMark: getHighResTime(),
+      config,
+      requestSize: requestBody?.size ?? 0,
+      captureBody,
+    });
+
     let requestEvent: NetworkRequest = {
       id: requestId,
       sessionId: this.getSessionId(),
@@ -94,6 +139,12 @@ export class RequestBridge {
             operationType: normalizeOperationType(config.graphql.operationType),
             variables: config.graphql.variables,
             query: config.graphql.query,
+            ...(config.graphql.query &&
+              analyzeGraphQLDocument(
+                config.graphql.query,
+                config.graphql.operationName,
+                config.graphql.variables,
+              )),
           }
         : undefined,
     };
@@ -121,10 +172,15 @@ export class RequestBridge {
 
   /**
    * Completes a tracked request with a successful response.
+   * The app performs manual requests itself, so an active network profile is
+   * reflected in the reported duration, and an offline profile is reported
+   * as an error. Packet loss is not simulated for responses the app received.
    * @param requestId The ID returned from startRequest
    * @param response The response data
    */
   endRequest(requestId: string, response: ResponseBridgeConfig): void {
+    if (this.ignoredRequests.delete(requestId)) return;
+
     const pending = this.pendingRequests.get(requestId);
 
     if (!pending) {
@@ -136,19 +192,36 @@ export class RequestBridge {
       return;
     }
 
-    this.pendingRequests.delete(requestId);
-
     const endTime = Date.now();
-    const duration = endTime - pending.startTime;
 
     const responseHeaders = response.headers || {};
     const responseBody = serializeBody(
       typeof response.body === "string"
         ? response.body
         : JSON.stringify(response.body),
-      this.config?.disableBodyCapture,
+      !pending.captureBody,
+      this.getContentType(responseHeaders, response.body),
+      getMaxBodyBytes(this.config, "response"),
     );
 
+    const simulatedDelay = this.networkConditioner.simulateDuration(
+      pending.requestSize,
+      responseBody?.size ?? 0,
+    );
+
+    if (simulatedDelay === null) {
+      this.failRequest(requestId, new TypeError("Network request failed"));
+      return;
+    }
+
+    this.pendingRequests.delete(requestId);
+
+    const duration = endTime - pending.startTime + simulatedDelay;
+
+    const graphqlResult = pending.config.graphql
+      ? analyzeGraphQLResponse(response.body)
+      : null;
+
     let responseEvent: NetworkResponse = {
       id: requestId,
       sessionId: this.getSessionId(),
@@ -162,7 +235,16 @@ export class RequestBridge {
       duration,
       responseSize: responseBody?.size ?? 0,
       redirected: false,
-      ok: response.status >= 200 && response.status < 300,
+      ok:
+        response.status >= 200 &&
+        response.status < 300 &&
+        !graphqlResult?.errors,
+      timing: {
+        ...getResourceTiming(pending.config.url, pending.startMark),
+        total: duration,
+      },
+      ...(graphqlResult && { graphqlResult }),
+      ...this.networkConditioner.getEventFlags(),
     };
 
     if (this.config?.beforeSend) {
@@ -189,6 +271,8 @@ export class RequestBridge {
    * @param error The error object or message
    */
   failRequest(requestId: string, error: unknown): void {
+    if (this.ignoredRequests.delete(requestId)) return;
+
     const pending = this.pendingRequests.get(requestId);
 
     if (!pending) {
@@ -213,6 +297,7 @@ export class RequestBridge {
       networkType: NetworkType.FETCH,
       errorMessage,
       stack: errorStack,
+      ...this.networkConditioner.getEventFlags(),
     };
 
     if (this.config?.beforeSend) {
@@ -226,10 +311,31 @@ export class RequestBridge {
     this.sendMessage(errorEvent);
   }
 
+  /**
+   * Reads the content-type header, assuming JSON for bodies passed as objects.
+   * @private
+   * @param headers The request or response headers
+   * @param body The body as passed to the bridge
+   * @returns The content type, if known
+   */
+  private getContentType(
+    headers: Record<string, string>,
+    body: unknown,
+  ): string | undefined {
+    const contentType = Object.entries(headers).find(
+      ([key]) => key.toLowerCase() === "content-type",
+    )?.[1];
+
+    return (
+      contentType ?? (typeof body === "string" ? undefined : "application/json")
+    );
+  }
+
   /**
    * Cleans up any pending requests (called on disconnect)
    */
   cleanup() {
     this.pendingRequests.clear();
+    this.ignoredRequests.clear();
   }
 }
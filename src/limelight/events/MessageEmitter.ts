@@ -0,0 +1,92 @@
+import {
+  LimelightConfig,
+  LimelightEventListener,
+  LimelightEventPhase,
+  LimelightMessage,
+} from "@/types";
+
+type AnyListener = (message: LimelightMessage) => void;
+
+/**
+ * Dispatches outgoing messages to in-app listeners registered by phase.
+ */
+export class MessageEmitter {
+  private listeners = new Map<LimelightEventPhase | "*", Set<AnyListener>>();
+  private isEmitting = false;
+
+  constructor(private getConfig: () => LimelightConfig | null) {
+    // No-op
+  }
+
+  /**
+   * Registers a listener for messages with the given phase, or "*" for all.
+   * @param phase - The message phase to listen for
+   * @param listener - Called with each matching message
+   */
+  on<P extends LimelightEventPhase | "*">(
+    phase: P,
+    listener: LimelightEventListener<P>,
+  ): void {
+    let listeners = this.listeners.get(phase);
+
+    if (!listeners) {
+      listeners = new Set();
+      this.listeners.set(phase, listeners);
+    }
+
+    listeners.add(listener as AnyListener);
+  }
+
+  /**
+   * Removes a listener registered with on().
+   * @param phase - The phase the listener was registered for
+   * @param listener - The listener to remove
+   */
+  off<P extends LimelightEventPhase | "*">(
+    phase: P,
+    listener: LimelightEventListener<P>,
+  ): void {
+    const listeners = this.listeners.get(phase);
+
+    if (!listeners) return;
+
+    listeners.delete(listener as AnyListener);
+
+    if (listeners.size === 0) {
+      this.listeners.delete(phase);
+    }
+  }
+
+  /**
+   * Passes a message to every matching listener.
+   * Messages produced while a listener runs (e.g. by logging) are not
+   * dispatched again, so a listener cannot trigger itself in a loop.
+   * @param message - The outgoing message
+   */
+  emit(message: LimelightMessage): void {
+    if (this.listeners.size === 0 || this.isEmitting) return;
+
+    const listeners = [
+      ...(this.listeners.get(message.phase) ?? []),
+      ...(this.listeners.get("*") ?? []),
+    ];
+
+    if (listeners.length === 0) return;
+
+    this.isEmitting = true;
+
+    try {
+      listeners.forEach((listener) => {
+        try {
+          listener(message);
+        } catch (error) {
+          if (this.getConfig()?.enableInternalLogging) {
+            console.error("[Limelight] Event listener threw:", error);
+          }
+        }
+      });
+    } finally {
+      this.isEmitting = false;
+    }
+  }
+}
@@ -0,0 +1,303 @@
+import {
+  BodyFormat,
+  Har,
+  HarEntry,
+  HarNameValue,
+  LimelightConfig,
+  LimelightMessage,
+  NetworkErrorEvent,
+  NetworkPhase,
+  NetworkRequest,
+  NetworkResponse,
+  NetworkTiming,
+  NetworkType,
+  SerializedBody,
+} from "@/types";
+import { MAX_HAR_ENTRIES, SDK_VERSION } from "@/constants";
+import { getByteSize, getRecordingLimit, safeStringify } from "@/helpers";
+
+interface RecordedCall {
+  request: NetworkRequest;
+  response?: NetworkResponse;
+  error?: NetworkErrorEvent;
+  size: number; // serialized bytes of the recorded events
+}
+
+/**
+ * Records network events as they are sent and turns them into a HAR 1.2
+ * document. Events are recorded after beforeSend, so headers redacted by the
+ * SDK stay redacted in the export. Recording is off until enabled in config.
+ */
+export class HarExporter {
+  private calls = new Map<string, RecordedCall>();
+  private size = 0;
+  private maxBytes: number | null = null;
+
+  constructor() {
+    // No-op
+  }
+
+  /**
+   * Applies the recording options. Disabling recording forgets every call.
+   * @param config - The Limelight config, or null to disable
+   */
+  setConfig(config: LimelightConfig | null): void {
+    this.maxBytes = getRecordingLimit(config);
+
+    if (this.maxBytes === null) this.clear();
+  }
+
+  /**
+   * Records a message if it belongs to a network call.
+   * Keeps only the most recent MAX_HAR_ENTRIES calls, within the byte budget.
+   * @param message - A message sent to the desktop
+   */
+  record(message: LimelightMessage): void {
+    if (this.maxBytes === null) return;
+
+    switch (message.phase) {
+      case NetworkPhase.REQUEST:
+        // Batched GraphQL operations share their parent's HTTP call
+        if (message.networkType === NetworkType.GRAPHQL) return;
+
+        this.forget(message.id);
+        this.calls.set(message.id, { request: message, size: 0 });
+        break;
+
+      case NetworkPhase.RESPONSE: {
+        const call = this.calls.get(message.id);
+        if (!call) return;
+        call.response = message;
+        break;
+      }
+
+      case NetworkPhase.ERROR:
+      case NetworkPhase.ABORT: {
+        const call = this.calls.get(message.id);
+        if (!call) return;
+        call.error = message;
+        break;
+      }
+
+      default:
+        return;
+    }
+
+    const size = getByteSize(safeStringify(message));
+    this.calls.get(message.id)!.size += size;
+    this.size += size;
+
+    // The newest call is kept even if it alone exceeds the budget
+    while (
+      this.calls.size > MAX_HAR_ENTRIES ||
+      (this.size > this.maxBytes && this.calls.size > 1)
+    ) {
+      const oldest = this.calls.keys().next().value;
+      if (oldest === undefined) break;
+      this.forget(oldest);
+    }
+  }
+
+  /**
+   * Builds a HAR document from the recorded calls, oldest first.
+   * Calls that failed or are still in flight have a status of 0.
+   * @returns The HAR document
+   */
+  export(): Har {
+    return {
+      log: {
+        version: "1.2",
+        creator: { name: "Limelight", version: SDK_VERSION },
+        entries: Array.from(this.calls.values(), (call) => this.toEntry(call)),
+      },
+    };
+  }
+
+  /**
+   * Forgets every recorded call.
+   */
+  clear(): void {
+    this.calls.clear();
+    this.size = 0;
+  }
+
+  /**
+   * Drops one recorded call.
+   * @private
+   * @param id - The request ID
+   */
+  private forget(id: string): void {
+    const call = this.calls.get(id);
+    if (!call) return;
+
+    this.calls.delete(id);
+    this.size -= call.size;
+  }
+
+  /**
+   * Converts one recorded call into a HAR entry.
+   * @private
+   * @param call - The recorded request and its outcome
+   * @returns The HAR entry
+   */
+  private toEntry({ request, response, error }: RecordedCall): HarEntry {
+    const time =
+      response?.duration ?? (error ? error.timestamp - request.timestamp : 0);
+    const graphql = request.graphql ?? response?.graphql;
+
+    return {
+      startedDateTime: new Date(request.timestamp).toISOString(),
+      time,
+      request: {
+        method: request.method,
+        url: request.url,
+        httpVersion: "HTTP/1.1",
+        cookies: [],
+        headers: this.toNameValues(request.headers),
+        queryString: this.getQueryString(request.url),
+        ...((request.body?.raw !== undefined || request.body?.parts) && {
+          postData: {
+            mimeType: this.getMimeType(request.headers, request.body),
+            text: request.body.raw ?? "",
+            ...(request.body.parts && {
+              params: request.body.parts.map((part) => ({
+                name: part.name ?? "",
+                ...(part.value !== undefined && { value: part.value }),
+                ...(part.fileName !== undefined && { fileName: part.fileName }),
+                ...(part.contentType && { contentType: part.contentType }),
+              })),
+            }),
+          },
+        }),
+        headersSize: -1,
+        bodySize: request.requestSize,
+      },
+      response: {
+        status: response?.status ?? 0,
+        statusText: response?.statusText ?? "",
+        httpVersion: "HTTP/1.1",
+        cookies: [],
+        headers: this.toNameValues(response?.headers ?? {}),
+        content: {
+          size: response?.responseSize ?? 0,
+          mimeType: response
+            ? this.getMimeType(response.headers, response.body)
+            : "",
+          ...(response?.body?.raw !== undefined && {
+            text: response.body.raw,
+          }),
+          ...(response?.body?.encoding && {
+            encoding: response.body.encoding,
+          }),
+        },
+        redirectURL: this.getHeader(response?.headers ?? {}, "location") ?? "",
+        headersSize: -1,
+        bodySize: response?.responseSize ?? -1,
+      },
+      cache: {},
+      timings: this.getTimings(response?.timing),
+      _id: request.id,
+      _networkType: request.networkType,
+      ...(graphql && { _graphql: graphql }),
+      ...(response?.graphqlResult?.errors && {
+        _graphqlErrors: response.graphqlResult.errors,
+      }),
+      ...(error && { _error: error.errorMessage }),
+      ...(error?.phase === NetworkPhase.ABORT && { _aborted: true }),
+      ...(!response && !error && { _pending: true }),
+      ...(response?.mocked && { _mocked: true }),
+      ...(request.replayOf && { _replayOf: request.replayOf }),
+    };
+  }
+
+  /**
+   * Converts a response's timing into HAR timings. Resource Timing phases are
+   * used where the platform records them; otherwise phases are derived from
+   * when the upload finished and the headers arrived. Phases that were not
+   * measured are -1.
+   * @private
+   * @param timing - The response timing, if any
+   * @returns The HAR timings
+   */
+  private getTimings(timing: NetworkTiming | undefined): HarEntry["timings"] {
+    // Resource Timing measures from request start to first byte as one phase
+    if (timing?.request !== undefined) {
+      return {
+        dns: timing.dns ?? -1,
+        connect: timing.connect ?? -1,
+        ssl: timing.tls ?? -1,
+        send: -1,
+        wait: timing.request,
+        receive: timing.download ?? -1,
+      };
+    }
+
+    const uploadEnd = timing?.uploadEnd;
+    const headers = timing?.headers;
+
+    return {
+      send: uploadEnd ?? -1,
+      wait: headers !== undefined ? headers - (uploadEnd ?? 0) : -1,
+      receive: headers !== undefined && timing ? timing.total - headers : -1,
+    };
+  }
+
+  /**
+   * @private
+   * @param headers - Headers as sent in network events
+   * @returns The headers as HAR name/value pairs
+   */
+  private toNameValues(headers: Record<string, string>): HarNameValue[] {
+    return Object.entries(headers).map(([name, value]) => ({ name, value }));
+  }
+
+  /**
+   * @private
+   * @param url - The request URL
+   * @returns The query parameters as HAR name/value pairs
+   */
+  private getQueryString(url: string): HarNameValue[] {
+    try {
+      return Array.from(new URL(url).searchParams, ([name, value]) => ({
+        name,
+        value,
+      }));
+    } catch {
+      return [];
+    }
+  }
+
+  /**
+   * Looks up a header regardless of how its name was cased.
+   * @private
+   * @param headers - The headers to search
+   * @param name - The lowercase header name
+   * @returns The header value, if present
+   */
+  private getHeader(
+    headers: Record<string, string>,
+    name: string,
+  ): string | undefined {
+    const key = Object.keys(headers).find((k) => k.toLowerCase() === name);
+
+    return key ? headers[key] : undefined;
+  }
+
+  /**
+   * Uses the content-type header, falling back to the body format.
+   * @private
+   * @param headers - The request or response headers
+   * @param body - The serialized body
+   * @returns The MIME type, or an empty string if unknown
+   */
+  private getMimeType(
+    headers: Record<string, string>,
+    body?: SerializedBody,
+  ): string {
+    return (
+      this.getHeader(headers, "content-type") ??
+      body?.contentType ??
+      (body?.format === BodyFormat.JSON ? "application/json" : "")
+    );
+  }
+}
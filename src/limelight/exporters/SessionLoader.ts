@@ -0,0 +1,127 @@
+import {
+  LimelightMessage,
+  SessionArchive,
+  SessionPlaybackOptions,
+  Transport,
+} from "@/types";
+import { safeStringify, wait } from "@/helpers";
+import {
+  SESSION_ARCHIVE_FORMAT,
+  SESSION_ARCHIVE_VERSION,
+  TRANSPORT_STATE,
+} from "@/constants";
+
+/**
+ * Plays a session archive back through a transport, so the desktop shows it
+ * as if the app were live.
+ *
+ * @example
+ * ```ts
+ * const loader = new SessionLoader(fs.readFileSync("session.json", "utf8"));
+ * await loader.play(new WebSocket("ws://localhost:8484/limelight"));
+ * ```
+ */
+export class SessionLoader {
+  readonly archive: SessionArchive;
+
+  /**
+   * @param archive - An archive from Limelight.exportSession(), or its JSON
+   * @throws If the archive is malformed or was written by a newer SDK
+   */
+  constructor(archive: SessionArchive | string) {
+    const parsed: SessionArchive =
+      typeof archive === "string" ? JSON.parse(archive) : archive;
+
+    if (
+      parsed?.format !== SESSION_ARCHIVE_FORMAT ||
+      !Array.isArray(parsed.messages)
+    ) {
+      throw new Error("[Limelight] Not a Limelight session archive");
+    }
+
+    if (parsed.version > SESSION_ARCHIVE_VERSION) {
+      throw new Error(
+        `[Limelight] Session archive version ${parsed.version} is newer than this SDK supports`,
+      );
+    }
+
+    this.archive = parsed;
+  }
+
+  /**
+   * Sends the CONNECT metadata and then every message, in order. Messages
+   * recorded across reconnects are merged into the archive's session.
+   * @param transport - An open or opening transport
+   * @param options - Playback timing
+   * @returns Resolves once every message has been sent
+   */
+  async play(
+    transport: Transport,
+    options: SessionPlaybackOptions = {},
+  ): Promise<void> {
+    await this.waitForOpen(transport);
+
+    const { connect, messages } = this.archive;
+    const speed = options.speed ?? 1;
+    let seq = 0;
+
+    const send = (message: LimelightMessage) => {
+      const sessionId =
+        connect && "sessionId" in message ? connect.sessionId : undefined;
+
+      transport.send(
+        safeStringify({
+          ...message,
+          ...(sessionId && { sessionId }),
+          seq: seq++,
+        }),
+      );
+    };
+
+    if (connect) send(connect);
+
+    let previousTimestamp: number | undefined;
+
+    for (const message of messages) {
+      const timestamp = "timestamp" in message ? message.timestamp : undefined;
+
+      if (
+        options.timing === "original" &&
+        speed > 0 &&
+        timestamp !== undefined &&
+        previousTimestamp !== undefined
+      ) {
+        await wait((timestamp - previousTimestamp) / speed);
+      }
+
+      previousTimestamp = timestamp ?? previousTimestamp;
+
+      if (transport.readyState !== TRANSPORT_STATE.OPEN) {
+        throw new Error("[Limelight] Transport closed during playback");
+      }
+
+      send(message);
+    }
+  }
+
+  /**
+   * Resolves once the transport is open.
+   * @private
+   * @param transport - The transport to wait for
+   */
+  private waitForOpen(transport: Transport): Promise<void> {
+    if (transport.readyState === TRANSPORT_STATE.OPEN) {
+      return Promise.resolve();
+    }
+
+    if (transport.readyState !== TRANSPORT_STATE.CONNECTING) {
+      return Promise.reject(new Error("[Limelight] Transport is closed"));
+    }
+
+    return new Promise((resolve, reject) => {
+      transport.onopen = () => resolve();
+      transport.onclose = () =>
+        reject(new Error("[Limelight] Transport closed before opening"));
+    });
+  }
+}
@@ -0,0 +1,104 @@
+import {
+  CommandType,
+  ConnectionEvent,
+  LimelightConfig,
+  LimelightMessage,
+  SessionArchive,
+} from "@/types";
+import {
+  MAX_SESSION_MESSAGES,
+  PROTOCOL_VERSION,
+  SDK_VERSION,
+  SESSION_ARCHIVE_FORMAT,
+  SESSION_ARCHIVE_VERSION,
+} from "@/constants";
+import { getByteSize, getRecordingLimit, safeStringify } from "@/helpers";
+
+/**
+ * Records every message the app sends so the session can be exported as an
+ * archive. Connection lifecycle messages and command acknowledgments belong
+ * to the live link rather than the session, so only the first CONNECT is kept,
+ * as the archive's metadata. Recording is off until enabled in config.
+ */
+export class SessionRecorder {
+  private connect: ConnectionEvent | null = null;
+  private messages: { message: LimelightMessage; size: number }[] = [];
+  private size = 0;
+  private maxBytes: number | null = null;
+  private droppedMessages = 0;
+
+  constructor() {
+    // No-op
+  }
+
+  /**
+   * Applies the recording options. Disabling recording forgets everything.
+   * @param config - The Limelight config, or null to disable
+   */
+  setConfig(config: LimelightConfig | null): void {
+    this.maxBytes = getRecordingLimit(config);
+
+    if (this.maxBytes === null) this.clear();
+  }
+
+  /**
+   * Records a message sent to the desktop. Keeps only the most recent
+   * MAX_SESSION_MESSAGES messages, within the byte budget.
+   * @param message - The message, after beforeSend
+   */
+  record(message: LimelightMessage): void {
+    if (this.maxBytes === null) return;
+
+    switch (message.phase) {
+      case "CONNECT":
+        if (!this.connect) this.connect = message;
+        return;
+
+      case "DISCONNECT":
+      case "RECONNECT":
+      case CommandType.ACK:
+        return;
+    }
+
+    const size = getByteSize(safeStringify(message));
+
+    this.messages.push({ message, size });
+    this.size += size;
+
+    // The newest message is kept even if it alone exceeds the budget
+    while (
+      this.messages.length > MAX_SESSION_MESSAGES ||
+      (this.size > this.maxBytes && this.messages.length > 1)
+    ) {
+      this.size -= this.messages.shift()!.size;
+      this.droppedMessages++;
+    }
+  }
+
+  /**
+   * Builds an archive of everything recorded so far.
+   * @returns The session archive
+   */
+  export(): SessionArchive {
+    return {
+      format: SESSION_ARCHIVE_FORMAT,
+      version: SESSION_ARCHIVE_VERSION,
+      exportedAt: Date.now(),
+      sdkVersion: SDK_VERSION,
+      protocolVersion: PROTOCOL_VERSION,
+      connect: this.connect,
+      messages: this.messages.map(({ message }) => message),
+      droppedMessages: this.droppedMessages,
+    };
+  }
+
+  /**
+   * Forgets everything recorded, including the CONNECT metadata.
+   */
+  clear(): void {
+    this.connect = null;
+    this.messages = [];
+    this.size = 0;
+    this.droppedMessages = 0;
+  }
+}
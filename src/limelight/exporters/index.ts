@@ -0,0 +1,3 @@
+export * from "./HarExporter";
+export * from "./SessionRecorder";
+export * from "./SessionLoader";
@@ -1,11 +1,32 @@
 // limelight/CommandHandler.ts
-import { Command, CommandType, LimelightMessage } from "@/types";
-import { RenderInterceptor } from "../interceptors";
+import {
+  Command,
+  CommandType,
+  LimelightMessage,
+  NetworkType,
+  ReplayRequestCommand,
+} from "@/types";
+import {
+  NetworkInterceptor,
+  RenderInterceptor,
+  XHRInterceptor,
+} from "../interceptors";
+import { BreakpointManager, MockEngine, NetworkConditioner } from "../network";
+import { MessageBatcher, ProtocolNegotiator } from "../transport";
+import { HarExporter } from "../exporters";
 
 export class CommandHandler {
   constructor(
     private interceptors: {
       render: RenderInterceptor;
+      network?: NetworkInterceptor;
+      xhr?: XHRInterceptor;
+      mocks?: MockEngine;
+      conditioner?: NetworkConditioner;
+      breakpoints?: BreakpointManager;
+      batcher?: MessageBatcher;
+      protocol?: ProtocolNegotiator;
+      har?: HarExporter;
     },
     private sendMessage: (message: LimelightMessage) => void,
     private getConfig: () => { enableInternalLogging?: boolean } | null,
@@ -19,6 +40,8 @@ export class CommandHandler {
    */
   handle(command: Command): void {
     const config = this.getConfig();
+    let success = true;
+    let data: unknown;
 
     if (config?.enableInternalLogging) {
       console.log("[Limelight] Received command:", command.type);
@@ -29,9 +52,101 @@ export class CommandHandler {
         this.interceptors.render.resetProfiles();
         break;
 
+      case CommandType.REPLAY_REQUEST:
+        success = this.replayRequest(command);
+
+        if (!success && config?.enableInternalLogging) {
+          console.warn(
+            "[Limelight] Unable to replay request:",
+            command.requestId ?? command.request?.url,
+          );
+        }
+        break;
+
+      case CommandType.SET_MOCK_RULES:
+        if (this.interceptors.mocks) {
+          this.interceptors.mocks.setRules(command.rules);
+        } else {
+          success = false;
+        }
+        break;
+
+      case CommandType.CLEAR_MOCK_RULES:
+        if (this.interceptors.mocks) {
+          this.interceptors.mocks.clearRules();
+        } else {
+          success = false;
+        }
+        break;
+
+      case CommandType.SET_NETWORK_PROFILE:
+        success =
+          this.interceptors.conditioner?.setProfile(command.profile) ?? false;
+        break;
+
+      case CommandType.SET_BREAKPOINTS:
+        if (this.interceptors.breakpoints) {
+          this.interceptors.breakpoints.setRules(command.rules);
+        } else {
+          success = false;
+        }
+        break;
+
+      case CommandType.CLEAR_BREAKPOINTS:
+        if (this.interceptors.breakpoints) {
+          this.interceptors.breakpoints.clearRules();
+        } else {
+          success = false;
+        }
+        break;
+
+      case CommandType.RESUME_REQUEST:
+        success =
+          this.interceptors.breakpoints?.resume(
+            command.requestId,
+            command.edits,
+            command.stage,
+          ) ?? false;
+
+        if (!success && config?.enableInternalLogging) {
+          console.warn(
+            "[Limelight] No paused request to resume:",
+            command.requestId,
+          );
+        }
+        break;
+
+      case CommandType.CONNECT_ACK: {
+        const transportAccepted =
+          this.interceptors.batcher?.negotiate(command.transport) ?? true;
+        // Applied after the transport so it can turn batching back off
+        const compatible = this.interceptors.protocol?.apply(command) ?? true;
+
+        success = compatible && transportAccepted;
+
+        if (!transportAccepted && config?.enableInternalLogging) {
+          console.warn(
+            "[Limelight] Desktop requested an unsupported transport:",
+            command.transport,
+          );
+        }
+        break;
+      }
+
+      case CommandType.EXPORT_HAR:
+        if (this.interceptors.har) {
+          data = this.interceptors.har.export();
+        } else {
+          success = false;
+        }
+        break;
+
       default:
         if (config?.enableInternalLogging) {
-          console.warn("[Limelight] Unknown command:", command.type);
+          console.warn(
+            "[Limelight] Unknown command:",
+            (command as Command).type,
+          );
         }
     }
 
@@ -40,8 +155,40 @@ export class CommandHandler {
         phase: CommandType.ACK,
         commandId: command.id,
         type: command.type,
-        success: true,
+        success,
+        ...(data !== undefined && { data }),
       });
     }
   }
+
+  /**
+   * Routes a replay to the interceptor that captured the original request.
+   * Edited payloads without a known request ID are replayed by networkType.
+   * @param command - The replay command
+   * @returns True if a replay was started
+   */
+  private replayRequest(command: ReplayRequestCommand): boolean {
+    const { network, xhr } = this.interceptors;
+    const { requestId, request } = command;
+
+    if (requestId) {
+      if (network?.canReplay(requestId)) {
+        return network.replay(requestId, request);
+      }
+
+      if (xhr?.canReplay(requestId)) {
+        return xhr.replay(requestId, request);
+      }
+
+      if (!request?.url) return false;
+    }
+
+    const payload = { id: requestId, ...request };
+
+    if (payload.networkType === NetworkType.XHR) {
+      return xhr?.replay(undefined, payload) ?? false;
+    }
+
+    return network?.replay(undefined, payload) ?? false;
+  }
 }
@@ -1,2 +1,4 @@
 export { Limelight, LimelightClient } from "./LimelightClient";
+export { FileTransport, HttpTransport, MemoryTransport } from "./transport";
+export { SessionLoader } from "./exporters";
 export * from "./interceptors";
@@ -0,0 +1,392 @@
+import {
+  EventSourceEvent,
+  EventSourceLike,
+  EventSourcePhase,
+  LimelightConfig,
+  LimelightMessage,
+} from "@/types";
+import { getByteSize, serializeBody } from "@/helpers";
+import { generateRequestId } from "@/protocol";
+
+type AddEventListener = EventSourceLike["prototype"]["addEventListener"];
+
+interface TrackedSource {
+  connectionId: string;
+  url: string;
+  createdAt: number;
+  opens: number;
+  droppedAt: number | null;
+  closed: boolean;
+  listenedTypes: Set<string>;
+  addEventListener: (type: string, listener: (event: any) => void) => void;
+}
+
+interface PatchedPrototype {
+  prototype: EventSourceLike["prototype"];
+  addEventListener: AddEventListener;
+  close: () => void;
+  hadOwnAddEventListener: boolean;
+}
+
+// Lifecycle events are reported by their own phases, not as messages
+const LIFECYCLE_EVENT_TYPES = ["open", "error", "close"];
+
+export class EventSourceInterceptor {
+  private OriginalEventSource: typeof EventSource | null = null;
+  private wrappedEventSource: typeof EventSource | null = null;
+  private patchedPrototypes: PatchedPrototype[] = [];
+  private sources = new WeakMap<object, TrackedSource>();
+
+  private config: LimelightConfig | null = null;
+  private isSetup = false;
+
+  constructor(
+    private sendMessage: (message: LimelightMessage) => void,
+    private getSessionId: () => string,
+  ) {
+    // No-op
+  }
+
+  /**
+   * Sets up EventSource interception by wrapping the global EventSource
+   * constructor, plus the prototype of config.eventSource for polyfills.
+   * Polyfill instances are tracked from their first addEventListener() call.
+   * @param {LimelightConfig} config - Configuration object for Limelight
+   * @returns {void}
+   */
+  setup(config: LimelightConfig) {
+    if (this.isSetup) {
+      if (this.config?.enableInternalLogging) {
+        console.warn("[Limelight] EventSource interceptor already set up");
+      }
+
+      return;
+    }
+
+    this.isSetup = true;
+    this.config = config;
+
+    if (typeof EventSource !== "undefined") {
+      this.wrapGlobalEventSource();
+    }
+
+    if (config.eventSource && config.eventSource !== this.OriginalEventSource) {
+      this.patchPrototype(config.eventSource);
+    }
+  }
+
+  /**
+   * Replaces the global EventSource with a constructor that tracks every
+   * instance from the start.
+   * @private
+   * @returns {void}
+   */
+  private wrapGlobalEventSource() {
+    const self = this;
+    const OriginalEventSource = EventSource;
+    const { addEventListener } = this.patchPrototype(OriginalEventSource);
+
+    const LimelightEventSource = function (
+      url: string | URL,
+      init?: EventSourceInit,
+    ) {
+      const source = new OriginalEventSource(url, init);
+      self.track(source, String(url), addEventListener);
+      return source;
+    } as unknown as typeof EventSource;
+
+    // Keep instanceof checks and the readyState constants working
+    LimelightEventSource.prototype = OriginalEventSource.prototype;
+    Object.assign(LimelightEventSource, {
+      CONNECTING: OriginalEventSource.CONNECTING,
+      OPEN: OriginalEventSource.OPEN,
+      CLOSED: OriginalEventSource.CLOSED,
+    });
+
+    this.OriginalEventSource = OriginalEventSource;
+    this.wrappedEventSource = LimelightEventSource;
+    global.EventSource = LimelightEventSource;
+  }
+
+  /**
+   * Wraps addEventListener() and close() on an EventSource prototype, so named
+   * events and closes made by the app are seen.
+   * @private
+   * @param {EventSourceLike} target - The EventSource implementation
+   * @returns {PatchedPrototype} The original methods
+   */
+  private patchPrototype(target: EventSourceLike): PatchedPrototype {
+    const self = this;
+    const { prototype } = target;
+
+    const patched: PatchedPrototype = {
+      prototype,
+      addEventListener: prototype.addEventListener,
+      close: prototype.close,
+      hadOwnAddEventListener: Object.prototype.hasOwnProperty.call(
+        prototype,
+        "addEventListener",
+      ),
+    };
+
+    prototype.addEventListener = function (this: any, type, listener) {
+      const source =
+        self.sources.get(this) ??
+        self.track(this, String(this.url ?? ""), patched.addEventListener);
+
+      self.listenFor(source, type);
+
+      return patched.addEventListener.apply(this, arguments as any);
+    };
+
+    prototype.close = function (this: any) {
+      self.handleClose(this, "client");
+
+      return patched.close.apply(this, arguments as any);
+    };
+
+    this.patchedPrototypes.push(patched);
+
+    return patched;
+  }
+
+  /**
+   * Starts reporting events for an EventSource created by the app.
+   * @private
+   * @param {object} eventSource - The EventSource instance
+   * @param {string} url - The stream URL
+   * @param {AddEventListener} addEventListener - The unwrapped addEventListener
+   * @returns {TrackedSource} The tracking state
+   */
+  private track(
+    eventSource: any,
+    url: string,
+    addEventListener: AddEventListener,
+  ): TrackedSource {
+    const source: TrackedSource = {
+      connectionId: generateRequestId(),
+      url,
+      createdAt: Date.now(),
+      opens: 0,
+      droppedAt: null,
+      closed: false,
+      listenedTypes: new Set(),
+      addEventListener: (type, listener) =>
+        addEventListener.call(eventSource, type, listener),
+    };
+
+    this.sources.set(eventSource, source);
+
+    source.addEventListener("open", () => this.handleOpen(source));
+    source.addEventListener("error", (event) =>
+      this.handleError(source, eventSource, event),
+    );
+    // Emitted by react-native-sse
+    source.addEventListener("close", () =>
+      this.handleClose(eventSource, "client"),
+    );
+    this.listenFor(source, "message");
+
+    return source;
+  }
+
+  /**
+   * Reports events of the given type, once per type.
+   * @private
+   * @param {TrackedSource} source - The tracked EventSource
+   * @param {string} type - The event type the app listens for
+   * @returns {void}
+   */
+  private listenFor(source: TrackedSource, type: string) {
+    if (
+      LIFECYCLE_EVENT_TYPES.includes(type) ||
+      source.listenedTypes.has(type)
+    ) {
+      return;
+    }
+
+    source.listenedTypes.add(type);
+    source.addEventListener(type, (event) => {
+      const data = typeof event?.data === "string" ? event.data : undefined;
+
+      this.emit({
+        ...this.getBaseEvent(source),
+        phase: EventSourcePhase.MESSAGE,
+        eventType: type,
+        ...(event?.lastEventId && { lastEventId: String(event.lastEventId) }),
+        data: serializeBody(data, this.config?.disableBodyCapture),
+        size: data ? getByteSize(data) : 0,
+        ...(typeof event?.retry === "number" && { retry: event.retry }),
+      });
+    });
+  }
+
+  /**
+   * Reports the first open, and every later one as a reconnect.
+   * @private
+   * @param {TrackedSource} source - The tracked EventSource
+   * @returns {void}
+   */
+  private handleOpen(source: TrackedSource) {
+    const now = Date.now();
+    source.opens++;
+
+    if (source.opens === 1) {
+      this.emit({
+        ...this.getBaseEvent(source),
+        phase: EventSourcePhase.OPEN,
+        connectTime: now - source.createdAt,
+      });
+    } else {
+      this.emit({
+        ...this.getBaseEvent(source),
+        phase: EventSourcePhase.RECONNECT,
+        attempt: source.opens - 1,
+        downtime: now - (source.droppedAt ?? now),
+      });
+    }
+
+    source.droppedAt = null;
+  }
+
+  /**
+   * Reports an error, and a close if the EventSource gave up.
+   * @private
+   * @param {TrackedSource} source - The tracked EventSource
+   * @param {any} eventSource - The EventSource instance
+   * @param {any} event - The error event
+   * @returns {void}
+   */
+  private handleError(source: TrackedSource, eventSource: any, event: any) {
+    if (source.closed) return;
+
+    if (source.droppedAt === null) {
+      source.droppedAt = Date.now();
+    }
+
+    // Browsers move to CONNECTING (0) while retrying and CLOSED (2) when giving up
+    const willReconnect =
+      typeof eventSource.readyState === "number"
+        ? eventSource.readyState !== 2
+        : undefined;
+
+    this.emit({
+      ...this.getBaseEvent(source),
+      phase: EventSourcePhase.ERROR,
+      errorMessage:
+        typeof event?.message === "string" && event.message
+          ? event.message
+          : "EventSource error",
+      ...(willReconnect !== undefined && { willReconnect }),
+    });
+
+    if (willReconnect === false) {
+      this.handleClose(eventSource, "error");
+    }
+  }
+
+  /**
+   * Reports a close, once per EventSource.
+   * @private
+   * @param {any} eventSource - The EventSource instance
+   * @param {"client" | "error"} reason - Why it closed
+   * @returns {void}
+   */
+  private handleClose(eventSource: any, reason: "client" | "error") {
+    const source = this.sources.get(eventSource);
+
+    if (!source || source.closed) return;
+
+    source.closed = true;
+
+    this.emit({
+      ...this.getBaseEvent(source),
+      phase: EventSourcePhase.CLOSE,
+      reason,
+      duration: Date.now() - source.createdAt,
+    });
+  }
+
+  /**
+   * @private
+   * @param {TrackedSource} source - The EventSource an event belongs to
+   * @returns The fields every EventSource event shares
+   */
+  private getBaseEvent(source: TrackedSource) {
+    return {
+      sessionId: this.getSessionId(),
+      timestamp: Date.now(),
+      connectionId: source.connectionId,
+      url: source.url,
+    };
+  }
+
+  /**
+   * Applies beforeSend and sends the event, unless the interceptor was cleaned up.
+   * @private
+   * @param {EventSourceEvent} event - The event to send
+   * @returns {void}
+   */
+  private emit(event: EventSourceEvent) {
+    // EventSources keep their listeners after cleanup
+    if (!this.isSetup) return;
+
+    let message: LimelightMessage = event;
+
+    if (this.config?.beforeSend) {
+      const modifiedEvent = this.config.beforeSend(event);
+
+      if (!modifiedEvent) return;
+
+      if (modifiedEvent.phase !== event.phase) {
+        // always log an error if beforeSend returns wrong type
+        console.error("[Limelight] beforeSend must return same event type");
+        return;
+      }
+
+      message = modifiedEvent;
+    }
+
+    this.sendMessage(message);
+  }
+
+  /**
+   * Restores the original EventSource constructor and prototype methods.
+   * @returns {void}
+   */
+  cleanup() {
+    if (!this.isSetup) {
+      if (this.config?.enableInternalLogging) {
+        console.warn("[Limelight] EventSource interceptor not set up");
+      }
+
+      return;
+    }
+
+    this.isSetup = false;
+
+    this.patchedPrototypes.forEach((patched) => {
+      if (patched.hadOwnAddEventListener) {
+        patched.prototype.addEventListener = patched.addEventListener;
+      } else {
+        delete (patched.prototype as Partial<PatchedPrototype["prototype"]>)
+          .addEventListener;
+      }
+
+      patched.prototype.close = patched.close;
+    });
+
+    // Leave the global alone if something else replaced it since
+    if (
+      this.OriginalEventSource &&
+      global.EventSource === this.wrappedEventSource
+    ) {
+      global.EventSource = this.OriginalEventSource;
+    }
+
+    this.patchedPrototypes = [];
+    this.OriginalEventSource = null;
+    this.wrappedEventSource = null;
+    this.sources = new WeakMap();
+  }
+}
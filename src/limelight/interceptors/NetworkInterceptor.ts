@@ -1,31 +1,79 @@
 import {
+  BreakpointEdits,
+  GraphQLRequest,
+  GraphQLResponse,
   HttpMethod,
   LimelightConfig,
   LimelightMessage,
+  MockRule,
   NetworkErrorEvent,
   NetworkPhase,
   NetworkRequest,
   NetworkType,
+  ReplayableRequest,
+  ReplayRequestOverrides,
 } from "@/types";
 import {
+  analyzeGraphQLResponse,
+  createGraphQLOperationRequests,
+  createGraphQLOperationResponses,
   formatRequestName,
+  getHighResTime,
   getInitiator,
+  getMaxBodyBytes,
+  getResourceTiming,
+  isBinaryContentType,
   isGraphQLRequest,
-  parseGraphQL,
+  isStreamingResponse,
+  mergeReplayRequest,
+  normalizeMockResponse,
+  parseGraphQLOperations,
   redactSensitiveHeaders,
+  restoreRedactedHeaders,
   serializeBody,
+  serializeBodyAsync,
+  shouldCaptureBody,
+  shouldIgnoreRequest,
+  wait,
 } from "@/helpers";
 import { generateRequestId } from "@/protocol";
+import {
+  INTERNAL_REQUEST_HEADER,
+  MAX_REPLAYABLE_REQUESTS,
+  NULL_BODY_STATUSES,
+  STREAMING_DEFAULTS,
+} from "@/constants";
+import { BreakpointManager, MockEngine, NetworkConditioner } from "../network";
+
+interface StreamCaptureContext {
+  requestId: string;
+  url: string;
+  startTime: number;
+  startMark: number | undefined; // performance.now() at startTime
+  headersReceivedAt: number;
+  responseHeaders: Record<string, string>;
+  replayOf?: string;
+  mockRule: MockRule | null;
+  reachesNetwork: boolean;
+  captureBody: boolean;
+}
 
 export class NetworkInterceptor {
   private originalFetch: typeof fetch;
 
   private config: LimelightConfig | null = null;
   private isSetup = false;
+  private replayableRequests = new Map<string, ReplayableRequest>();
 
   constructor(
     private sendMessage: (message: LimelightMessage) => void,
     private getSessionId: () => string,
+    private mockEngine: MockEngine = new MockEngine(),
+    private networkConditioner: NetworkConditioner = new NetworkConditioner(),
+    private breakpoints: BreakpointManager = new BreakpointManager(
+      sendMessage,
+      getSessionId,
+    ),
   ) {
     this.originalFetch = global.fetch;
   }
@@ -50,207 +98,786 @@ export class NetworkInterceptor {
     this.config = config;
     const self = this;
 
-    global.fetch = async function (
+    global.fetch = function (
       input: string | Request | URL,
       init: RequestInit = {},
     ): Promise<Response> {
-      const requestId = generateRequestId();
-      const startTime = Date.now();
+      return self.interceptFetch(input, init);
+    };
+  }
 
-      const url =
-        typeof input === "string"
-          ? input
-          : input instanceof URL
-            ? input.toString()
-            : input.url;
+  /**
+   * Runs a single fetch through the original fetch while emitting request,
+   * response and error events.
+   * @private
+   * @param {string | Request | URL} input - The fetch input
+   * @param {RequestInit} init - The fetch init options
+   * @param {string} [replayOf] - ID of the original request when replaying
+   * @returns {Promise<Response>} The response from the original fetch
+   */
+  private async interceptFetch(
+    input: string | Request | URL,
+    init: RequestInit = {},
+    replayOf?: string,
+  ): Promise<Response> {
+    const requestId = generateRequestId();
+    const startTime = Date.now();
+    const startMark = getHighResTime();
+
+    const url =
+      typeof input === "string"
+        ? input
+        : input instanceof URL
+          ? input.toString()
+          : input.url;
+
+    const method = (
+      init.method || (input instanceof Request ? input.method : "GET")
+    ).toUpperCase() as HttpMethod;
+
+    // Replays are requested from the desktop, so they are never filtered out
+    if (
+      !replayOf &&
+      shouldIgnoreRequest(url, method, this.config, () =>
+        typeof init.body === "string" || !init.body
+          ? parseGraphQLOperations(url, init.body ?? undefined)[0]
+              ?.operationName
+          : undefined,
+      )
+    ) {
+      return this.originalFetch(input, init);
+    }
 
-      const method = (init.method || "GET") as HttpMethod;
+    const modifiedInit = { ...init };
 
-      const modifiedInit = { ...init };
+    const headers: Record<string, string> = {};
 
-      const headers: Record<string, string> = {};
+    if (input instanceof Request) {
+      input.headers.forEach((value, key) => {
+        headers[key.toLowerCase()] = value;
+      });
+    }
 
-      if (modifiedInit.headers instanceof Headers) {
-        modifiedInit.headers.forEach((value, key) => {
-          headers[key.toLowerCase()] = value;
-        });
-      } else if (modifiedInit.headers) {
-        Object.entries(modifiedInit.headers).forEach(([key, value]) => {
-          headers[key.toLowerCase()] = value;
-        });
+    if (modifiedInit.headers instanceof Headers) {
+      modifiedInit.headers.forEach((value, key) => {
+        headers[key.toLowerCase()] = value;
+      });
+    } else if (modifiedInit.headers) {
+      Object.entries(modifiedInit.headers).forEach(([key, value]) => {
+        headers[key.toLowerCase()] = value;
+      });
+    }
+
+    // The SDK's own HTTP transport must not report itself
+    if (headers[INTERNAL_REQUEST_HEADER]) {
+      return this.originalFetch(input, init);
+    }
+
+    const replayHeaders = { ...headers };
+    const captureBody = shouldCaptureBody(url, this.config);
+
+    headers["x-limelight-intercepted"] = "fetch";
+
+    modifiedInit.headers = new Headers(headers);
+
+    let requestBodyToSerialize = init.body;
+
+    if (input instanceof Request && !requestBodyToSerialize) {
+      try {
+        const clonedRequest = input.clone();
+        const contentType = clonedRequest.headers.get("content-type") || "";
+
+        if (
+          contentType.includes("application/json") ||
+          contentType.includes("text/")
+        ) {
+          requestBodyToSerialize = await clonedRequest.text();
+        } else {
+          requestBodyToSerialize = await clonedRequest.blob();
+        }
+      } catch {
+        requestBodyToSerialize = undefined;
+
+        if (this.config?.enableInternalLogging) {
+          console.warn(
+            "[Limelight] Failed to read request body from Request object",
+          );
+        }
       }
+    }
 
-      headers["x-limelight-intercepted"] = "fetch";
+    this.rememberRequest(requestId, {
+      url,
+      method,
+      headers: replayHeaders,
+      body: requestBodyToSerialize,
+    });
+
+    const requestBody = await serializeBodyAsync(
+      requestBodyToSerialize,
+      !captureBody,
+      headers["content-type"],
+      getMaxBodyBytes(this.config, "request"),
+    );
+
+    // Pass the raw string to the parser, not the serialized object
+    const graphqlOperations =
+      this.config?.enableGraphQL && isGraphQLRequest(url, requestBody)
+        ? parseGraphQLOperations(url, requestBody?.raw)
+        : [];
+
+    // Batched operations are sent as child events, so the parent only carries the count
+    const graphqlData: NetworkRequest["graphql"] =
+      graphqlOperations.length > 1
+        ? { batchSize: graphqlOperations.length }
+        : graphqlOperations[0];
+
+    let requestEvent: LimelightMessage = {
+      id: requestId,
+      sessionId: this.getSessionId(),
+      timestamp: startTime,
+      phase: NetworkPhase.REQUEST,
+      networkType: NetworkType.FETCH,
+      url,
+      method: method,
+      headers: redactSensitiveHeaders(headers),
+      body: requestBody,
+      name: formatRequestName(url),
+      initiator: getInitiator(),
+      requestSize: requestBody?.size ?? 0,
+      graphql: graphqlData,
+      ...(replayOf && { replayOf }),
+    };
 
-      modifiedInit.headers = new Headers(headers);
+    const matchable = {
+      url,
+      method,
+      operationName: graphqlData?.operationName,
+    };
 
-      let requestBodyToSerialize = init.body;
+    const mockRule = this.mockEngine.match(matchable);
 
-      if (input instanceof Request && !requestBodyToSerialize) {
-        try {
-          const clonedRequest = input.clone();
-          const contentType = clonedRequest.headers.get("content-type") || "";
+    const requestSize = requestBody?.size ?? 0;
+    const reachesNetwork = !mockRule || this.mockEngine.isPassthrough(mockRule);
 
-          if (
-            contentType.includes("application/json") ||
-            contentType.includes("text/")
-          ) {
-            requestBodyToSerialize = await clonedRequest.text();
-          } else {
-            requestBodyToSerialize = await clonedRequest.blob();
-          }
-        } catch {
-          requestBodyToSerialize = undefined;
+    let fetchInput = input;
+
+    const performFetch = () =>
+      mockRule
+        ? this.fetchWithMock(mockRule, fetchInput, modifiedInit, requestSize)
+        : this.fetchOverNetwork(fetchInput, modifiedInit, requestSize);
+
+    if (this.config?.beforeSend) {
+      const modifiedEvent = this.config.beforeSend(requestEvent);
+
+      if (!modifiedEvent) {
+        return performFetch();
+      }
+
+      if (modifiedEvent.phase !== NetworkPhase.REQUEST) {
+        // always log an error if beforeSend returns wrong type
+        console.error("[Limelight] beforeSend must return same event type");
+        return performFetch();
+      }
+
+      requestEvent = modifiedEvent;
+    }
+
+    this.sendMessage(requestEvent);
+
+    if (graphqlOperations.length > 1) {
+      this.sendOperationEvents(
+        createGraphQLOperationRequests(requestEvent, graphqlOperations),
+      );
+    }
+
+    const requestBreakpoint = this.breakpoints.match(matchable, "request");
+
+    if (requestBreakpoint) {
+      const edits = await this.breakpoints.pause(requestBreakpoint, "request", {
+        id: requestId,
+        networkType: NetworkType.FETCH,
+        url,
+        method,
+        headers,
+        body: requestBody,
+      });
+
+      if (edits) {
+        fetchInput = this.applyRequestEdits(
+          fetchInput,
+          modifiedInit,
+          headers,
+          edits,
+        );
+      }
+    }
 
-          if (self.config?.enableInternalLogging) {
-            console.warn(
-              "[Limelight] Failed to read request body from Request object",
-            );
+    try {
+      let response = await performFetch();
+      const clone = response.clone();
+      let endTime = Date.now();
+      const headersReceivedAt = endTime;
+      let responseHeaders: Record<string, string> = {};
+
+      response.headers.forEach((value, key) => {
+        responseHeaders[key] = value;
+      });
+
+      // Streams may never finish, so their bodies are read in the background
+      if (
+        clone.body &&
+        typeof TextDecoder !== "undefined" &&
+        isStreamingResponse(responseHeaders)
+      ) {
+        this.captureStream(clone, {
+          requestId,
+          url,
+          startTime,
+          startMark,
+          headersReceivedAt,
+          responseHeaders,
+          replayOf,
+          mockRule,
+          reachesNetwork,
+          captureBody,
+        }).catch((error) => {
+          if (this.config?.enableInternalLogging) {
+            console.error("[Limelight] Failed to capture stream:", error);
           }
+        });
+
+        return response;
+      }
+
+      const contentType = responseHeaders["content-type"];
+      let responseText: string | undefined;
+      let responseBytes: ArrayBuffer | undefined;
+
+      try {
+        if (isBinaryContentType(contentType)) {
+          responseBytes = await clone.arrayBuffer();
+        } else {
+          responseText = await clone.text();
         }
+      } catch (cloneError) {
+        responseText = undefined;
       }
 
-      const requestBody = serializeBody(
-        requestBodyToSerialize,
-        self.config?.disableBodyCapture,
-      );
+      // Mocked responses are already under the desktop's control
+      const responseBreakpoint = mockRule
+        ? null
+        : this.breakpoints.match(matchable, "response");
+
+      if (responseBreakpoint) {
+        const edits = await this.breakpoints.pause(
+          responseBreakpoint,
+          "response",
+          {
+            id: requestId,
+            networkType: NetworkType.FETCH,
+            url,
+            method,
+            headers: responseHeaders,
+            body: serializeBody(
+              responseBytes ?? responseText,
+              !captureBody,
+              contentType,
+              getMaxBodyBytes(this.config, "response"),
+            ),
+            status: response.status,
+            statusText: response.statusText,
+          },
+        );
 
-      let graphqlData: NetworkRequest["graphql"] = undefined;
+        if (edits) {
+          responseHeaders = edits.headers
+            ? restoreRedactedHeaders(responseHeaders, edits.headers)
+            : responseHeaders;
+          if (edits.body !== undefined) {
+            responseText = edits.body;
+            responseBytes = undefined;
+          }
 
-      if (self.config?.enableGraphQL && isGraphQLRequest(url, requestBody)) {
-        // Pass the raw string to the parser, not the serialized object
-        const rawBody = requestBody?.raw;
-        if (rawBody) {
-          graphqlData = parseGraphQL(rawBody) ?? undefined;
+          const status = edits.status ?? response.status;
+
+          response = new Response(
+            NULL_BODY_STATUSES.includes(status)
+              ? null
+              : (responseBytes ?? responseText ?? null),
+            {
+              status,
+              statusText: edits.statusText ?? response.statusText,
+              headers: responseHeaders,
+            },
+          );
         }
+
+        endTime = Date.now();
       }
 
-      let requestEvent: LimelightMessage = {
+      const responseBody = serializeBody(
+        responseBytes ?? responseText,
+        !captureBody,
+        contentType,
+        getMaxBodyBytes(this.config, "response"),
+      );
+
+      if (reachesNetwork && this.networkConditioner.getConditions()) {
+        await this.networkConditioner.throttleResponse(responseBody?.size ?? 0);
+        endTime = Date.now();
+      }
+
+      const graphqlResult = graphqlData
+        ? analyzeGraphQLResponse(responseText)
+        : null;
+
+      let responseEvent: LimelightMessage = {
         id: requestId,
-        sessionId: self.getSessionId(),
-        timestamp: startTime,
-        phase: NetworkPhase.REQUEST,
+        sessionId: this.getSessionId(),
+        timestamp: endTime,
+        phase: NetworkPhase.RESPONSE,
         networkType: NetworkType.FETCH,
-        url,
-        method: method,
-        headers: redactSensitiveHeaders(headers),
-        body: requestBody,
-        name: formatRequestName(url),
-        initiator: getInitiator(),
-        requestSize: requestBody?.size ?? 0,
-        graphql: graphqlData,
+        status: response.status,
+        statusText: response.statusText,
+        headers: redactSensitiveHeaders(responseHeaders),
+        body: responseBody,
+        duration: endTime - startTime,
+        responseSize: responseBody?.size ?? 0,
+        redirected: response.redirected,
+        ok: response.ok && !graphqlResult?.errors,
+        timing: {
+          ...getResourceTiming(url, startMark, reachesNetwork),
+          headers: headersReceivedAt - startTime,
+          total: endTime - startTime,
+        },
+        ...(graphqlResult && { graphqlResult }),
+        ...(replayOf && { replayOf }),
+        ...this.mockEngine.getEventFlags(mockRule),
+        ...(reachesNetwork && this.networkConditioner.getEventFlags()),
       };
 
-      if (self.config?.beforeSend) {
-        const modifiedEvent = self.config.beforeSend(requestEvent);
+      if (this.config?.beforeSend) {
+        const modifiedEvent = this.config.beforeSend(responseEvent);
 
         if (!modifiedEvent) {
-          return self.originalFetch(input, modifiedInit);
+          return response;
         }
 
-        if (modifiedEvent.phase !== NetworkPhase.REQUEST) {
+        if (modifiedEvent.phase !== NetworkPhase.RESPONSE) {
           // always log an error if beforeSend returns wrong type
           console.error("[Limelight] beforeSend must return same event type");
-          return self.originalFetch(input, modifiedInit);
+          return response;
         }
 
-        requestEvent = modifiedEvent;
+        responseEvent = modifiedEvent;
       }
 
-      self.sendMessage(requestEvent);
+      this.sendMessage(responseEvent);
 
-      try {
-        const response = await self.originalFetch(input, modifiedInit);
-        const clone = response.clone();
-        const endTime = Date.now();
-        const duration = endTime - startTime;
-        const responseHeaders: Record<string, string> = {};
-
-        response.headers.forEach((value, key) => {
-          responseHeaders[key] = value;
-        });
+      if (graphqlOperations.length > 1) {
+        this.sendOperationEvents(
+          createGraphQLOperationResponses(
+            responseEvent,
+            graphqlOperations.length,
+          ),
+        );
+      }
+
+      return response;
+    } catch (err) {
+      this.sendError(err, requestId, replayOf, mockRule, reachesNetwork);
+      throw err;
+    }
+  }
 
-        let responseText: string | undefined;
+  /**
+   * Reads a streaming response body as it arrives, sending a RESPONSE_CHUNK for
+   * each piece and the RESPONSE once the stream closes. Only the first
+   * MAX_CAPTURED_BYTES are captured; later chunks are sent without their data.
+   * Response breakpoints and throttling do not apply to streams.
+   * @private
+   * @param {Response} clone - A clone of the response handed to the app
+   * @param {StreamCaptureContext} context - Details of the request
+   * @returns {Promise<void>} Resolves once the stream has closed or failed
+   */
+  private async captureStream(
+    clone: Response,
+    context: StreamCaptureContext,
+  ): Promise<void> {
+    const { requestId, startTime, replayOf, mockRule, reachesNetwork } =
+      context;
+    const reader = clone.body!.getReader();
+    const decoder = new TextDecoder();
+
+    let captured = "";
+    let capturedBytes = 0;
+    let totalBytes = 0;
+    let chunkCount = 0;
+    let truncated = false;
+    let lastChunkAt = context.headersReceivedAt;
+    let firstChunkAt: number | undefined;
+
+    try {
+      while (true) {
+        const { done, value } = await reader.read();
+
+        if (done) break;
+
+        const now = Date.now();
+        totalBytes += value.byteLength;
+        chunkCount++;
+
+        if (firstChunkAt === undefined) {
+          firstChunkAt = now;
+        }
 
-        try {
-          responseText = await clone.text();
-        } catch (cloneError) {
-          responseText = undefined;
+        if (
+          capturedBytes + value.byteLength >
+          STREAMING_DEFAULTS.MAX_CAPTURED_BYTES
+        ) {
+          truncated = true;
         }
 
-        const responseBody = serializeBody(
-          responseText,
-          self.config?.disableBodyCapture,
-        );
+        let text: string | undefined;
+
+        if (!truncated) {
+          text = decoder.decode(value, { stream: true });
+          captured += text;
+          capturedBytes += value.byteLength;
+        }
 
-        let responseEvent: LimelightMessage = {
+        let chunkEvent: LimelightMessage = {
           id: requestId,
-          sessionId: self.getSessionId(),
-          timestamp: endTime,
-          phase: NetworkPhase.RESPONSE,
+          sessionId: this.getSessionId(),
+          timestamp: now,
+          phase: NetworkPhase.RESPONSE_CHUNK,
           networkType: NetworkType.FETCH,
-          status: response.status,
-          statusText: response.statusText,
-          headers: redactSensitiveHeaders(responseHeaders),
-          body: responseBody,
-          duration,
-          responseSize: responseBody?.size ?? 0,
-          redirected: response.redirected,
-          ok: response.ok,
+          index: chunkCount - 1,
+          ...(context.captureBody && text !== undefined && { data: text }),
+          ...(truncated && { truncated }),
+          size: value.byteLength,
+          elapsed: now - startTime,
+          sinceLastChunk: now - lastChunkAt,
+          ...(replayOf && { replayOf }),
         };
+        lastChunkAt = now;
 
-        if (self.config?.beforeSend) {
-          const modifiedEvent = self.config.beforeSend(responseEvent);
+        if (this.config?.beforeSend) {
+          const modifiedEvent = this.config.beforeSend(chunkEvent);
 
-          if (!modifiedEvent) {
-            return response;
-          }
+          if (!modifiedEvent) continue;
 
-          if (modifiedEvent.phase !== NetworkPhase.RESPONSE) {
+          if (modifiedEvent.phase !== NetworkPhase.RESPONSE_CHUNK) {
             // always log an error if beforeSend returns wrong type
             console.error("[Limelight] beforeSend must return same event type");
-            return response;
+            continue;
           }
 
-          responseEvent = modifiedEvent;
+          chunkEvent = modifiedEvent;
         }
 
-        self.sendMessage(responseEvent);
-        return response;
-      } catch (err) {
-        const isAbort =
-          err instanceof Error &&
-          (err.name === "AbortError" || err.message.includes("aborted"));
+        this.sendMessage(chunkEvent);
+      }
+    } catch (err) {
+      this.sendError(err, requestId, replayOf, mockRule, reachesNetwork);
+      return;
+    }
 
-        const errorMessage = err instanceof Error ? err.message : String(err);
-        const errorStack = err instanceof Error ? err.stack : undefined;
+    if (!truncated) {
+      captured += decoder.decode();
+    }
 
-        let errorEvent: NetworkErrorEvent = {
-          id: requestId,
-          sessionId: self.getSessionId(),
-          timestamp: Date.now(),
-          phase: isAbort ? NetworkPhase.ABORT : NetworkPhase.ERROR,
-          networkType: NetworkType.FETCH,
-          errorMessage: isAbort ? "Request aborted" : errorMessage,
-          stack: errorStack,
-        };
+    const endTime = Date.now();
+    const responseBody = serializeBody(
+      captured,
+      !context.captureBody,
+      context.responseHeaders["content-type"],
+      getMaxBodyBytes(this.config, "response"),
+    );
+
+    let responseEvent: LimelightMessage = {
+      id: requestId,
+      sessionId: this.getSessionId(),
+      timestamp: endTime,
+      phase: NetworkPhase.RESPONSE,
+      networkType: NetworkType.FETCH,
+      status: clone.status,
+      statusText: clone.statusText,
+      headers: redactSensitiveHeaders(context.responseHeaders),
+      body: responseBody,
+      duration: endTime - startTime,
+      responseSize: totalBytes,
+      redirected: clone.redirected,
+      ok: clone.ok,
+      timing: {
+        ...getResourceTiming(
+          context.url,
+          context.startMark,
+          context.reachesNetwork,
+        ),
+        headers: context.headersReceivedAt - startTime,
+        ...(firstChunkAt !== undefined && {
+          firstByte: firstChunkAt - startTime,
+        }),
+        total: endTime - startTime,
+      },
+      streamed: true,
+      chunkCount,
+      ...(truncated && { truncated }),
+      ...(replayOf && { replayOf }),
+      ...this.mockEngine.getEventFlags(mockRule),
+      ...(reachesNetwork && this.networkConditioner.getEventFlags()),
+    };
 
-        if (self.config?.beforeSend) {
-          const modifiedEvent = self.config.beforeSend(errorEvent);
+    if (this.config?.beforeSend) {
+      const modifiedEvent = this.config.beforeSend(responseEvent);
 
-          if (
-            modifiedEvent &&
-            (modifiedEvent.phase === NetworkPhase.ERROR ||
-              modifiedEvent.phase === NetworkPhase.ABORT)
-          ) {
-            errorEvent = modifiedEvent;
-          }
-        }
+      if (!modifiedEvent) return;
 
-        self.sendMessage(errorEvent);
-        throw err;
+      if (modifiedEvent.phase !== NetworkPhase.RESPONSE) {
+        // always log an error if beforeSend returns wrong type
+        console.error("[Limelight] beforeSend must return same event type");
+        return;
       }
+
+      responseEvent = modifiedEvent;
+    }
+
+    this.sendMessage(responseEvent);
+  }
+
+  /**
+   * Sends the child events of a batched GraphQL request, each passed through beforeSend.
+   * @private
+   * @param {(GraphQLRequest | GraphQLResponse)[]} events - One event per operation
+   */
+  private sendOperationEvents(events: (GraphQLRequest | GraphQLResponse)[]) {
+    for (const event of events) {
+      const modifiedEvent = this.config?.beforeSend
+        ? this.config.beforeSend(event)
+        : event;
+
+      if (!modifiedEvent) {
+        continue;
+      }
+
+      if (modifiedEvent.phase !== event.phase) {
+        // always log an error if beforeSend returns wrong type
+        console.error("[Limelight] beforeSend must return same event type");
+        continue;
+      }
+
+      this.sendMessage(modifiedEvent);
+    }
+  }
+
+  /**
+   * Sends an ERROR or ABORT event for a failed fetch.
+   * @private
+   * @param {unknown} err - The error the fetch or body stream failed with
+   * @param {string} requestId - The request ID
+   * @param {string} [replayOf] - ID of the original request when replaying
+   * @param {MockRule | null} mockRule - The mock rule that handled the request
+   * @param {boolean} reachesNetwork - Whether the request went over the network
+   * @returns {void}
+   */
+  private sendError(
+    err: unknown,
+    requestId: string,
+    replayOf: string | undefined,
+    mockRule: MockRule | null,
+    reachesNetwork: boolean,
+  ) {
+    const isAbort =
+      err instanceof Error &&
+      (err.name === "AbortError" || err.message.includes("aborted"));
+
+    const errorMessage = err instanceof Error ? err.message : String(err);
+    const errorStack = err instanceof Error ? err.stack : undefined;
+
+    let errorEvent: NetworkErrorEvent = {
+      id: requestId,
+      sessionId: this.getSessionId(),
+      timestamp: Date.now(),
+      phase: isAbort ? NetworkPhase.ABORT : NetworkPhase.ERROR,
+      networkType: NetworkType.FETCH,
+      errorMessage: isAbort ? "Request aborted" : errorMessage,
+      stack: errorStack,
+      ...(replayOf && { replayOf }),
+      ...this.mockEngine.getEventFlags(mockRule),
+      ...(reachesNetwork && this.networkConditioner.getEventFlags()),
     };
+
+    if (this.config?.beforeSend) {
+      const modifiedEvent = this.config.beforeSend(errorEvent);
+
+      if (
+        modifiedEvent &&
+        (modifiedEvent.phase === NetworkPhase.ERROR ||
+          modifiedEvent.phase === NetworkPhase.ABORT)
+      ) {
+        errorEvent = modifiedEvent;
+      }
+    }
+
+    this.sendMessage(errorEvent);
+  }
+
+  /**
+   * Applies breakpoint edits to a paused request before it is sent.
+   * Redacted header values sent to the desktop are restored from the originals.
+   * @private
+   * @param {string | Request | URL} input - The fetch input
+   * @param {RequestInit} init - The fetch init options, updated in place
+   * @param {Record<string, string>} headers - The unredacted request headers
+   * @param {BreakpointEdits} edits - Edits from the desktop
+   * @returns {string | Request | URL} The fetch input to send
+   */
+  private applyRequestEdits(
+    input: string | Request | URL,
+    init: RequestInit,
+    headers: Record<string, string>,
+    edits: BreakpointEdits,
+  ): string | Request | URL {
+    if (edits.method) {
+      init.method = edits.method;
+    }
+
+    if (edits.headers) {
+      init.headers = new Headers({
+        ...restoreRedactedHeaders(headers, edits.headers),
+        "x-limelight-intercepted": "fetch",
+      });
+    }
+
+    if (edits.body !== undefined) {
+      init.body = edits.body;
+    }
+
+    if (!edits.url) return input;
+
+    return input instanceof Request ? new Request(edits.url, input) : edits.url;
+  }
+
+  /**
+   * Sends a request through the original fetch under the active network profile.
+   * @private
+   * @param {string | Request | URL} input - The fetch input
+   * @param {RequestInit} init - The fetch init options
+   * @param {number} requestSize - Outbound payload size in bytes
+   * @returns {Promise<Response>} The real response
+   */
+  private async fetchOverNetwork(
+    input: string | Request | URL,
+    init: RequestInit,
+    requestSize: number,
+  ): Promise<Response> {
+    await this.networkConditioner.throttleRequest(requestSize);
+
+    return this.originalFetch(input, init);
+  }
+
+  /**
+   * Resolves a request according to a mock rule instead of the network.
+   * Latency-only rules still forward the request to the original fetch.
+   * @private
+   * @param {MockRule} rule - The matching mock rule
+   * @param {string | Request | URL} input - The fetch input
+   * @param {RequestInit} init - The fetch init options
+   * @param {number} requestSize - Outbound payload size in bytes
+   * @returns {Promise<Response>} The mocked or real response
+   */
+  private async fetchWithMock(
+    rule: MockRule,
+    input: string | Request | URL,
+    init: RequestInit,
+    requestSize: number,
+  ): Promise<Response> {
+    await wait(rule.delay);
+
+    if (rule.abort) {
+      const abortError = new Error("The operation was aborted.");
+      abortError.name = "AbortError";
+      throw abortError;
+    }
+
+    if (rule.error) {
+      throw new TypeError(rule.error);
+    }
+
+    if (!rule.response) {
+      return this.fetchOverNetwork(input, init, requestSize);
+    }
+
+    const mock = normalizeMockResponse(rule.response);
+
+    return new Response(
+      NULL_BODY_STATUSES.includes(mock.status) ? null : mock.body || null,
+      {
+        status: mock.status,
+        statusText: mock.statusText,
+        headers: mock.headers,
+      },
+    );
+  }
+
+  /**
+   * Checks whether a request can be replayed by this interceptor.
+   * @param {string} requestId - ID of a previously captured request
+   * @returns {boolean} True if the request was captured by this interceptor
+   */
+  canReplay(requestId: string): boolean {
+    return this.replayableRequests.has(requestId);
+  }
+
+  /**
+   * Re-issues a captured fetch request through the original fetch.
+   * The replay emits its own request and response events linked by replayOf.
+   * @param {string} [requestId] - ID of a previously captured request
+   * @param {ReplayRequestOverrides} [overrides] - Edited fields from the desktop
+   * @returns {boolean} True if the replay was started
+   */
+  replay(requestId?: string, overrides?: ReplayRequestOverrides): boolean {
+    if (!this.isSetup) return false;
+
+    const captured = requestId
+      ? this.replayableRequests.get(requestId)
+      : undefined;
+
+    if (requestId && !captured) return false;
+
+    const request = mergeReplayRequest(captured, overrides);
+
+    if (!request) return false;
+
+    this.interceptFetch(
+      request.url,
+      { method: request.method, headers: request.headers, body: request.body },
+      requestId ?? overrides?.id,
+    ).catch((error) => {
+      if (this.config?.enableInternalLogging) {
+        console.warn("[Limelight] Replayed request failed:", error);
+      }
+    });
+
+    return true;
+  }
+
+  /**
+   * Stores a request for later replay, evicting the oldest when full.
+   * @private
+   * @param {string} requestId - ID of the captured request
+   * @param {ReplayableRequest} request - The request as sent by the app
+   * @returns {void}
+   */
+  private rememberRequest(requestId: string, request: ReplayableRequest) {
+    this.replayableRequests.set(requestId, request);
+
+    if (this.replayableRequests.size > MAX_REPLAYABLE_REQUESTS) {
+      const oldest = this.replayableRequests.keys().next().value;
+      if (oldest !== undefined) this.replayableRequests.delete(oldest);
+    }
   }
 
   /**
@@ -268,5 +895,6 @@ export class NetworkInterceptor {
     this.isSetup = false;
 
     global.fetch = this.originalFetch;
+    this.replayableRequests.clear();
   }
 }
@@ -0,0 +1,347 @@
+import {
+  LimelightConfig,
+  LimelightMessage,
+  WebSocketEvent,
+  WebSocketFrameEvent,
+  WebSocketGraphQLMessage,
+  WebSocketPhase,
+} from "@/types";
+import {
+  getByteSize,
+  getMaxBodyBytes,
+  parseGraphQL,
+  parseGraphQLWebSocketMessage,
+  serializeBody,
+  shouldCaptureBody,
+} from "@/helpers";
+import { generateRequestId } from "@/protocol";
+import { GRAPHQL_WS_PROTOCOLS } from "@/constants";
+
+interface TrackedSocket {
+  connectionId: string;
+  url: string;
+  requestedProtocols: string[];
+  createdAt: number;
+  captureBody: boolean; // decided once per socket, like once per request
+  operations: Map<string, Omit<WebSocketGraphQLMessage, "type" | "id">>;
+}
+
+export class WebSocketInterceptor {
+  private OriginalWebSocket: typeof WebSocket | null = null;
+  private originalSend: WebSocket["send"] | null = null;
+  private wrappedWebSocket: typeof WebSocket | null = null;
+  private sockets = new WeakMap<WebSocket, TrackedSocket>();
+
+  private config: LimelightConfig | null = null;
+  private isSetup = false;
+
+  constructor(
+    private sendMessage: (message: LimelightMessage) => void,
+    private getSessionId: () => string,
+  ) {
+    // No-op
+  }
+
+  /**
+   * Sets up WebSocket interception by wrapping the global WebSocket constructor
+   * and send(). Limelight's own connection to serverUrl is left untracked.
+   * @param {LimelightConfig} config - Configuration object for Limelight
+   * @returns {void}
+   */
+  setup(config: LimelightConfig) {
+    if (this.isSetup) {
+      if (this.config?.enableInternalLogging) {
+        console.warn("[Limelight] WebSocket interceptor already set up");
+      }
+
+      return;
+    }
+
+    if (typeof WebSocket === "undefined") return;
+
+    this.isSetup = true;
+    this.config = config;
+
+    const self = this;
+    const OriginalWebSocket = WebSocket;
+    const originalSend = OriginalWebSocket.prototype.send;
+
+    this.OriginalWebSocket = OriginalWebSocket;
+    this.originalSend = originalSend;
+
+    const LimelightWebSocket = function (
+      url: string | URL,
+      protocols?: string | string[],
+    ) {
+      const ws =
+        protocols === undefined
+          ? new OriginalWebSocket(url)
+          : new OriginalWebSocket(url, protocols);
+
+      if (String(url) !== self.config?.serverUrl) {
+        self.track(ws, String(url), protocols);
+      }
+
+      return ws;
+    } as unknown as typeof WebSocket;
+
+    // Keep instanceof checks and the readyState constants working
+    LimelightWebSocket.prototype = OriginalWebSocket.prototype;
+    Object.assign(LimelightWebSocket, {
+      CONNECTING: OriginalWebSocket.CONNECTING,
+      OPEN: OriginalWebSocket.OPEN,
+      CLOSING: OriginalWebSocket.CLOSING,
+      CLOSED: OriginalWebSocket.CLOSED,
+    });
+
+    OriginalWebSocket.prototype.send = function (
+      this: WebSocket,
+      data: Parameters<WebSocket["send"]>[0],
+    ) {
+      const socket = self.sockets.get(this);
+
+      if (socket) {
+        self.sendFrame(socket, WebSocketPhase.SEND, data);
+      }
+
+      return originalSend.call(this, data);
+    };
+
+    this.wrappedWebSocket = LimelightWebSocket;
+    global.WebSocket = LimelightWebSocket;
+  }
+
+  /**
+   * Starts reporting events for a socket created by the app.
+   * @private
+   * @param {WebSocket} ws - The new socket
+   * @param {string} url - The URL it connects to
+   * @param {string | string[]} [protocols] - Requested subprotocols
+   * @returns {void}
+   */
+  private track(ws: WebSocket, url: string, protocols?: string | string[]) {
+    const socket: TrackedSocket = {
+      connectionId: generateRequestId(),
+      url,
+      requestedProtocols:
+        protocols === undefined
+          ? []
+          : Array.isArray(protocols)
+            ? protocols
+            : [protocols],
+      createdAt: Date.now(),
+      captureBody: shouldCaptureBody(url, this.config),
+      operations: new Map(),
+    };
+
+    this.sockets.set(ws, socket);
+
+    ws.addEventListener("open", () => {
+      this.emit({
+        ...this.getBaseEvent(socket),
+        phase: WebSocketPhase.OPEN,
+        protocol: ws.protocol,
+        requestedProtocols: socket.requestedProtocols,
+        connectTime: Date.now() - socket.createdAt,
+      });
+    });
+
+    ws.addEventListener("message", (event: MessageEvent) => {
+      this.sendFrame(socket, WebSocketPhase.RECEIVE, event.data, ws.protocol);
+    });
+
+    ws.addEventListener("error", (event: Event) => {
+      this.emit({
+        ...this.getBaseEvent(socket),
+        phase: WebSocketPhase.ERROR,
+        errorMessage:
+          (event as Event & { message?: string }).message ?? "WebSocket error",
+      });
+    });
+
+    ws.addEventListener("close", (event: CloseEvent) => {
+      this.emit({
+        ...this.getBaseEvent(socket),
+        phase: WebSocketPhase.CLOSE,
+        code: event.code,
+        reason: event.reason,
+        wasClean: event.wasClean,
+        duration: Date.now() - socket.createdAt,
+      });
+    });
+  }
+
+  /**
+   * Sends a SEND or RECEIVE event for one frame.
+   * @private
+   * @param {TrackedSocket} socket - The socket the frame belongs to
+   * @param {WebSocketPhase.SEND | WebSocketPhase.RECEIVE} phase - The frame direction
+   * @param {unknown} data - The frame payload
+   * @param {string} [protocol] - The negotiated subprotocol
+   * @returns {void}
+   */
+  private sendFrame(
+    socket: TrackedSocket,
+    phase: WebSocketPhase.SEND | WebSocketPhase.RECEIVE,
+    data: unknown,
+    protocol?: string,
+  ) {
+    const isText = typeof data === "string";
+    const graphql = isText
+      ? this.decodeGraphQL(socket, data, protocol)
+      : undefined;
+
+    const event: WebSocketFrameEvent = {
+      ...this.getBaseEvent(socket),
+      phase,
+      ...(isText && {
+        data: serializeBody(
+          data,
+          !socket.captureBody,
+          undefined,
+          getMaxBodyBytes(
+            this.config,
+            phase === WebSocketPhase.SEND ? "request" : "response",
+          ),
+        ),
+      }),
+      binary: !isText,
+      size: this.getFrameSize(data),
+      ...(graphql && { graphql }),
+    };
+
+    this.emit(event);
+  }
+
+  /**
+   * Decodes a graphql-ws or subscriptions-transport-ws frame, remembering each
+   * operation's name so results can be labelled with it.
+   * @private
+   * @param {TrackedSocket} socket - The socket the frame belongs to
+   * @param {string} data - The frame text
+   * @param {string} [protocol] - The negotiated subprotocol
+   * @returns {WebSocketGraphQLMessage | undefined} The decoded message
+   */
+  private decodeGraphQL(
+    socket: TrackedSocket,
+    data: string,
+    protocol?: string,
+  ): WebSocketGraphQLMessage | undefined {
+    const protocols = protocol ? [protocol] : socket.requestedProtocols;
+
+    if (!protocols.some((p) => GRAPHQL_WS_PROTOCOLS.includes(p))) {
+      return undefined;
+    }
+
+    const message = parseGraphQLWebSocketMessage(data);
+
+    if (!message) return undefined;
+
+    const { type, id } = message;
+
+    if ((type === "subscribe" || type === "start") && id) {
+      const operation = parseGraphQL(message.payload);
+
+      socket.operations.set(id, {
+        operationName: operation?.operationName,
+        operationType: operation?.operationType,
+      });
+    }
+
+    const operation = id ? socket.operations.get(id) : undefined;
+
+    if ((type === "complete" || type === "stop") && id) {
+      socket.operations.delete(id);
+    }
+
+    return { type, ...(id && { id }), ...operation };
+  }
+
+  /**
+   * @private
+   * @param {unknown} data - A frame payload
+   * @returns {number} Its size in bytes
+   */
+  private getFrameSize(data: unknown): number {
+    if (typeof data === "string") return getByteSize(data);
+    if (typeof Blob !== "undefined" && data instanceof Blob) return data.size;
+    if (data instanceof ArrayBuffer) return data.byteLength;
+    if (ArrayBuffer.isView(data)) return data.byteLength;
+
+    return 0;
+  }
+
+  /**
+   * @private
+   * @param {TrackedSocket} socket - The socket an event belongs to
+   * @returns The fields every WebSocket event shares
+   */
+  private getBaseEvent(socket: TrackedSocket) {
+    return {
+      sessionId: this.getSessionId(),
+      timestamp: Date.now(),
+      connectionId: socket.connectionId,
+      url: socket.url,
+    };
+  }
+
+  /**
+   * Applies beforeSend and sends the event, unless the interceptor was cleaned up.
+   * @private
+   * @param {WebSocketEvent} event - The event to send
+   * @returns {void}
+   */
+  private emit(event: WebSocketEvent) {
+    // Sockets keep their listeners after cleanup
+    if (!this.isSetup) return;
+
+    let message: LimelightMessage = event;
+
+    if (this.config?.beforeSend) {
+      const modifiedEvent = this.config.beforeSend(event);
+
+      if (!modifiedEvent) return;
+
+      if (modifiedEvent.phase !== event.phase) {
+        // always log an error if beforeSend returns wrong type
+        console.error("[Limelight] beforeSend must return same event type");
+        return;
+      }
+
+      message = modifiedEvent;
+    }
+
+    this.sendMessage(message);
+  }
+
+  /**
+   * Restores the original WebSocket constructor and send().
+   * Sockets opened while set up stop reporting frames they send.
+   * @returns {void}
+   */
+  cleanup() {
+    if (!this.isSetup) {
+      if (this.config?.enableInternalLogging) {
+        console.warn("[Limelight] WebSocket interceptor not set up");
+      }
+
+      return;
+    }
+
+    this.isSetup = false;
+
+    if (this.OriginalWebSocket && this.originalSend) {
+      this.OriginalWebSocket.prototype.send = this.originalSend;
+
+      // Leave the global alone if something else replaced it since
+      if (global.WebSocket === this.wrappedWebSocket) {
+        global.WebSocket = this.OriginalWebSocket;
+      }
+    }
+
+    this.OriginalWebSocket = null;
+    this.originalSend = null;
+    this.wrappedWebSocket = null;
+    this.sockets = new WeakMap();
+  }
+}
@@ -1,18 +1,50 @@
 import {
+  BreakpointEdits,
+  BreakpointRule,
+  GraphQLRequest,
+  GraphQLResponse,
   LimelightConfig,
   LimelightMessage,
   HttpMethod,
+  MockRule,
+  NormalizedMockResponse,
   NetworkErrorEvent,
   NetworkPhase,
+  NetworkRequest,
+  NetworkTiming,
   NetworkType,
+  ReplayableRequest,
+  ReplayRequestOverrides,
 } from "@/types";
 import {
   redactSensitiveHeaders,
   serializeBody,
+  serializeBodyAsync,
   formatRequestName,
   getInitiator,
+  getMaxBodyBytes,
+  getHighResTime,
+  getResourceTiming,
+  isGraphQLRequest,
+  mergeReplayRequest,
+  normalizeMockResponse,
+  parseGraphQLOperations,
+  restoreRedactedHeaders,
+  shouldCaptureBody,
+  shouldIgnoreRequest,
+  wait,
+  encodeUtf8,
+  analyzeGraphQLResponse,
+  createGraphQLOperationRequests,
+  createGraphQLOperationResponses,
 } from "@/helpers";
 import { generateRequestId } from "@/protocol";
+import {
+  INTERNAL_REQUEST_HEADER,
+  MAX_REPLAYABLE_REQUESTS,
+  PROGRESS_EVENT_INTERVAL_MS,
+} from "@/constants";
+import { BreakpointManager, MockEngine, NetworkConditioner } from "../network";
 
 type XHROpenArgs = Parameters<typeof XMLHttpRequest.prototype.open>;
 
@@ -24,8 +56,12 @@ declare global {
       url: string;
       headers: Record<string, string>;
       startTime: number;
+      startMark?: number; // performance.now() at startTime
+      replayOf?: string;
       skipIntercept?: boolean;
+      captureBody?: boolean;
       listeners?: Map<string, EventListener>;
+      uploadListeners?: Map<string, EventListener>;
     };
   }
 }
@@ -37,10 +73,17 @@ export class XHRInterceptor {
 
   private isSetup = false;
   private config: LimelightConfig | null = null;
+  private replayableRequests = new Map<string, ReplayableRequest>();
 
   constructor(
     private sendMessage: (message: LimelightMessage) => void,
     private getSessionId: () => string,
+    private mockEngine: MockEngine = new MockEngine(),
+    private networkConditioner: NetworkConditioner = new NetworkConditioner(),
+    private breakpoints: BreakpointManager = new BreakpointManager(
+      sendMessage,
+      getSessionId,
+    ),
   ) {
     this.originalXHROpen = XMLHttpRequest.prototype.open;
     this.originalXHRSend = XMLHttpRequest.prototype.send;
@@ -75,6 +118,7 @@ export class XHRInterceptor {
         url,
         headers: {},
         startTime: Date.now(),
+        startMark: getHighResTime(),
         listeners: new Map(),
       };
 
@@ -92,8 +136,9 @@ export class XHRInterceptor {
         this._limelightData.headers[header] = value;
 
         if (
-          header.toLowerCase() === "x-limelight-intercepted" &&
-          value === "fetch"
+          (header.toLowerCase() === "x-limelight-intercepted" &&
+            value === "fetch") ||
+          header.toLowerCase() === INTERNAL_REQUEST_HEADER
         ) {
           this._limelightData.skipIntercept = true;
         }
@@ -105,16 +150,73 @@ export class XHRInterceptor {
     XMLHttpRequest.prototype.send = function (body) {
       const data = this._limelightData;
 
-      if (data?.skipIntercept) {
+      if (
+        data?.skipIntercept ||
+        (data &&
+          !data.replayOf &&
+          shouldIgnoreRequest(data.url, data.method, self.config, () =>
+            typeof body === "string" || !body
+              ? parseGraphQLOperations(data.url, body ?? undefined)[0]
+                  ?.operationName
+              : undefined,
+          ))
+      ) {
         return self.originalXHRSend.apply(this, arguments as any);
       }
 
+      const xhr = this;
+      const sendArgs = arguments as any;
+      let mockRule: MockRule | null = null;
+      let requestSize = 0;
+
+      const performSend = (args: any = sendArgs) =>
+        mockRule
+          ? self.sendWithMock(xhr, mockRule, args, requestSize)
+          : self.sendOverNetwork(xhr, args, requestSize);
+
       if (data) {
+        self.rememberRequest(data.id, {
+          url: data.url,
+          method: data.method,
+          headers: { ...data.headers },
+          body,
+        });
+
+        data.captureBody = shouldCaptureBody(data.url, self.config);
+
         const requestBody = serializeBody(
           body,
-          self.config?.disableBodyCapture,
+          !data.captureBody,
+          Object.entries(data.headers).find(
+            ([key]) => key.toLowerCase() === "content-type",
+          )?.[1],
+          getMaxBodyBytes(self.config, "request"),
         );
 
+        requestSize = requestBody?.size ?? 0;
+
+        const graphqlOperations =
+          self.config?.enableGraphQL && isGraphQLRequest(data.url, requestBody)
+            ? parseGraphQLOperations(data.url, requestBody?.raw)
+            : [];
+
+        // Batched operations are sent as child events, so the parent only carries the count
+        const graphqlData: NetworkRequest["graphql"] =
+          graphqlOperations.length > 1
+            ? { batchSize: graphqlOperations.length }
+            : graphqlOperations[0];
+
+        const matchable = {
+          url: data.url,
+          method: data.method,
+          operationName: graphqlData?.operationName,
+        };
+
+        mockRule = self.mockEngine.match(matchable);
+
+        const reachesNetwork =
+          !mockRule || self.mockEngine.isPassthrough(mockRule);
+
         let requestEvent: LimelightMessage = {
           id: data.id,
           sessionId: self.getSessionId(),
@@ -128,26 +230,40 @@ export class XHRInterceptor {
           name: formatRequestName(data.url),
           initiator: getInitiator(),
           requestSize: requestBody?.size ?? 0,
+          ...(this.timeout > 0 && { timeout: this.timeout }),
+          ...(this.responseType && { responseType: this.responseType }),
+          ...(this.withCredentials && { withCredentials: true }),
+          ...(graphqlData && { graphql: graphqlData }),
+          ...(data.replayOf && { replayOf: data.replayOf }),
         };
 
         if (self.config?.beforeSend) {
           const modifiedEvent = self.config.beforeSend(requestEvent);
 
           if (!modifiedEvent) {
-            return self.originalXHRSend.apply(this, arguments as any);
+            return performSend();
           }
 
           if (modifiedEvent.phase !== NetworkPhase.REQUEST) {
             // always log an error if beforeSend returns wrong type
             console.error("[Limelight] beforeSend must return same event type");
-            return self.originalXHRSend.apply(this, arguments as any);
+            return performSend();
           }
 
           requestEvent = modifiedEvent;
         }
 
         self.sendMessage(requestEvent);
+
+        if (graphqlOperations.length > 1) {
+          self.sendOperationEvents(
+            createGraphQLOperationRequests(requestEvent, graphqlOperations),
+          );
+        }
+
         let responseSent = false;
+        const timing: Omit<NetworkTiming, "total"> = {};
+        const lastProgressAt = { upload: 0, download: 0 };
 
         /**
          * Removes all event listeners and cleans up after request completion.
@@ -160,6 +276,13 @@ export class XHRInterceptor {
             data.listeners.clear();
           }
 
+          if (data.uploadListeners) {
+            data.uploadListeners.forEach((listener, event) => {
+              this.upload.removeEventListener(event, listener);
+            });
+            data.uploadListeners.clear();
+          }
+
           delete this._limelightData;
         };
 
@@ -167,7 +290,7 @@ export class XHRInterceptor {
          * Sends the response event.
          * Ensures response is only sent once using responseSent flag.
          */
-        const sendResponse = () => {
+        const sendResponse = async () => {
           if (responseSent) return;
           responseSent = true;
 
@@ -183,21 +306,32 @@ export class XHRInterceptor {
 
           if (responseType === "" || responseType === "text") {
             responseData = this.responseText;
-          } else if (
-            responseType === "blob" ||
-            responseType === "arraybuffer"
-          ) {
-            responseData = `[Binary Data: ${responseType}]`;
-          } else if (responseType === "json") {
-            responseData = this.response;
           } else {
             responseData = this.response;
           }
 
-          const responseBody = serializeBody(
-            responseData,
-            self.config?.disableBodyCapture,
-          );
+          const contentType =
+            this.getResponseHeader("content-type") ?? undefined;
+
+          // Reading a Blob is async; other responses are reported synchronously
+          const responseBody =
+            typeof Blob !== "undefined" && responseData instanceof Blob
+              ? await serializeBodyAsync(
+                  responseData,
+                  !data.captureBody,
+                  contentType,
+                  getMaxBodyBytes(self.config, "response"),
+                )
+              : serializeBody(
+                  responseData,
+                  !data.captureBody,
+                  contentType,
+                  getMaxBodyBytes(self.config, "response"),
+                );
+
+          const graphqlResult = graphqlData
+            ? analyzeGraphQLResponse(responseData)
+            : null;
 
           let responseEvent: LimelightMessage = {
             id: data.id,
@@ -212,7 +346,21 @@ export class XHRInterceptor {
             duration: duration,
             responseSize: responseBody?.size ?? 0,
             redirected: false,
-            ok: this.status >= 200 && this.status < 300,
+            ok:
+              this.status >= 200 && this.status < 300 && !graphqlResult?.errors,
+            timing: {
+              ...getResourceTiming(
+                data.url,
+                data.startMark,
+                !mockRule || self.mockEngine.isPassthrough(mockRule),
+              ),
+              ...timing,
+              total: duration,
+            },
+            ...(graphqlResult && { graphqlResult }),
+            ...(data.replayOf && { replayOf: data.replayOf }),
+            ...self.mockEngine.getEventFlags(mockRule),
+            ...(reachesNetwork && self.networkConditioner.getEventFlags()),
           };
 
           if (self.config?.beforeSend) {
@@ -234,6 +382,16 @@ export class XHRInterceptor {
           }
 
           self.sendMessage(responseEvent);
+
+          if (graphqlOperations.length > 1) {
+            self.sendOperationEvents(
+              createGraphQLOperationResponses(
+                responseEvent,
+                graphqlOperations.length,
+              ),
+            );
+          }
+
           cleanup.call(this);
         };
 
@@ -255,6 +413,9 @@ export class XHRInterceptor {
             phase: phase,
             networkType: NetworkType.XHR,
             errorMessage: errorMessage,
+            ...(data.replayOf && { replayOf: data.replayOf }),
+            ...self.mockEngine.getEventFlags(mockRule),
+            ...(reachesNetwork && self.networkConditioner.getEventFlags()),
           };
 
           if (self.config?.beforeSend) {
@@ -269,17 +430,102 @@ export class XHRInterceptor {
           cleanup.call(this);
         };
 
-        const readyStateChangeHandler = function (this: XMLHttpRequest) {
+        /**
+         * Sends a progress event, at most once per PROGRESS_EVENT_INTERVAL_MS
+         * for each direction. The event that completes a transfer is always sent.
+         */
+        const sendProgress = (
+          direction: "upload" | "download",
+          event: ProgressEvent,
+        ) => {
+          if (responseSent) return;
+
+          const now = Date.now();
+          const complete =
+            event.lengthComputable && event.loaded >= event.total;
+
           if (
-            (this.readyState === 3 || this.readyState === 4) &&
-            this.status !== 0
+            !complete &&
+            now - lastProgressAt[direction] < PROGRESS_EVENT_INTERVAL_MS
           ) {
-            sendResponse.call(this);
+            return;
           }
+
+          lastProgressAt[direction] = now;
+
+          let progressEvent: LimelightMessage = {
+            id: data.id,
+            sessionId: self.getSessionId(),
+            timestamp: now,
+            phase: NetworkPhase.PROGRESS,
+            networkType: NetworkType.XHR,
+            direction,
+            loaded: event.loaded,
+            ...(event.lengthComputable && { total: event.total }),
+            elapsed: now - data.startTime,
+            ...(data.replayOf && { replayOf: data.replayOf }),
+          };
+
+          if (self.config?.beforeSend) {
+            const modifiedEvent = self.config.beforeSend(progressEvent);
+
+            if (!modifiedEvent) {
+              return;
+            }
+
+            if (modifiedEvent.phase !== NetworkPhase.PROGRESS) {
+              // always log an error if beforeSend returns wrong type
+              console.error(
+                "[Limelight] beforeSend must return same event type",
+              );
+              return;
+            }
+
+            progressEvent = modifiedEvent;
+          }
+
+          self.sendMessage(progressEvent);
+        };
+
+        const sendResponseSafely = () => {
+          sendResponse().catch((error) => {
+            if (self.config?.enableInternalLogging) {
+              console.warn("[Limelight] Failed to send XHR response:", error);
+            }
+          });
+        };
+
+        const readyStateChangeHandler = function (this: XMLHttpRequest) {
+          const elapsed = Date.now() - data.startTime;
+
+          if (this.readyState === 2 && timing.headers === undefined) {
+            timing.headers = elapsed;
+          }
+
+          if (this.readyState === 3 && timing.firstByte === undefined) {
+            timing.firstByte = elapsed;
+          }
+
+          // Waiting for DONE keeps partial bodies out of the response event
+          if (this.readyState === 4 && this.status !== 0) {
+            sendResponseSafely();
+          }
+        };
+
+        const progressHandler = function (event: Event) {
+          sendProgress("download", event as ProgressEvent);
+        };
+
+        const uploadProgressHandler = function (event: Event) {
+          sendProgress("upload", event as ProgressEvent);
+        };
+
+        const uploadLoadHandler = function () {
+          timing.uploadEnd = Date.now() - data.startTime;
         };
 
         const loadHandler = function (this: XMLHttpRequest) {
-          sendResponse.call(this);
+          sendResponseSafely();
         };
 
         const errorHandler = function (this: XMLHttpRequest) {
@@ -293,7 +539,11 @@ export class XHRInterceptor {
         };
 
         const timeoutHandler = function (this: XMLHttpRequest) {
-          sendError("Request timeout");
+          sendError(
+            this.timeout > 0
+              ? `Request timeout after ${this.timeout}ms`
+              : "Request timeout",
+          );
           cleanup.call(this);
         };
 
@@ -307,6 +557,7 @@ export class XHRInterceptor {
         this.addEventListener("abort", abortHandler);
         this.addEventListener("timeout", timeoutHandler);
         this.addEventListener("loadend", loadEndHandler);
+        this.addEventListener("progress", progressHandler);
 
         data.listeners!.set("readystatechange", readyStateChangeHandler);
         data.listeners!.set("load", loadHandler);
@@ -314,12 +565,526 @@ export class XHRInterceptor {
         data.listeners!.set("abort", abortHandler);
         data.listeners!.set("timeout", timeoutHandler);
         data.listeners!.set("loadend", loadEndHandler);
+        data.listeners!.set("progress", progressHandler);
+
+        if (body != null && this.upload && self.canObserveUpload(data.url)) {
+          this.upload.addEventListener("progress", uploadProgressHandler);
+          this.upload.addEventListener("load", uploadLoadHandler);
+
+          data.uploadListeners = new Map([
+            ["progress", uploadProgressHandler],
+            ["load", uploadLoadHandler],
+          ]);
+        }
+
+        const requestBreakpoint = self.breakpoints.match(matchable, "request");
+        // Mocked responses are already under the desktop's control
+        const responseBreakpoint = mockRule
+          ? null
+          : self.breakpoints.match(matchable, "response");
+
+        if (requestBreakpoint || responseBreakpoint) {
+          self.sendWithBreakpoints(
+            xhr,
+            sendArgs,
+            requestSize,
+            requestBreakpoint,
+            responseBreakpoint,
+            performSend,
+          );
+          return;
+        }
       }
 
-      return self.originalXHRSend.apply(this, arguments as any);
+      return performSend();
     };
   }
 
+  /**
+   * Checks whether upload progress can be observed without changing the request.
+   * Browsers send a CORS preflight for cross-origin requests with upload
+   * listeners, so those are left alone. React Native has no such restriction.
+   * @private
+   * @param {string} url - The request URL
+   * @returns {boolean} True if upload listeners can be added
+   */
+  private canObserveUpload(url: string): boolean {
+    if (typeof location === "undefined" || !location.origin) {
+      return true;
+    }
+
+    try {
+      return new URL(url, location.href).origin === location.origin;
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Sends the child events of a batched GraphQL request, each passed through beforeSend.
+   * @private
+   * @param {(GraphQLRequest | GraphQLResponse)[]} events - One event per operation
+   */
+  private sendOperationEvents(events: (GraphQLRequest | GraphQLResponse)[]) {
+    for (const event of events) {
+      const modifiedEvent = this.config?.beforeSend
+        ? this.config.beforeSend(event)
+        : event;
+
+      if (!modifiedEvent) {
+        continue;
+      }
+
+      if (modifiedEvent.phase !== event.phase) {
+        // always log an error if beforeSend returns wrong type
+        console.error("[Limelight] beforeSend must return same event type");
+        continue;
+      }
+
+      this.sendMessage(modifiedEvent);
+    }
+  }
+
+  /**
+   * Settles an XHR according to a mock rule instead of sending it.
+   * Latency-only rules still send the request after the delay.
+   * @private
+   * @param {XMLHttpRequest} xhr - The request being sent
+   * @param {MockRule} rule - The matching mock rule
+   * @param {any} sendArgs - Arguments originally passed to send()
+   * @param {number} requestSize - Outbound payload size in bytes
+   * @returns {void}
+   */
+  private sendWithMock(
+    xhr: XMLHttpRequest,
+    rule: MockRule,
+    sendArgs: any,
+    requestSize: number,
+  ) {
+    wait(rule.delay)
+      .then(() => {
+        if (rule.abort) {
+          this.failXHR(xhr, "abort");
+        } else if (rule.error) {
+          this.failXHR(xhr, "error");
+        } else if (rule.response) {
+          this.fulfillXHR(xhr, normalizeMockResponse(rule.response));
+        } else {
+          this.sendOverNetwork(xhr, sendArgs, requestSize);
+        }
+      })
+      .catch(() => this.failXHR(xhr, "error"));
+  }
+
+  /**
+   * Sends an XHR under the active network profile. Latency, upload bandwidth
+   * and failures are simulated; download bandwidth is not, since the response
+   * is delivered to app code by the platform.
+   * @private
+   * @param {XMLHttpRequest} xhr - The request being sent
+   * @param {any} sendArgs - Arguments originally passed to send()
+   * @param {number} requestSize - Outbound payload size in bytes
+   * @returns {void}
+   */
+  private sendOverNetwork(
+    xhr: XMLHttpRequest,
+    sendArgs: any,
+    requestSize: number,
+  ) {
+    if (!this.networkConditioner.getConditions()) {
+      this.originalXHRSend.apply(xhr, sendArgs);
+      return;
+    }
+
+    this.networkConditioner.throttleRequest(requestSize).then(
+      () => this.originalXHRSend.apply(xhr, sendArgs),
+      () => this.failXHR(xhr, "error"),
+    );
+  }
+
+  /**
+   * Sends an XHR that matched a breakpoint, pausing before it is sent and/or
+   * before its response is delivered. For the response stage the request is
+   * made on an unintercepted shadow XHR, so the (possibly edited) response can
+   * be delivered to app code afterwards.
+   * @private
+   * @param {XMLHttpRequest} xhr - The request being sent
+   * @param {any} sendArgs - Arguments originally passed to send()
+   * @param {number} requestSize - Outbound payload size in bytes
+   * @param {BreakpointRule | null} requestBreakpoint - Rule pausing the request
+   * @param {BreakpointRule | null} responseBreakpoint - Rule pausing the response
+   * @param {(args: any) => void} performSend - Sends the request as usual
+   * @returns {Promise<void>} Never rejects; failures fail the XHR
+   */
+  private async sendWithBreakpoints(
+    xhr: XMLHttpRequest,
+    sendArgs: any,
+    requestSize: number,
+    requestBreakpoint: BreakpointRule | null,
+    responseBreakpoint: BreakpointRule | null,
+    performSend: (args: any) => void,
+  ) {
+    const data = xhr._limelightData;
+    if (!data) return;
+
+    try {
+      let args = sendArgs;
+
+      if (requestBreakpoint) {
+        const edits = await this.breakpoints.pause(
+          requestBreakpoint,
+          "request",
+          {
+            id: data.id,
+            networkType: NetworkType.XHR,
+            url: data.url,
+            method: data.method,
+            headers: data.headers,
+            body: serializeBody(
+              args[0],
+              !data.captureBody,
+              undefined,
+              getMaxBodyBytes(this.config, "request"),
+            ),
+          },
+        );
+
+        if (edits) {
+          args = this.applyRequestEdits(xhr, args, edits, !responseBreakpoint);
+        }
+      }
+
+      if (!responseBreakpoint) {
+        performSend(args);
+        return;
+      }
+
+      const response = await this.sendShadowXHR(xhr, args, requestSize);
+
+      if (!response) {
+        this.failXHR(xhr, "error");
+        return;
+      }
+
+      const edits = await this.breakpoints.pause(
+        responseBreakpoint,
+        "response",
+        {
+          id: data.id,
+          networkType: NetworkType.XHR,
+          url: data.url,
+          method: data.method,
+          headers: response.headers,
+          body: await serializeBodyAsync(
+            response.response,
+            !data.captureBody,
+            response.headers["content-type"],
+            getMaxBodyBytes(this.config, "response"),
+          ),
+          status: response.status,
+          statusText: response.statusText,
+        },
+      );
+
+      this.fulfillXHR(
+        xhr,
+        {
+          status: edits?.status ?? response.status,
+          statusText: edits?.statusText ?? response.statusText,
+          headers: edits?.headers
+            ? restoreRedactedHeaders(response.headers, edits.headers)
+            : response.headers,
+          body: edits?.body ?? response.body,
+        },
+        edits?.body === undefined ? response.response : undefined,
+      );
+    } catch (error) {
+      if (this.config?.enableInternalLogging) {
+        console.warn("[Limelight] XHR breakpoint failed:", error);
+      }
+
+      this.failXHR(xhr, "error");
+    }
+  }
+
+  /**
+   * Applies breakpoint edits to a paused XHR before it is sent.
+   * Redacted header values sent to the desktop are restored from the originals.
+   * @private
+   * @param {XMLHttpRequest} xhr - The paused request
+   * @param {any} sendArgs - Arguments originally passed to send()
+   * @param {BreakpointEdits} edits - Edits from the desktop
+   * @param {boolean} reopen - Whether to re-open the XHR with the edited target
+   * @returns {any} The arguments to pass to send()
+   */
+  private applyRequestEdits(
+    xhr: XMLHttpRequest,
+    sendArgs: any,
+    edits: BreakpointEdits,
+    reopen: boolean,
+  ): any {
+    const data = xhr._limelightData!;
+
+    data.url = edits.url ?? data.url;
+    data.method = edits.method ?? data.method;
+
+    if (edits.headers) {
+      data.headers = restoreRedactedHeaders(data.headers, edits.headers);
+    }
+
+    // Re-opening is the only way to change the target or drop headers
+    if (reopen && (edits.url || edits.method || edits.headers)) {
+      this.originalXHROpen.call(xhr, data.method, data.url, true);
+
+      Object.entries(data.headers).forEach(([key, value]) => {
+        this.originalXHRSetRequestHeader.call(xhr, key, value);
+      });
+    }
+
+    return edits.body !== undefined ? [edits.body] : sendArgs;
+  }
+
+  /**
+   * Performs an XHR's request on a separate, unintercepted XMLHttpRequest
+   * with the same responseType, so the original response value can be
+   * delivered unchanged.
+   * @private
+   * @param {XMLHttpRequest} xhr - The request whose target and headers to use
+   * @param {any} sendArgs - Arguments to pass to send()
+   * @param {number} requestSize - Outbound payload size in bytes
+   * @returns {Promise<(NormalizedMockResponse & { response: unknown }) | null>} The response with its raw value, or null on failure
+   */
+  private async sendShadowXHR(
+    xhr: XMLHttpRequest,
+    sendArgs: any,
+    requestSize: number,
+  ): Promise<(NormalizedMockResponse & { response: unknown }) | null> {
+    const data = xhr._limelightData!;
+    const shadow = new XMLHttpRequest();
+
+    this.originalXHROpen.call(shadow, data.method, data.url, true);
+
+    Object.entries(data.headers).forEach(([key, value]) => {
+      this.originalXHRSetRequestHeader.call(shadow, key, value);
+    });
+
+    shadow.timeout = xhr.timeout;
+    shadow.withCredentials = xhr.withCredentials;
+    shadow.responseType = xhr.responseType;
+
+    try {
+      await this.networkConditioner.throttleRequest(requestSize);
+    } catch {
+      return null;
+    }
+
+    return new Promise((resolve) => {
+      shadow.onload = () => {
+        const isText =
+          shadow.responseType === "" || shadow.responseType === "text";
+
+        resolve({
+          status: shadow.status,
+          statusText: shadow.statusText,
+          headers: this.parseResponseHeaders(shadow.getAllResponseHeaders()),
+          // responseText throws for other response types
+          body: isText ? shadow.responseText : "",
+          response: shadow.response,
+        });
+      };
+      shadow.onerror = () => resolve(null);
+      shadow.ontimeout = () => resolve(null);
+      shadow.onabort = () => resolve(null);
+
+      this.originalXHRSend.apply(shadow, sendArgs);
+    });
+  }
+
+  /**
+   * Completes an XHR with a synthetic response and fires the usual events,
+   * so app code sees it exactly like a network response.
+   * @private
+   * @param {XMLHttpRequest} xhr - The request to complete
+   * @param {NormalizedMockResponse} response - The response to deliver
+   * @param {unknown} [rawResponse] - A response value already in the XHR's responseType
+   * @returns {void}
+   */
+  private fulfillXHR(
+    xhr: XMLHttpRequest,
+    response: NormalizedMockResponse,
+    rawResponse?: unknown,
+  ) {
+    const responseType = xhr.responseType || "";
+    let responseValue: any = response.body;
+
+    if (rawResponse !== undefined) {
+      responseValue = rawResponse;
+    } else if (responseType === "json") {
+      try {
+        responseValue = response.body ? JSON.parse(response.body) : null;
+      } catch {
+        responseValue = null;
+      }
+    } else if (responseType === "arraybuffer") {
+      responseValue = encodeUtf8(response.body).buffer;
+    } else if (responseType === "blob" && typeof Blob !== "undefined") {
+      responseValue = new Blob([response.body], {
+        type: response.headers["content-type"] ?? "",
+      });
+    }
+
+    const headerString = Object.entries(response.headers)
+      .map(([key, value]) => `${key}: ${value}`)
+      .join("\r\n");
+
+    this.defineXHRState(xhr, {
+      readyState: 4,
+      status: response.status,
+      statusText: response.statusText,
+      response: responseValue,
+      responseText:
+        responseType === "" || responseType === "text" ? response.body : "",
+      responseURL: xhr._limelightData?.url ?? "",
+    });
+
+    xhr.getAllResponseHeaders = () => headerString;
+    xhr.getResponseHeader = (name: string) =>
+      response.headers[name.toLowerCase()] ?? null;
+
+    this.dispatchXHREvent(xhr, "readystatechange");
+    this.dispatchXHREvent(xhr, "load");
+    this.dispatchXHREvent(xhr, "loadend");
+  }
+
+  /**
+   * Fails an XHR without sending it and fires the matching events.
+   * @private
+   * @param {XMLHttpRequest} xhr - The request to fail
+   * @param {"error" | "abort" | "timeout"} type - The failure event to fire
+   * @returns {void}
+   */
+  private failXHR(xhr: XMLHttpRequest, type: "error" | "abort" | "timeout") {
+    this.defineXHRState(xhr, {
+      readyState: 4,
+      status: 0,
+      statusText: "",
+      response: null,
+      responseText: "",
+    });
+
+    this.dispatchXHREvent(xhr, "readystatechange");
+    this.dispatchXHREvent(xhr, type);
+    this.dispatchXHREvent(xhr, "loadend");
+  }
+
+  /**
+   * Shadows read-only XHR state with instance properties.
+   * @private
+   * @param {XMLHttpRequest} xhr - The request to update
+   * @param {Record<string, unknown>} state - Property values to expose
+   * @returns {void}
+   */
+  private defineXHRState(xhr: XMLHttpRequest, state: Record<string, unknown>) {
+    Object.entries(state).forEach(([key, value]) => {
+      Object.defineProperty(xhr, key, {
+        configurable: true,
+        get: () => value,
+      });
+    });
+  }
+
+  /**
+   * Dispatches an event on an XHR. Falls back to a plain event object on
+   * React Native, where the Event constructor may not exist.
+   * @private
+   * @param {XMLHttpRequest} xhr - The request to dispatch on
+   * @param {string} type - The event type
+   * @returns {void}
+   */
+  private dispatchXHREvent(xhr: XMLHttpRequest, type: string) {
+    const event =
+      typeof Event === "function" ? new Event(type) : ({ type } as Event);
+
+    try {
+      xhr.dispatchEvent(event);
+    } catch (error) {
+      if (this.config?.enableInternalLogging) {
+        console.warn(`[Limelight] Failed to dispatch XHR ${type}:`, error);
+      }
+    }
+  }
+
+  /**
+   * Checks whether a request can be replayed by this interceptor.
+   * @param {string} requestId - ID of a previously captured request
+   * @returns {boolean} True if the request was captured by this interceptor
+   */
+  canReplay(requestId: string): boolean {
+    return this.replayableRequests.has(requestId);
+  }
+
+  /**
+   * Re-issues a captured XHR request on a fresh XMLHttpRequest.
+   * The replay emits its own request and response events linked by replayOf.
+   * @param {string} [requestId] - ID of a previously captured request
+   * @param {ReplayRequestOverrides} [overrides] - Edited fields from the desktop
+   * @returns {boolean} True if the replay was started
+   */
+  replay(requestId?: string, overrides?: ReplayRequestOverrides): boolean {
+    if (!this.isSetup) return false;
+
+    const captured = requestId
+      ? this.replayableRequests.get(requestId)
+      : undefined;
+
+    if (requestId && !captured) return false;
+
+    const request = mergeReplayRequest(captured, overrides);
+
+    if (!request) return false;
+
+    try {
+      const xhr = new XMLHttpRequest();
+
+      xhr.open(request.method, request.url);
+
+      const replayOf = requestId ?? overrides?.id;
+      if (xhr._limelightData && replayOf) {
+        xhr._limelightData.replayOf = replayOf;
+      }
+
+      Object.entries(request.headers).forEach(([key, value]) => {
+        xhr.setRequestHeader(key, value);
+      });
+
+      xhr.send(request.body ?? null);
+    } catch (error) {
+      if (this.config?.enableInternalLogging) {
+        console.warn("[Limelight] Replayed request failed:", error);
+      }
+
+      return false;
+    }
+
+    return true;
+  }
+
+  /**
+   * Stores a request for later replay, evicting the oldest when full.
+   * @private
+   * @param {string} requestId - ID of the captured request
+   * @param {ReplayableRequest} request - The request as sent by the app
+   * @returns {void}
+   */
+  private rememberRequest(requestId: string, request: ReplayableRequest) {
+    this.replayableRequests.set(requestId, request);
+
+    if (this.replayableRequests.size > MAX_REPLAYABLE_REQUESTS) {
+      const oldest = this.replayableRequests.keys().next().value;
+      if (oldest !== undefined) this.replayableRequests.delete(oldest);
+    }
+  }
+
   /**
    * Parses raw HTTP header string into a key-value object.
    * @private
@@ -359,5 +1124,6 @@ export class XHRInterceptor {
     XMLHttpRequest.prototype.send = this.originalXHRSend;
     XMLHttpRequest.prototype.setRequestHeader =
       this.originalXHRSetRequestHeader;
+    this.replayableRequests.clear();
   }
 }
@@ -2,3 +2,5 @@ export * from "./ConsoleInterceptor";
 export * from "./NetworkInterceptor";
 export * from "./XHRInterceptor";
 export * from "./RenderInterceptor";
+export * from "./WebSocketInterceptor";
+export * from "./EventSourceInterceptor";
@@ -0,0 +1,142 @@
+import { AppLifecycleState, LimelightConfig, LimelightMessage } from "@/types";
+
+/**
+ * Reports foreground/background transitions, from React Native's AppState
+ * when provided in the config, otherwise from document visibility on web.
+ */
+export class AppStateObserver {
+  private isSetup = false;
+  private config: LimelightConfig | null = null;
+  private state: AppLifecycleState | null = null;
+  private removeSubscription: (() => void) | null = null;
+  private listeners = new Set<(state: AppLifecycleState) => void>();
+
+  constructor(
+    private sendMessage: (message: LimelightMessage) => void,
+    private getSessionId: () => string,
+  ) {
+    // No-op
+  }
+
+  /**
+   * Starts observing app state changes.
+   * @param {LimelightConfig} config - Configuration object for Limelight
+   * @returns {void}
+   */
+  setup(config: LimelightConfig) {
+    if (this.isSetup) {
+      if (this.config?.enableInternalLogging) {
+        console.warn("[Limelight] App state observer already set up");
+      }
+
+      return;
+    }
+
+    this.isSetup = true;
+    this.config = config;
+
+    const appState = config.appState;
+
+    if (appState) {
+      this.state = this.normalize(appState.currentState);
+
+      const subscription = appState.addEventListener("change", (next) =>
+        this.update(this.normalize(next)),
+      );
+
+      this.removeSubscription = () => subscription?.remove();
+      return;
+    }
+
+    if (
+      typeof document !== "undefined" &&
+      typeof document.addEventListener === "function"
+    ) {
+      const handleVisibilityChange = () =>
+        this.update(
+          document.visibilityState === "hidden" ? "background" : "foreground",
+        );
+
+      this.state =
+        document.visibilityState === "hidden" ? "background" : "foreground";
+
+      document.addEventListener("visibilitychange", handleVisibilityChange);
+
+      this.removeSubscription = () =>
+        document.removeEventListener(
+          "visibilitychange",
+          handleVisibilityChange,
+        );
+    }
+  }
+
+  /**
+   * The current app state, or null if it cannot be observed.
+   * @returns {AppLifecycleState | null}
+   */
+  getState(): AppLifecycleState | null {
+    return this.state;
+  }
+
+  /**
+   * Registers a listener for app state changes.
+   * @param {(state: AppLifecycleState) => void} listener - Called with the new state
+   * @returns {() => void} A function that removes the listener
+   */
+  onChange(listener: (state: AppLifecycleState) => void): () => void {
+    this.listeners.add(listener);
+
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Records a new app state and emits an APP_STATE event if it changed.
+   * @private
+   * @param {AppLifecycleState | null} next - The new state
+   * @returns {void}
+   */
+  private update(next: AppLifecycleState | null) {
+    if (!next || next === this.state) return;
+
+    const previousState = this.state;
+    this.state = next;
+
+    this.sendMessage({
+      phase: "APP_STATE",
+      sessionId: this.getSessionId(),
+      timestamp: Date.now(),
+      data: { state: next, previousState },
+    });
+
+    this.listeners.forEach((listener) => listener(next));
+  }
+
+  /**
+   * Maps React Native app states onto foreground/background.
+   * Transitional states such as iOS "inactive" are ignored.
+   * @private
+   * @param {string} state - A React Native AppState value
+   * @returns {AppLifecycleState | null}
+   */
+  private normalize(state: string): AppLifecycleState | null {
+    if (state === "active") return "foreground";
+    if (state === "background") return "background";
+
+    return null;
+  }
+
+  /**
+   * Stops observing app state changes.
+   * @returns {void}
+   */
+  cleanup() {
+    if (!this.isSetup) return;
+
+    this.isSetup = false;
+    this.removeSubscription?.();
+    this.removeSubscription = null;
+    this.state = null;
+  }
+}
@@ -0,0 +1,89 @@
+import { LimelightConfig } from "@/types";
+
+/**
+ * Notices when the device comes back online, from NetInfo when provided in
+ * the config, otherwise from the window "online" event on web.
+ */
+export class ConnectivityObserver {
+  private isSetup = false;
+  private config: LimelightConfig | null = null;
+  private removeSubscription: (() => void) | null = null;
+  private listeners = new Set<() => void>();
+
+  /**
+   * Starts observing connectivity changes.
+   * @param {LimelightConfig} config - Configuration object for Limelight
+   * @returns {void}
+   */
+  setup(config: LimelightConfig) {
+    if (this.isSetup) {
+      if (this.config?.enableInternalLogging) {
+        console.warn("[Limelight] Connectivity observer already set up");
+      }
+
+      return;
+    }
+
+    this.isSetup = true;
+    this.config = config;
+
+    if (config.netInfo) {
+      let wasConnected: boolean | null = null;
+
+      this.removeSubscription = config.netInfo.addEventListener((state) => {
+        if (state.isConnected && wasConnected === false) {
+          this.notify();
+        }
+
+        wasConnected = state.isConnected;
+      });
+      return;
+    }
+
+    if (
+      typeof window !== "undefined" &&
+      typeof window.addEventListener === "function"
+    ) {
+      const handleOnline = () => this.notify();
+
+      window.addEventListener("online", handleOnline);
+
+      this.removeSubscription = () =>
+        window.removeEventListener("online", handleOnline);
+    }
+  }
+
+  /**
+   * Registers a listener called when connectivity is regained.
+   * @param {() => void} listener - Called when the device is back online
+   * @returns {() => void} A function that removes the listener
+   */
+  onRegained(listener: () => void): () => void {
+    this.listeners.add(listener);
+
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Calls every listener.
+   * @private
+   * @returns {void}
+   */
+  private notify() {
+    this.listeners.forEach((listener) => listener());
+  }
+
+  /**
+   * Stops observing connectivity changes.
+   * @returns {void}
+   */
+  cleanup() {
+    if (!this.isSetup) return;
+
+    this.isSetup = false;
+    this.removeSubscription?.();
+    this.removeSubscription = null;
+  }
+}
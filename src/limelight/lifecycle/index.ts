@@ -0,0 +1,2 @@
+export * from "./AppStateObserver";
+export * from "./ConnectivityObserver";
@@ -0,0 +1,205 @@
+import {
+  BreakpointEdits,
+  BreakpointRule,
+  BreakpointStage,
+  LimelightConfig,
+  LimelightMessage,
+  MatchableRequest,
+  NetworkPausedEvent,
+  NetworkPhase,
+} from "@/types";
+import { matchesRequest, redactSensitiveHeaders } from "@/helpers";
+import { BREAKPOINT_TIMEOUT_MS } from "@/constants";
+
+interface PausedCall {
+  stage: BreakpointStage;
+  resolve: (edits: BreakpointEdits | null) => void;
+  timer: ReturnType<typeof setTimeout>;
+}
+
+/**
+ * Details of the call being paused. Headers are redacted before sending.
+ */
+export type PauseDetails = Omit<
+  NetworkPausedEvent,
+  "phase" | "sessionId" | "timestamp" | "breakpointId" | "timeout" | "stage"
+>;
+
+/**
+ * Holds breakpoint rules and the calls they have paused.
+ * Paused calls resume unchanged on timeout, when breakpoints are cleared,
+ * or when the desktop goes away. Mocked responses are already under the
+ * desktop's control, so interceptors never pause them at the response stage.
+ */
+export class BreakpointManager {
+  private configRules: BreakpointRule[] = [];
+  private remoteRules: BreakpointRule[] = [];
+  private pausedCalls = new Map<string, PausedCall>();
+  private enabled = true;
+
+  constructor(
+    private sendMessage: (message: LimelightMessage) => void,
+    private getSessionId: () => string,
+    private isConnected: () => boolean = () => true,
+    private getConfig: () => LimelightConfig | null = () => null,
+  ) {
+    // No-op
+  }
+
+  /**
+   * Replaces the rules installed through LimelightConfig.
+   * @param rules - Rules from the config
+   */
+  setConfigRules(rules: BreakpointRule[] = []): void {
+    this.configRules = [...rules];
+  }
+
+  /**
+   * Replaces the rules pushed from the desktop.
+   * @param rules - Rules from a SET_BREAKPOINTS command
+   */
+  setRules(rules: BreakpointRule[] = []): void {
+    this.remoteRules = [...rules];
+  }
+
+  /**
+   * Removes all rules pushed from the desktop and resumes every paused call.
+   */
+  clearRules(): void {
+    this.remoteRules = [];
+    this.resumeAll();
+  }
+
+  /**
+   * Turns breakpoints on or off. Turning them off resumes every paused call.
+   * @param enabled - Whether calls may be paused
+   */
+  setEnabled(enabled: boolean): void {
+    this.enabled = enabled;
+
+    if (!enabled) this.resumeAll();
+  }
+
+  /**
+   * Finds the first enabled rule that pauses a request at the given stage.
+   * @param request - The request to evaluate
+   * @param stage - The stage about to run
+   * @returns The matching rule or null
+   */
+  match(
+    request: MatchableRequest,
+    stage: BreakpointStage,
+  ): BreakpointRule | null {
+    if (
+      !this.enabled ||
+      (this.remoteRules.length === 0 && this.configRules.length === 0)
+    ) {
+      return null;
+    }
+
+    return (
+      [...this.remoteRules, ...this.configRules].find(
+        (rule) =>
+          rule.enabled !== false &&
+          (rule.stages ?? ["request"]).includes(stage) &&
+          matchesRequest(request, rule.match),
+      ) ?? null
+    );
+  }
+
+  /**
+   * Pauses a call and notifies the desktop. The PAUSED event goes through
+   * beforeSend like any other network event. Calls continue immediately when
+   * the desktop is not connected or beforeSend drops the event, since nobody
+   * could resume them.
+   * @param rule - The breakpoint that matched
+   * @param stage - The stage being paused
+   * @param details - The call as it currently stands
+   * @returns Edits to apply, or null to continue unchanged
+   */
+  pause(
+    rule: BreakpointRule,
+    stage: BreakpointStage,
+    details: PauseDetails,
+  ): Promise<BreakpointEdits | null> {
+    if (!this.isConnected()) return Promise.resolve(null);
+
+    const timeout = rule.timeout ?? BREAKPOINT_TIMEOUT_MS;
+    const config = this.getConfig();
+
+    let pausedEvent: LimelightMessage = {
+      ...details,
+      phase: NetworkPhase.PAUSED,
+      sessionId: this.getSessionId(),
+      timestamp: Date.now(),
+      headers: redactSensitiveHeaders(details.headers),
+      stage,
+      breakpointId: rule.id,
+      timeout,
+    };
+
+    if (config?.beforeSend) {
+      const modifiedEvent = config.beforeSend(pausedEvent);
+
+      if (!modifiedEvent) return Promise.resolve(null);
+
+      if (modifiedEvent.phase !== NetworkPhase.PAUSED) {
+        // always log an error if beforeSend returns wrong type
+        console.error("[Limelight] beforeSend must return same event type");
+        return Promise.resolve(null);
+      }
+
+      pausedEvent = modifiedEvent;
+    }
+
+    // A call can only be paused once at a time; release any stale pause first
+    this.resume(details.id);
+
+    return new Promise((resolve) => {
+      const timer = setTimeout(() => this.resume(details.id), timeout);
+
+      this.pausedCalls.set(details.id, { stage, resolve, timer });
+
+      this.sendMessage(pausedEvent);
+    });
+  }
+
+  /**
+   * Resumes a paused call.
+   * @param requestId - ID of the paused request
+   * @param edits - Edits to apply before continuing
+   * @param stage - If provided, only resumes a call paused at this stage
+   * @returns False if no matching call is paused
+   */
+  resume(
+    requestId: string,
+    edits?: BreakpointEdits | null,
+    stage?: BreakpointStage,
+  ): boolean {
+    const paused = this.pausedCalls.get(requestId);
+
+    if (!paused || (stage && paused.stage !== stage)) return false;
+
+    clearTimeout(paused.timer);
+    this.pausedCalls.delete(requestId);
+    paused.resolve(edits ?? null);
+
+    return true;
+  }
+
+  /**
+   * Resumes every paused call unchanged.
+   */
+  resumeAll(): void {
+    Array.from(this.pausedCalls.keys()).forEach((requestId) =>
+      this.resume(requestId),
+    );
+  }
+
+  /**
+   * Checks whether any call is currently paused.
+   */
+  hasPausedCalls(): boolean {
+    return this.pausedCalls.size > 0;
+  }
+}
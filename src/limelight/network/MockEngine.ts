@@ -0,0 +1,83 @@
+import { MatchableRequest, MockRule } from "@/types";
+import { matchesRequest } from "@/helpers";
+
+/**
+ * Holds mock rules and resolves which one applies to a request.
+ * Rules pushed from the desktop take precedence over rules from LimelightConfig.
+ */
+export class MockEngine {
+  private configRules: MockRule[] = [];
+  private remoteRules: MockRule[] = [];
+
+  /**
+   * Replaces the rules installed through LimelightConfig.
+   * @param rules - Rules from the config
+   */
+  setConfigRules(rules: MockRule[] = []): void {
+    this.configRules = [...rules];
+  }
+
+  /**
+   * Replaces the rules pushed from the desktop.
+   * @param rules - Rules from a SET_MOCK_RULES command
+   */
+  setRules(rules: MockRule[] = []): void {
+    this.remoteRules = [...rules];
+  }
+
+  /**
+   * Removes all rules pushed from the desktop. Config rules stay installed.
+   */
+  clearRules(): void {
+    this.remoteRules = [];
+  }
+
+  /**
+   * Returns every installed rule, remote rules first.
+   */
+  getRules(): MockRule[] {
+    return [...this.remoteRules, ...this.configRules];
+  }
+
+  /**
+   * Checks whether a rule lets the request reach the network after its delay.
+   * @param rule - The rule to check
+   * @returns True if the rule only injects latency
+   */
+  isPassthrough(rule: MockRule): boolean {
+    return !rule.response && !rule.error && !rule.abort;
+  }
+
+  /**
+   * Builds the fields that flag an emitted event as affected by a rule.
+   * @param rule - The rule applied to the request, if any
+   * @returns Fields to spread into response and error events
+   */
+  getEventFlags(rule: MockRule | null): {
+    mocked?: boolean;
+    mockRuleId?: string;
+  } {
+    if (!rule) return {};
+
+    return this.isPassthrough(rule)
+      ? { mockRuleId: rule.id }
+      : { mocked: true, mockRuleId: rule.id };
+  }
+
+  /**
+   * Finds the first enabled rule matching a request.
+   * @param request - The request to evaluate
+   * @returns The matching rule or null
+   */
+  match(request: MatchableRequest): MockRule | null {
+    if (this.remoteRules.length === 0 && this.configRules.length === 0) {
+      return null;
+    }
+
+    return (
+      this.getRules().find(
+        (rule) => rule.enabled !== false && matchesRequest(request, rule.match),
+      ) ?? null
+    );
+  }
+}
@@ -0,0 +1,147 @@
+import { NetworkConditions, NetworkProfile } from "@/types";
+import { NETWORK_PROFILES } from "@/constants";
+import { wait } from "@/helpers";
+
+/**
+ * Error message used for simulated connection failures, matching React Native's fetch.
+ */
+const SIMULATED_FAILURE_MESSAGE = "Network request failed";
+
+/**
+ * Applies simulated network conditions (latency, bandwidth, packet loss, offline)
+ * to intercepted requests. A profile set at runtime overrides the config profile.
+ */
+export class NetworkConditioner {
+  private configConditions: NetworkConditions | null = null;
+  private runtimeConditions: NetworkConditions | null = null;
+  private hasRuntimeProfile = false;
+
+  /**
+   * Sets the profile from LimelightConfig.
+   * @param profile - A built-in profile name or custom conditions
+   */
+  setConfigProfile(profile?: NetworkProfile | null): void {
+    this.configConditions = this.resolve(profile);
+  }
+
+  /**
+   * Switches the active profile at runtime. Pass null to disable throttling.
+   * @param profile - A built-in profile name, custom conditions, or null
+   * @returns False if the profile name is unknown
+   */
+  setProfile(profile: NetworkProfile | null): boolean {
+    const conditions = this.resolve(profile);
+
+    if (profile && !conditions) return false;
+
+    this.runtimeConditions = conditions;
+    this.hasRuntimeProfile = true;
+
+    return true;
+  }
+
+  /**
+   * Returns the conditions currently applied, or null when unthrottled.
+   */
+  getConditions(): NetworkConditions | null {
+    return this.hasRuntimeProfile
+      ? this.runtimeConditions
+      : this.configConditions;
+  }
+
+  /**
+   * Simulates sending a request: waits for latency and upload time, and
+   * rejects like a failed connection when offline or the request is dropped.
+   * @param requestSize - Outbound payload size in bytes
+   */
+  async throttleRequest(requestSize: number): Promise<void> {
+    const conditions = this.getConditions();
+
+    if (!conditions) return;
+
+    if (conditions.offline) {
+      throw new TypeError(SIMULATED_FAILURE_MESSAGE);
+    }
+
+    await wait(
+      (conditions.latency ?? 0) +
+        this.transferTime(requestSize, conditions.uploadKbps),
+    );
+
+    if (conditions.packetLoss && Math.random() < conditions.packetLoss) {
+      throw new TypeError(SIMULATED_FAILURE_MESSAGE);
+    }
+  }
+
+  /**
+   * Simulates downloading a response body of the given size.
+   * @param responseSize - Response payload size in bytes
+   */
+  async throttleResponse(responseSize: number): Promise<void> {
+    const conditions = this.getConditions();
+
+    if (!conditions) return;
+
+    await wait(this.transferTime(responseSize, conditions.downloadKbps));
+  }
+
+  /**
+   * Computes the full simulated time for a request the SDK cannot delay,
+   * such as manually tracked requests. Packet loss is not applied: the app
+   * already received the response, so only the profile flag records it.
+   * @param requestSize - Outbound payload size in bytes
+   * @param responseSize - Response payload size in bytes
+   * @returns Simulated duration in ms, or null if the profile is offline
+   */
+  simulateDuration(requestSize: number, responseSize: number): number | null {
+    const conditions = this.getConditions();
+
+    if (!conditions) return 0;
+
+    if (conditions.offline) {
+      return null;
+    }
+
+    return (
+      (conditions.latency ?? 0) +
+      this.transferTime(requestSize, conditions.uploadKbps) +
+      this.transferTime(responseSize, conditions.downloadKbps)
+    );
+  }
+
+  /**
+   * Builds the fields that tag an emitted event with the active profile.
+   * @returns Fields to spread into response and error events
+   */
+  getEventFlags(): { networkProfile?: string } {
+    const conditions = this.getConditions();
+
+    if (!conditions) return {};
+
+    return { networkProfile: conditions.name ?? "custom" };
+  }
+
+  /**
+   * Resolves a profile name or conditions object.
+   * @private
+   */
+  private resolve(profile?: NetworkProfile | null): NetworkConditions | null {
+    if (!profile) return null;
+
+    if (typeof profile === "string") {
+      return NETWORK_PROFILES[profile] ?? null;
+    }
+
+    return profile;
+  }
+
+  /**
+   * Milliseconds needed to move `bytes` at `kbps` (1 kbps = 1 bit per ms).
+   * @private
+   */
+  private transferTime(bytes: number, kbps?: number): number {
+    if (!kbps || kbps <= 0 || bytes <= 0) return 0;
+
+    return Math.round((bytes * 8) / kbps);
+  }
+}
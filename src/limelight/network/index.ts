@@ -0,0 +1,3 @@
+export * from "./MockEngine";
+export * from "./NetworkConditioner";
+export * from "./BreakpointManager";
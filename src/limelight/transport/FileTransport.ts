@@ -0,0 +1,94 @@
+import {
+  FileTransportConfig,
+  Transport,
+  TransportErrorEvent,
+  TransportEvent,
+  TransportEventHandler,
+  TransportMessageEvent,
+} from "@/types";
+import { getByteSize } from "@/helpers";
+import { TRANSPORT_STATE } from "@/constants";
+
+/**
+ * Writes every message as a line of NDJSON through an injected writer, for
+ * capturing sessions on CI runners or in Node where no desktop is listening.
+ * The transport is one-way, so no commands are ever received.
+ *
+ * @example
+ * ```ts
+ * import fs from "node:fs";
+ *
+ * Limelight.connect({
+ *   transport: () =>
+ *     new FileTransport({
+ *       write: (chunk) => fs.promises.appendFile("limelight.ndjson", chunk),
+ *     }),
+ * });
+ * ```
+ */
+export class FileTransport implements Transport {
+  readyState: number = TRANSPORT_STATE.CONNECTING;
+  bufferedAmount = 0;
+
+  onopen: TransportEventHandler<TransportEvent> | null = null;
+  onmessage: TransportEventHandler<TransportMessageEvent> | null = null;
+  onerror: TransportEventHandler<TransportErrorEvent> | null = null;
+  onclose: TransportEventHandler<TransportEvent> | null = null;
+
+  private writes: Promise<void> = Promise.resolve();
+
+  /**
+   * @param options - The writer that receives each NDJSON chunk
+   */
+  constructor(private options: FileTransportConfig) {
+    queueMicrotask(() => {
+      if (this.readyState !== TRANSPORT_STATE.CONNECTING) return;
+
+      this.readyState = TRANSPORT_STATE.OPEN;
+      this.onopen?.({});
+    });
+  }
+
+  /**
+   * Queues a line to be written after any writes still in progress.
+   * @param data - The serialized message or frame
+   */
+  send(data: string): void {
+    if (this.readyState !== TRANSPORT_STATE.OPEN) {
+      throw new Error("FileTransport is not open");
+    }
+
+    const chunk = `${data}\n`;
+    const size = getByteSize(chunk);
+    this.bufferedAmount += size;
+
+    this.writes = this.writes
+      .then(() => this.options.write(chunk))
+      .catch((error) =>
+        this.onerror?.(
+          error instanceof Error ? error : new Error(String(error)),
+        ),
+      )
+      .finally(() => {
+        this.bufferedAmount -= size;
+      });
+  }
+
+  /**
+   * Closes the transport. Writes already queued still complete.
+   */
+  close(): void {
+    if (this.readyState === TRANSPORT_STATE.CLOSED) return;
+
+    this.readyState = TRANSPORT_STATE.CLOSED;
+    this.onclose?.({});
+  }
+
+  /**
+   * Resolves once every queued write has finished.
+   * @returns A promise that settles after the last write
+   */
+  flushed(): Promise<void> {
+    return this.writes;
+  }
+}
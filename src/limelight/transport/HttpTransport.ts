@@ -0,0 +1,256 @@
+import {
+  HttpTransportConfig,
+  Transport,
+  TransportErrorEvent,
+  TransportEvent,
+  TransportEventHandler,
+  TransportMessageEvent,
+} from "@/types";
+import { getByteSize, wait } from "@/helpers";
+import {
+  HTTP_TRANSPORT_DEFAULTS,
+  INTERNAL_REQUEST_HEADER,
+  TRANSPORT_STATE,
+} from "@/constants";
+import { createSessionId } from "@/protocol";
+
+/**
+ * Talks to the desktop over plain HTTP for networks that block WebSockets.
+ * Messages sent in the same tick are POSTed together as NDJSON to /events,
+ * and commands are long-polled from /commands. Any failed request closes
+ * the transport so the client reconnects.
+ */
+export class HttpTransport implements Transport {
+  readyState: number = TRANSPORT_STATE.CONNECTING;
+  bufferedAmount = 0;
+
+  onopen: TransportEventHandler<TransportEvent> | null = null;
+  onmessage: TransportEventHandler<TransportMessageEvent> | null = null;
+  onerror: TransportEventHandler<TransportErrorEvent> | null = null;
+  onclose: TransportEventHandler<TransportEvent> | null = null;
+
+  private baseUrl: string;
+  private clientId = createSessionId();
+  private pending: string[] = [];
+  private flushScheduled = false;
+  private abortController = new AbortController();
+  // POSTs outlive the transport briefly so close() can deliver them
+  private postController = new AbortController();
+  private inFlight = new Set<Promise<void>>();
+
+  /**
+   * @param serverUrl - The server URL; ws:// and wss:// are mapped to http:// and https://
+   * @param options - Extra headers and polling options
+   */
+  constructor(
+    serverUrl: string,
+    private options: HttpTransportConfig = {},
+  ) {
+    this.baseUrl = serverUrl
+      .replace(/^ws(s?):\/\//, "http$1://")
+      .replace(/\/+$/, "");
+
+    this.open();
+  }
+
+  /**
+   * Queues data to be POSTed with anything else sent in the same tick.
+   * @param data - The serialized message or frame
+   */
+  send(data: string): void {
+    if (this.readyState !== TRANSPORT_STATE.OPEN) {
+      throw new Error("HttpTransport is not open");
+    }
+
+    this.pending.push(data);
+    this.bufferedAmount += getByteSize(data);
+
+    if (!this.flushScheduled) {
+      this.flushScheduled = true;
+      queueMicrotask(() => this.flush());
+    }
+  }
+
+  /**
+   * Stops polling and closes the transport. POSTs already in flight, and
+   * messages sent but not yet POSTed such as the client's DISCONNECT, are
+   * still delivered, giving up after a short timeout.
+   */
+  close(): void {
+    if (this.readyState === TRANSPORT_STATE.CLOSED) return;
+
+    const lines = this.pending;
+
+    this.readyState = TRANSPORT_STATE.CLOSED;
+    this.abortController.abort();
+    this.pending = [];
+    this.bufferedAmount = 0;
+
+    if (lines.length) {
+      this.inFlight.add(
+        this.postEvents(lines).catch(() => {
+          // Nobody is left to report the failure to
+        }),
+      );
+    }
+
+    if (this.inFlight.size) {
+      const timer = setTimeout(
+        () => this.postController.abort(),
+        HTTP_TRANSPORT_DEFAULTS.CLOSE_FLUSH_TIMEOUT_MS,
+      );
+
+      Promise.allSettled(this.inFlight).then(() => clearTimeout(timer));
+    }
+
+    this.onclose?.({});
+  }
+
+  /**
+   * Checks the server is reachable with a non-blocking poll, then starts
+   * long-polling for commands.
+   * @private
+   */
+  private async open(): Promise<void> {
+    try {
+      await this.poll(false);
+    } catch (error) {
+      this.fail(error);
+      return;
+    }
+
+    if (this.readyState !== TRANSPORT_STATE.CONNECTING) return;
+
+    this.readyState = TRANSPORT_STATE.OPEN;
+    this.onopen?.({});
+    this.pollLoop();
+  }
+
+  /**
+   * Long-polls for commands until the transport closes.
+   * @private
+   */
+  private async pollLoop(): Promise<void> {
+    const interval =
+      this.options.pollInterval ?? HTTP_TRANSPORT_DEFAULTS.POLL_INTERVAL_MS;
+
+    while (this.readyState === TRANSPORT_STATE.OPEN) {
+      const startedAt = Date.now();
+
+      try {
+        await this.poll(true);
+      } catch (error) {
+        this.fail(error);
+        return;
+      }
+
+      await wait(interval - (Date.now() - startedAt));
+    }
+  }
+
+  /**
+   * Fetches waiting commands and hands each one to onmessage.
+   * @private
+   * @param longPoll - Whether the server may hold the request open
+   */
+  private async poll(longPoll: boolean): Promise<void> {
+    const response = await this.request(
+      `/commands?clientId=${this.clientId}${longPoll ? "" : "&wait=0"}`,
+      { method: "GET" },
+    );
+
+    if (response.status === 204 || this.readyState === TRANSPORT_STATE.CLOSED) {
+      return;
+    }
+
+    const commands: unknown[] = await response.json();
+
+    commands.forEach((command) => {
+      this.onmessage?.({ data: JSON.stringify(command) });
+    });
+  }
+
+  /**
+   * POSTs everything sent since the last flush.
+   * @private
+   */
+  private async flush(): Promise<void> {
+    this.flushScheduled = false;
+
+    if (!this.pending.length || this.readyState !== TRANSPORT_STATE.OPEN) {
+      return;
+    }
+
+    const lines = this.pending;
+    this.pending = [];
+
+    const post = this.postEvents(lines);
+    this.inFlight.add(post);
+
+    try {
+      await post;
+    } catch (error) {
+      this.fail(error);
+      return;
+    } finally {
+      this.inFlight.delete(post);
+    }
+
+    this.bufferedAmount = Math.max(
+      0,
+      this.bufferedAmount - lines.reduce((n, l) => n + getByteSize(l), 0),
+    );
+  }
+
+  /**
+   * POSTs lines to the server as one NDJSON body. Closing the transport does
+   * not abort the request until the close timeout passes.
+   * @private
+   * @param lines - The serialized messages or frames
+   */
+  private async postEvents(lines: string[]): Promise<void> {
+    await this.request(`/events?clientId=${this.clientId}`, {
+      method: "POST",
+      headers: { "content-type": "application/x-ndjson" },
+      body: lines.join("\n") + "\n",
+      signal: this.postController.signal,
+    });
+  }
+
+  /**
+   * Makes a request the network interceptors will not capture.
+   * @private
+   * @param path - Path and query, relative to the server URL
+   * @param init - Fetch options
+   * @returns The response, if it was successful
+   */
+  private async request(path: string, init: RequestInit): Promise<Response> {
+    const response = await fetch(`${this.baseUrl}${path}`, {
+      ...init,
+      signal: init.signal ?? this.abortController.signal,
+      headers: {
+        ...this.options.headers,
+        ...(init.headers as Record<string, string>),
+        [INTERNAL_REQUEST_HEADER]: "1",
+      },
+    });
+
+    if (!response.ok) {
+      throw new Error(`Request failed with status ${response.status}`);
+    }
+
+    return response;
+  }
+
+  /**
+   * Reports an error and closes, unless the transport was already closed.
+   * @private
+   * @param error - The error that ended the transport
+   */
+  private fail(error: unknown): void {
+    if (this.readyState === TRANSPORT_STATE.CLOSED) return;
+
+    this.onerror?.(error instanceof Error ? error : new Error(String(error)));
+    this.close();
+  }
+}
@@ -0,0 +1,87 @@
+import {
+  Command,
+  SequencedMessage,
+  Transport,
+  TransportErrorEvent,
+  TransportEvent,
+  TransportEventHandler,
+  TransportMessageEvent,
+} from "@/types";
+import { TRANSPORT_STATE } from "@/constants";
+
+/**
+ * Keeps sent messages in memory and lets tests push commands back, so the
+ * SDK can be exercised without a desktop.
+ *
+ * @example
+ * ```ts
+ * let transport: MemoryTransport;
+ *
+ * Limelight.connect({ transport: () => (transport = new MemoryTransport()) });
+ * await fetch("/api/users");
+ *
+ * expect(transport.messages).toContainEqual(
+ *   expect.objectContaining({ phase: "REQUEST" }),
+ * );
+ * ```
+ */
+export class MemoryTransport implements Transport {
+  readyState: number = TRANSPORT_STATE.CONNECTING;
+  bufferedAmount = 0;
+
+  onopen: TransportEventHandler<TransportEvent> | null = null;
+  onmessage: TransportEventHandler<TransportMessageEvent> | null = null;
+  onerror: TransportEventHandler<TransportErrorEvent> | null = null;
+  onclose: TransportEventHandler<TransportEvent> | null = null;
+
+  /**
+   * Everything sent, as it went over the wire.
+   */
+  readonly sent: string[] = [];
+
+  constructor() {
+    queueMicrotask(() => {
+      if (this.readyState !== TRANSPORT_STATE.CONNECTING) return;
+
+      this.readyState = TRANSPORT_STATE.OPEN;
+      this.onopen?.({});
+    });
+  }
+
+  /**
+   * Everything sent, parsed back into messages.
+   */
+  get messages(): SequencedMessage[] {
+    return this.sent.map((data) => JSON.parse(data));
+  }
+
+  /**
+   * Records the data as sent.
+   * @param data - The serialized message or frame
+   */
+  send(data: string): void {
+    if (this.readyState !== TRANSPORT_STATE.OPEN) {
+      throw new Error("MemoryTransport is not open");
+    }
+
+    this.sent.push(data);
+  }
+
+  /**
+   * Delivers a command to the client as if the desktop had sent it.
+   * @param command - The command to deliver
+   */
+  receive(command: Command): void {
+    this.onmessage?.({ data: JSON.stringify(command) });
+  }
+
+  /**
+   * Closes the transport.
+   */
+  close(): void {
+    if (this.readyState === TRANSPORT_STATE.CLOSED) return;
+
+    this.readyState = TRANSPORT_STATE.CLOSED;
+    this.onclose?.({});
+  }
+}
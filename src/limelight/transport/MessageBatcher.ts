@@ -0,0 +1,234 @@
+import {
+  BatchCompression,
+  BatchFrame,
+  LimelightConfig,
+  TransportAgreement,
+  TransportOffer,
+} from "@/types";
+import { compressKeys, getByteSize } from "@/helpers";
+import { BATCHING_DEFAULTS } from "@/constants";
+
+/**
+ * Coalesces serialized messages into BATCH frames once the desktop has
+ * accepted batching in the handshake. Frames are held back while the socket
+ * reports more than highWaterMark bytes waiting to go out.
+ */
+export class MessageBatcher {
+  private pending: string[] = [];
+  private pendingBytes = 0;
+  private flushTimer: ReturnType<typeof setTimeout> | null = null;
+
+  private config: LimelightConfig | null = null;
+  private agreedCompression: BatchCompression | null = null;
+
+  /**
+   * @param sendFrame - Sends a frame; returns false if it could not be sent
+   * @param getBufferedAmount - Bytes queued on the socket but not yet sent
+   * @param getSessionId - Returns the current session ID
+   */
+  constructor(
+    private sendFrame: (frame: string) => boolean,
+    private getBufferedAmount: () => number,
+    private getSessionId: () => string,
+  ) {
+    // No-op
+  }
+
+  /**
+   * Applies batching options from the config.
+   * @param config - Configuration object for Limelight
+   */
+  configure(config: LimelightConfig): void {
+    this.config = config;
+  }
+
+  /**
+   * Describes what this SDK can do, for the CONNECT handshake.
+   * @returns The offer, or undefined if batching is disabled
+   */
+  getOffer(): TransportOffer | undefined {
+    const options = this.getOptions();
+
+    if (!options) return undefined;
+
+    return {
+      batching: true,
+      compression:
+        options.compression === "none" ? ["none"] : ["dictionary", "none"],
+    };
+  }
+
+  /**
+   * Starts or stops batching according to the desktop's reply.
+   * @param agreement - Transport features accepted by the desktop
+   * @returns False if the agreement asks for something that was not offered
+   */
+  negotiate(agreement?: TransportAgreement | null): boolean {
+    const offer = this.getOffer();
+
+    if (!agreement?.batching || !offer) {
+      this.agreedCompression = null;
+      return !agreement?.batching;
+    }
+
+    const compression = agreement.compression ?? "none";
+
+    if (!offer.compression.includes(compression)) {
+      this.agreedCompression = null;
+      return false;
+    }
+
+    this.agreedCompression = compression;
+    return true;
+  }
+
+  /**
+   * Whether messages should currently go through the batcher.
+   */
+  isActive(): boolean {
+    return this.agreedCompression !== null;
+  }
+
+  /**
+   * Adds a serialized message to the next frame, flushing if a size threshold
+   * is reached.
+   * @param data - The serialized message
+   */
+  add(data: string): void {
+    const options = this.getOptions();
+
+    this.pending.push(data);
+    this.pendingBytes += getByteSize(data);
+
+    if (this.pending.length > BATCHING_DEFAULTS.MAX_PENDING_MESSAGES) {
+      this.pendingBytes -= getByteSize(this.pending.shift()!);
+
+      if (this.config?.enableInternalLogging) {
+        console.warn("[Limelight] Batch queue full, dropping oldest message");
+      }
+    }
+
+    if (
+      this.pending.length >=
+        (options?.maxMessages ?? BATCHING_DEFAULTS.MAX_MESSAGES) ||
+      this.pendingBytes >= (options?.maxBytes ?? BATCHING_DEFAULTS.MAX_BYTES)
+    ) {
+      this.flush();
+    } else {
+      this.scheduleFlush();
+    }
+  }
+
+  /**
+   * Sends waiting messages as frames, unless the socket is backed up.
+   */
+  flush(): void {
+    if (this.flushTimer) {
+      clearTimeout(this.flushTimer);
+      this.flushTimer = null;
+    }
+
+    const options = this.getOptions();
+    const maxMessages = options?.maxMessages ?? BATCHING_DEFAULTS.MAX_MESSAGES;
+    const highWaterMark =
+      options?.highWaterMark ?? BATCHING_DEFAULTS.HIGH_WATER_MARK;
+
+    while (this.pending.length > 0) {
+      if (this.getBufferedAmount() > highWaterMark) {
+        this.scheduleFlush();
+        return;
+      }
+
+      const batch = this.pending.slice(0, maxMessages);
+
+      if (!this.sendFrame(this.encode(batch))) {
+        this.scheduleFlush();
+        return;
+      }
+
+      this.pending.splice(0, batch.length);
+      this.pendingBytes = this.pending.reduce(
+        (total, data) => total + getByteSize(data),
+        0,
+      );
+    }
+  }
+
+  /**
+   * Stops batching and returns the messages that were never sent, so the
+   * caller can buffer them until the next connection.
+   * @returns The unsent serialized messages, oldest first
+   */
+  reset(): string[] {
+    if (this.flushTimer) {
+      clearTimeout(this.flushTimer);
+      this.flushTimer = null;
+    }
+
+    const unsent = this.pending;
+
+    this.pending = [];
+    this.pendingBytes = 0;
+    this.agreedCompression = null;
+
+    return unsent;
+  }
+
+  /**
+   * Builds a BATCH frame from serialized messages.
+   * @private
+   * @param batch - The serialized messages
+   * @returns The serialized frame
+   */
+  private encode(batch: string[]): string {
+    const header = {
+      phase: "BATCH" as const,
+      sessionId: this.getSessionId(),
+      timestamp: Date.now(),
+    };
+
+    if (this.agreedCompression === "dictionary") {
+      const { keys, values } = compressKeys(
+        batch.map((data) => JSON.parse(data)),
+      );
+
+      const frame: BatchFrame = {
+        ...header,
+        compression: "dictionary",
+        keys,
+        messages: values,
+      };
+
+      return JSON.stringify(frame);
+    }
+
+    // Messages are already serialized, so splice them in rather than re-parsing
+    return `${JSON.stringify({ ...header, compression: "none" }).slice(0, -1)},"messages":[${batch.join(",")}]}`;
+  }
+
+  /**
+   * Schedules a flush after the configured interval.
+   * @private
+   */
+  private scheduleFlush(): void {
+    if (this.flushTimer) return;
+
+    this.flushTimer = setTimeout(() => {
+      this.flushTimer = null;
+      this.flush();
+    }, this.getOptions()?.flushInterval ?? BATCHING_DEFAULTS.FLUSH_INTERVAL_MS);
+  }
+
+  /**
+   * Resolves the batching options, or null if batching is disabled.
+   * @private
+   */
+  private getOptions() {
+    const batching = this.config?.batching;
+
+    if (!batching) return null;
+    if (batching === true) return {};
+
+    return batching.enabled === false ? null : batching;
+  }
+}
@@ -0,0 +1,248 @@
+import { BufferStorage, LimelightConfig } from "@/types";
+import { getByteSize } from "@/helpers";
+import { MESSAGE_BUFFER_DEFAULTS } from "@/constants";
+
+interface BufferEntry {
+  data: string;
+  bytes: number;
+}
+
+/**
+ * Holds serialized messages while the desktop is unreachable and replays them
+ * in order once it connects. Optionally persists to a storage adapter so
+ * messages survive app restarts.
+ */
+export class MessageBuffer {
+  private entries: BufferEntry[] = [];
+  private totalBytes = 0;
+
+  private storage: BufferStorage | null = null;
+  private storageKey: string = MESSAGE_BUFFER_DEFAULTS.STORAGE_KEY;
+  private maxBytes: number = MESSAGE_BUFFER_DEFAULTS.MAX_BYTES;
+  private maxMessages: number = MESSAGE_BUFFER_DEFAULTS.MAX_MESSAGES;
+
+  private isRestored = true;
+  private persistTimer: ReturnType<typeof setTimeout> | null = null;
+  private config: LimelightConfig | null = null;
+
+  /**
+   * Applies buffer options and restores persisted messages the first time a
+   * storage adapter is seen.
+   * @param config - Configuration object for Limelight
+   * @returns Resolves once persisted messages have been restored
+   */
+  async configure(config: LimelightConfig): Promise<void> {
+    this.config = config;
+
+    const options = config.buffer ?? {};
+
+    this.storageKey = options.storageKey ?? MESSAGE_BUFFER_DEFAULTS.STORAGE_KEY;
+    this.maxBytes = options.maxBytes ?? MESSAGE_BUFFER_DEFAULTS.MAX_BYTES;
+    this.maxMessages =
+      options.maxMessages ?? MESSAGE_BUFFER_DEFAULTS.MAX_MESSAGES;
+
+    this.trim();
+
+    const storage = options.storage ?? null;
+
+    if (storage === this.storage) return;
+
+    this.storage = storage;
+
+    if (storage) {
+      await this.restore(storage);
+    }
+  }
+
+  /**
+   * Adds a serialized message to the end of the buffer, dropping the oldest
+   * messages if the byte or count limit is exceeded.
+   * @param data - The serialized message
+   */
+  enqueue(data: string): void {
+    const bytes = getByteSize(data);
+
+    this.entries.push({ data, bytes });
+    this.totalBytes += bytes;
+
+    this.trim();
+    this.schedulePersist();
+  }
+
+  /**
+   * Puts messages that were handed off but never sent back at the front of
+   * the buffer, ahead of anything buffered since.
+   * @param data - The serialized messages, oldest first
+   */
+  requeue(data: string[]): void {
+    if (data.length === 0) return;
+
+    const entries = data.map((item) => ({
+      data: item,
+      bytes: getByteSize(item),
+    }));
+
+    this.entries = [...entries, ...this.entries];
+    this.totalBytes += entries.reduce((total, entry) => total + entry.bytes, 0);
+
+    this.trim();
+    this.schedulePersist();
+  }
+
+  /**
+   * Sends buffered messages in order until the buffer is empty or send fails.
+   * Does nothing until persisted messages have been restored, so older
+   * messages are never sent after newer ones.
+   * @param send - Sends one serialized message; returns false to stop
+   */
+  drain(send: (data: string) => boolean): void {
+    if (!this.isRestored || this.entries.length === 0) return;
+
+    while (this.entries.length > 0) {
+      const entry = this.entries[0]!;
+
+      if (!send(entry.data)) break;
+
+      this.entries.shift();
+      this.totalBytes -= entry.bytes;
+    }
+
+    this.schedulePersist();
+  }
+
+  /**
+   * Whether any messages are waiting to be sent. False while persisted
+   * messages are being restored, so new messages queue up behind them.
+   */
+  isEmpty(): boolean {
+    return this.isRestored && this.entries.length === 0;
+  }
+
+  /**
+   * Number of buffered messages.
+   */
+  get length(): number {
+    return this.entries.length;
+  }
+
+  /**
+   * Drops all buffered messages, including persisted ones.
+   */
+  clear(): void {
+    this.entries = [];
+    this.totalBytes = 0;
+
+    if (this.persistTimer) {
+      clearTimeout(this.persistTimer);
+      this.persistTimer = null;
+    }
+
+    if (this.storage && this.isRestored) {
+      this.runStorage(() => this.storage?.removeItem(this.storageKey));
+    }
+  }
+
+  /**
+   * Loads persisted messages ahead of anything buffered since startup.
+   * @private
+   * @param storage - The storage adapter to read from
+   */
+  private async restore(storage: BufferStorage): Promise<void> {
+    this.isRestored = false;
+
+    try {
+      const stored = await storage.getItem(this.storageKey);
+      const persisted: unknown = stored ? JSON.parse(stored) : [];
+
+      if (Array.isArray(persisted)) {
+        const restored = persisted
+          .filter((data): data is string => typeof data === "string")
+          .map((data) => ({ data, bytes: getByteSize(data) }));
+
+        this.entries = [...restored, ...this.entries];
+        this.totalBytes = this.entries.reduce(
+          (total, entry) => total + entry.bytes,
+          0,
+        );
+        this.trim();
+      }
+    } catch (error) {
+      if (this.config?.enableInternalLogging) {
+        console.warn("[Limelight] Failed to restore buffered messages:", error);
+      }
+    } finally {
+      this.isRestored = true;
+      this.schedulePersist();
+    }
+  }
+
+  /**
+   * Drops the oldest messages until the buffer fits its limits.
+   * @private
+   */
+  private trim(): void {
+    let dropped = 0;
+
+    while (
+      this.entries.length > 0 &&
+      (this.entries.length > this.maxMessages ||
+        this.totalBytes > this.maxBytes)
+    ) {
+      this.totalBytes -= this.entries.shift()!.bytes;
+      dropped++;
+    }
+
+    if (dropped > 0 && this.config?.enableInternalLogging) {
+      console.warn(
+        `[Limelight] Message buffer full, dropped ${dropped} oldest message(s)`,
+      );
+    }
+  }
+
+  /**
+   * Writes the buffer to storage shortly, coalescing bursts into one write.
+   * Skipped until restore completes so persisted messages are not overwritten.
+   * @private
+   */
+  private schedulePersist(): void {
+    if (!this.storage || !this.isRestored || this.persistTimer) return;
+
+    this.persistTimer = setTimeout(() => {
+      this.persistTimer = null;
+
+      const storage = this.storage;
+      if (!storage) return;
+
+      this.runStorage(() =>
+        this.entries.length === 0
+          ? storage.removeItem(this.storageKey)
+          : storage.setItem(
+              this.storageKey,
+              JSON.stringify(this.entries.map((entry) => entry.data)),
+            ),
+      );
+    }, MESSAGE_BUFFER_DEFAULTS.PERSIST_DELAY_MS);
+  }
+
+  /**
+   * Runs a storage operation, logging sync or async failures.
+   * @private
+   * @param operation - The storage call to run
+   */
+  private runStorage(operation: () => void | Promise<void> | undefined): void {
+    try {
+      Promise.resolve(operation()).catch((error) => {
+        if (this.config?.enableInternalLogging) {
+          console.warn(
+            "[Limelight] Failed to persist buffered messages:",
+            error,
+          );
+        }
+      });
+    } catch (error) {
+      if (this.config?.enableInternalLogging) {
+        console.warn("[Limelight] Failed to persist buffered messages:", error);
+      }
+    }
+  }
+}
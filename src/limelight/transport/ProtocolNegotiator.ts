@@ -0,0 +1,118 @@
+import {
+  CommandType,
+  ConnectAckCommand,
+  InterceptorName,
+  LimelightConfig,
+  NegotiatedFeature,
+  SdkCapabilities,
+} from "@/types";
+import { isProtocolCompatible } from "@/helpers";
+import { PROTOCOL_VERSION } from "@/constants";
+
+/**
+ * Advertises the SDK's protocol version and capabilities in the handshake,
+ * and turns off whatever the connected desktop says it does not understand.
+ * A desktop on an incompatible protocol version keeps the plain event stream,
+ * but batching, breakpoints and the request bridge are turned off.
+ */
+export class ProtocolNegotiator {
+  private config: LimelightConfig | null = null;
+
+  /**
+   * @param disableFeature - Turns off part of the SDK until connect() is called again
+   */
+  constructor(private disableFeature: (feature: NegotiatedFeature) => void) {
+    // No-op
+  }
+
+  /**
+   * Applies the config that decides which interceptors are enabled.
+   * @param config - Configuration object for Limelight
+   */
+  configure(config: LimelightConfig): void {
+    this.config = config;
+  }
+
+  /**
+   * Describes this SDK for the CONNECT handshake.
+   * @returns The capabilities of the current configuration
+   */
+  getCapabilities(): SdkCapabilities {
+    const config = this.config;
+    const interceptors: InterceptorName[] = [];
+
+    if (config?.enableNetworkInspector) interceptors.push("network");
+    if (config?.enableWebSocketInspector) interceptors.push("websocket");
+    if (config?.enableEventSourceInspector) {
+      interceptors.push("eventsource");
+    }
+    if (config?.enableConsole) interceptors.push("console");
+    if (config?.enableRenderInspector) interceptors.push("render");
+    if (config?.stores && config.enableStateInspector) {
+      interceptors.push("state");
+    }
+
+    return {
+      interceptors,
+      commands: Object.values(CommandType).filter(
+        (type) => type !== CommandType.ACK,
+      ),
+    };
+  }
+
+  /**
+   * Applies the desktop's reply to the handshake.
+   * @param ack - The CONNECT_ACK command
+   * @returns False if the desktop speaks an incompatible protocol version
+   */
+  apply(ack: ConnectAckCommand): boolean {
+    let compatible = true;
+    const disabled = new Set<NegotiatedFeature>();
+
+    if (
+      ack.protocolVersion &&
+      !isProtocolCompatible(PROTOCOL_VERSION, ack.protocolVersion)
+    ) {
+      compatible = false;
+
+      // always warn: a version mismatch otherwise shows up as missing data
+      console.warn(
+        `[Limelight] Desktop uses protocol ${ack.protocolVersion} but this SDK uses ${PROTOCOL_VERSION}. Update the older of the two.`,
+      );
+
+      disabled.add("batching");
+      disabled.add("breakpoints");
+      disabled.add("bridge");
+    }
+
+    const supported = ack.capabilities?.interceptors;
+
+    if (supported) {
+      this.getCapabilities()
+        .interceptors.filter((name) => !supported.includes(name))
+        .forEach((name) => disabled.add(name));
+
+      // Bridged requests are shown as network events
+      if (!supported.includes("network")) disabled.add("bridge");
+    }
+
+    const commands = ack.capabilities?.commands;
+
+    // Nobody could resume a paused call
+    if (commands && !commands.includes(CommandType.RESUME_REQUEST)) {
+      disabled.add("breakpoints");
+    }
+
+    disabled.forEach((feature) => {
+      this.disableFeature(feature);
+
+      if (this.config?.enableInternalLogging) {
+        console.warn(
+          `[Limelight] Desktop does not support ${feature}, disabling`,
+        );
+      }
+    });
+
+    return compatible;
+  }
+}
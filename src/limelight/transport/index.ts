@@ -0,0 +1,6 @@
+export * from "./MessageBuffer";
+export * from "./MessageBatcher";
+export * from "./ProtocolNegotiator";
+export * from "./HttpTransport";
+export * from "./FileTransport";
+export * from "./MemoryTransport";
@@ -0,0 +1,44 @@
+import { ConnectionEvent, LimelightMessage } from "./limelight";
+
+/**
+ * A recorded session that can be attached to a ticket and replayed into the
+ * desktop later. Created by Limelight.exportSession(), played back with
+ * SessionLoader.
+ */
+export interface SessionArchive {
+  format: "limelight-session";
+  version: number;
+  exportedAt: number; // unix ms
+  sdkVersion: string;
+  protocolVersion: string;
+  /**
+   * The CONNECT that started the session, or null if it never connected.
+   */
+  connect: ConnectionEvent | null;
+  /**
+   * Everything the app sent, oldest first, excluding connection lifecycle
+   * messages and command acknowledgments.
+   */
+  messages: LimelightMessage[];
+  /**
+   * How many older messages were dropped to stay within MAX_SESSION_MESSAGES.
+   */
+  droppedMessages: number;
+}
+
+/**
+ * Options for replaying an archive.
+ */
+export interface SessionPlaybackOptions {
+  /**
+   * "instant" sends everything at once; "original" keeps the recorded gaps
+   * between messages.
+   * @default "instant"
+   */
+  timing?: "instant" | "original";
+  /**
+   * Playback speed multiplier when timing is "original".
+   * @default 1
+   */
+  speed?: number;
+}
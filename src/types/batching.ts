@@ -0,0 +1,72 @@
+/**
+ * How the messages inside a BATCH frame are encoded.
+ * - "none": messages are sent as-is
+ * - "dictionary": object keys are replaced by indexes into a shared key list
+ */
+export type BatchCompression = "none" | "dictionary";
+
+/**
+ * Options for coalescing messages into BATCH frames.
+ * Batching only starts once the desktop accepts it during the handshake.
+ */
+export interface BatchingConfig {
+  /**
+   * Flag to enable or disable batching.
+   * @default true
+   */
+  enabled?: boolean;
+  /**
+   * Flush once this many messages are waiting.
+   * @default 50
+   */
+  maxMessages?: number;
+  /**
+   * Flush once the waiting messages reach this many bytes.
+   * @default 65536 (64 KB)
+   */
+  maxBytes?: number;
+  /**
+   * Flush waiting messages after this many ms.
+   * @default 50
+   */
+  flushInterval?: number;
+  /**
+   * Preferred encoding for batched messages.
+   * @default "dictionary"
+   */
+  compression?: BatchCompression;
+  /**
+   * Holds frames back while the socket has more than this many bytes
+   * waiting to go out (WebSocket.bufferedAmount).
+   * @default 1048576 (1 MB)
+   */
+  highWaterMark?: number;
+}
+
+/**
+ * Transport features offered by the SDK in the CONNECT handshake.
+ */
+export interface TransportOffer {
+  batching: boolean;
+  compression: BatchCompression[];
+}
+
+/**
+ * Transport features accepted by the desktop in CONNECT_ACK.
+ */
+export interface TransportAgreement {
+  batching?: boolean;
+  compression?: BatchCompression;
+}
+
+/**
+ * A frame carrying several messages at once.
+ */
+export interface BatchFrame {
+  phase: "BATCH";
+  sessionId: string;
+  timestamp: number;
+  compression: BatchCompression;
+  keys?: string[]; // dictionary compression only
+  messages: unknown[];
+}
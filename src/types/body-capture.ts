@@ -0,0 +1,52 @@
+import { UrlPattern } from "./matching";
+
+/**
+ * A capture sample rate for requests to matching URLs.
+ */
+export interface BodySampleRule {
+  url: UrlPattern;
+  /**
+   * Fraction of matching requests whose bodies are captured, from 0 to 1.
+   */
+  rate: number;
+}
+
+/**
+ * Options for capturing request and response bodies. Bodies over the size
+ * limits are cut short and marked as truncated.
+ */
+export interface BodyCaptureConfig {
+  /**
+   * Maximum captured size of a request or response body, in bytes.
+   * @default 262144 (256 KB)
+   */
+  maxBytes?: number;
+  /**
+   * Maximum captured size of a request body, in bytes. Overrides maxBytes.
+   */
+  maxRequestBytes?: number;
+  /**
+   * Maximum captured size of a response body, in bytes. Overrides maxBytes.
+   */
+  maxResponseBytes?: number;
+  /**
+   * Only capture bodies of requests to matching URLs.
+   */
+  include?: UrlPattern[];
+  /**
+   * Never capture bodies of requests to matching URLs. Takes precedence over include.
+   * @example ["/sync", /\.mp4$/]
+   */
+  exclude?: UrlPattern[];
+  /**
+   * Fraction of requests whose bodies are captured, from 0 to 1.
+   * @default 1
+   */
+  sampleRate?: number;
+  /**
+   * Sample rates for specific URLs, such as high-volume endpoints.
+   * The first matching rule is used instead of sampleRate.
+   * @example [{ url: "/analytics", rate: 0.1 }]
+   */
+  sampleRates?: BodySampleRule[];
+}
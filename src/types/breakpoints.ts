@@ -0,0 +1,42 @@
+import { RequestMatcher } from "./matching";
+
+/**
+ * When a breakpoint pauses a call: before it is sent, or before its
+ * response reaches app code.
+ */
+export type BreakpointStage = "request" | "response";
+
+/**
+ * A rule that pauses matching fetch/XHR calls until the desktop resumes them.
+ */
+export interface BreakpointRule {
+  id: string;
+  /**
+   * Rules are enabled unless explicitly set to false.
+   */
+  enabled?: boolean;
+  match: RequestMatcher;
+  /**
+   * Stages to pause at. Defaults to "request".
+   */
+  stages?: BreakpointStage[];
+  /**
+   * Milliseconds to wait for a resume before continuing unchanged.
+   */
+  timeout?: number;
+}
+
+/**
+ * Edits applied when resuming a paused call.
+ * Request-stage edits use url, method, headers and body; response-stage
+ * edits use status, statusText, headers and body. Headers replace the
+ * original set, and "[REDACTED]" values keep the original value.
+ */
+export interface BreakpointEdits {
+  url?: string;
+  method?: string;
+  headers?: Record<string, string>;
+  body?: string;
+  status?: number;
+  statusText?: string;
+}
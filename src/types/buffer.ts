@@ -0,0 +1,46 @@
+import { LimelightMessage } from "./limelight";
+
+/**
+ * Key-value storage used to persist buffered messages across app restarts.
+ * AsyncStorage and localStorage satisfy this interface as-is; a file-backed
+ * adapter only needs to implement these three methods.
+ */
+export interface BufferStorage {
+  getItem(key: string): string | null | Promise<string | null>;
+  setItem(key: string, value: string): void | Promise<void>;
+  removeItem(key: string): void | Promise<void>;
+}
+
+/**
+ * Options for the buffer that holds messages while the desktop is unreachable.
+ */
+export interface MessageBufferConfig {
+  /**
+   * Where to persist buffered messages. Defaults to in-memory only.
+   * @example AsyncStorage
+   */
+  storage?: BufferStorage;
+  /**
+   * Storage key used for persisted messages.
+   * @default "limelight:buffer"
+   */
+  storageKey?: string;
+  /**
+   * Maximum serialized size of all buffered messages, in bytes.
+   * The oldest messages are dropped first.
+   * @default 1048576 (1 MB)
+   */
+  maxBytes?: number;
+  /**
+   * Maximum number of buffered messages.
+   * @default 1000
+   */
+  maxMessages?: number;
+}
+
+/**
+ * A message stamped with a per-client sequence number.
+ * Together with sessionId, seq lets the receiver drop messages it has already
+ * seen when a buffer is replayed more than once.
+ */
+export type SequencedMessage = LimelightMessage & { seq: number };
@@ -1,5 +1,25 @@
+import { MockRule } from "./mock";
+import {
+  BreakpointEdits,
+  BreakpointRule,
+  BreakpointStage,
+} from "./breakpoints";
+import { NetworkProfile } from "./network-conditions";
+import { ReplayRequestOverrides } from "./replay";
+import { TransportAgreement } from "./batching";
+import { ServerCapabilities } from "./protocol";
+
 export enum CommandType {
   CLEAR_RENDERS = "CLEAR_RENDERS",
+  REPLAY_REQUEST = "REPLAY_REQUEST",
+  SET_MOCK_RULES = "SET_MOCK_RULES",
+  CLEAR_MOCK_RULES = "CLEAR_MOCK_RULES",
+  SET_NETWORK_PROFILE = "SET_NETWORK_PROFILE",
+  SET_BREAKPOINTS = "SET_BREAKPOINTS",
+  CLEAR_BREAKPOINTS = "CLEAR_BREAKPOINTS",
+  RESUME_REQUEST = "RESUME_REQUEST",
+  CONNECT_ACK = "CONNECT_ACK",
+  EXPORT_HAR = "EXPORT_HAR",
   ACK = "ACK",
 }
 
@@ -12,11 +32,98 @@ export interface ClearRendersCommand extends BaseCommand {
   type: CommandType.CLEAR_RENDERS;
 }
 
-export type Command = ClearRendersCommand;
+/**
+ * Re-issues a captured request from inside the running app.
+ * Either requestId, request (an edited payload), or both must be provided.
+ */
+export interface ReplayRequestCommand extends BaseCommand {
+  type: CommandType.REPLAY_REQUEST;
+  requestId?: string;
+  request?: ReplayRequestOverrides;
+}
+
+/**
+ * Replaces the mock rules previously pushed from the desktop.
+ */
+export interface SetMockRulesCommand extends BaseCommand {
+  type: CommandType.SET_MOCK_RULES;
+  rules: MockRule[];
+}
+
+/**
+ * Removes all mock rules pushed from the desktop.
+ */
+export interface ClearMockRulesCommand extends BaseCommand {
+  type: CommandType.CLEAR_MOCK_RULES;
+}
+
+/**
+ * Switches the simulated network profile. A null profile disables throttling.
+ */
+export interface SetNetworkProfileCommand extends BaseCommand {
+  type: CommandType.SET_NETWORK_PROFILE;
+  profile: NetworkProfile | null;
+}
+
+/**
+ * Replaces the breakpoint rules previously pushed from the desktop.
+ */
+export interface SetBreakpointsCommand extends BaseCommand {
+  type: CommandType.SET_BREAKPOINTS;
+  rules: BreakpointRule[];
+}
+
+/**
+ * Removes all breakpoint rules pushed from the desktop and resumes paused calls.
+ */
+export interface ClearBreakpointsCommand extends BaseCommand {
+  type: CommandType.CLEAR_BREAKPOINTS;
+}
+
+/**
+ * Resumes a call paused by a breakpoint, optionally with edits.
+ */
+export interface ResumeRequestCommand extends BaseCommand {
+  type: CommandType.RESUME_REQUEST;
+  requestId: string;
+  stage?: BreakpointStage;
+  edits?: BreakpointEdits;
+}
+
+/**
+ * The desktop's reply to the CONNECT handshake.
+ * Older desktops never send it, so the SDK keeps its defaults until it arrives.
+ */
+export interface ConnectAckCommand extends BaseCommand {
+  type: CommandType.CONNECT_ACK;
+  protocolVersion?: string;
+  capabilities?: ServerCapabilities;
+  transport?: TransportAgreement;
+}
+
+/**
+ * Asks for the recorded network calls as a HAR document, returned in the ACK.
+ */
+export interface ExportHarCommand extends BaseCommand {
+  type: CommandType.EXPORT_HAR;
+}
+
+export type Command =
+  | ClearRendersCommand
+  | ReplayRequestCommand
+  | SetMockRulesCommand
+  | ClearMockRulesCommand
+  | SetNetworkProfileCommand
+  | SetBreakpointsCommand
+  | ClearBreakpointsCommand
+  | ResumeRequestCommand
+  | ConnectAckCommand
+  | ExportHarCommand;
 
 export interface CommandAckEvent {
   phase: CommandType.ACK;
   commandId: string;
   type: CommandType;
   success: boolean;
+  data?: unknown; // result of commands that return something, e.g. EXPORT_HAR
 }
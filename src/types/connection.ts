@@ -0,0 +1,56 @@
+/**
+ * Where the client is in its connection lifecycle.
+ * - "idle": not configured or reset
+ * - "connecting": first connection attempt in progress
+ * - "connected": the transport is open
+ * - "reconnecting": the connection dropped and a retry is scheduled or in progress
+ * - "disconnected": disconnected on purpose, or out of retries
+ */
+export type ConnectionState =
+  "idle" | "connecting" | "connected" | "reconnecting" | "disconnected";
+
+/**
+ * Options for reconnecting after the connection drops.
+ */
+export interface ReconnectConfig {
+  /**
+   * How many times to retry before giving up. Use Infinity to retry forever.
+   * @default 5
+   */
+  maxAttempts?: number;
+  /**
+   * Delay before the first retry, in ms. Doubles with each attempt.
+   * @default 1000
+   */
+  baseDelay?: number;
+  /**
+   * Upper bound for the delay between retries, in ms.
+   * @default 30000
+   */
+  maxDelay?: number;
+  /**
+   * Randomizes each delay by up to this fraction (0 to 1), so many devices
+   * do not retry in lockstep.
+   * @default 0
+   */
+  jitter?: number;
+  /**
+   * Retry immediately when the app returns to the foreground.
+   * @default true
+   */
+  reconnectOnForeground?: boolean;
+  /**
+   * Retry immediately when the device regains network connectivity.
+   * @default true
+   */
+  reconnectOnNetworkRegained?: boolean;
+}
+
+/**
+ * The subset of @react-native-community/netinfo used by the SDK.
+ */
+export interface NetInfoLike {
+  addEventListener(
+    listener: (state: { isConnected: boolean | null }) => void,
+  ): () => void;
+}
@@ -2,8 +2,10 @@ import {
   GraphqlOprtation,
   GraphQLRequest,
   GraphQLResponse,
+  GraphQLResultSummary,
   ConsoleEvent,
 } from "./index";
+import { BreakpointStage } from "./breakpoints";
 
 // ============================================================================
 // ENUMS
@@ -19,14 +21,24 @@ export enum NetworkPhase {
   CONNECT = "CONNECT",
   REQUEST = "REQUEST",
   RESPONSE = "RESPONSE",
+  RESPONSE_CHUNK = "RESPONSE_CHUNK",
+  PROGRESS = "PROGRESS",
   ERROR = "ERROR",
   ABORT = "ABORT",
+  PAUSED = "PAUSED",
 }
 
 export enum BodyFormat {
   TEXT = "TEXT",
   JSON = "JSON",
   FORM_DATA = "FORM_DATA",
+  FORM_URLENCODED = "FORM_URLENCODED",
+  MULTIPART = "MULTIPART",
+  XML = "XML",
+  HTML = "HTML",
+  IMAGE = "IMAGE",
+  PROTOBUF = "PROTOBUF",
+  MSGPACK = "MSGPACK",
   BLOB = "BLOB",
   ARRAY_BUFFER = "ARRAY_BUFFER",
   NONE = "NONE",
@@ -65,6 +77,32 @@ export interface SerializedBody {
   size: number; // bytes (approx)
   preview: string; // truncated view ("{...}", "[FormData]", "[Blob]")
   raw?: string; // optional full string version when feasible
+  truncated?: boolean; // raw was cut or left out at the capture limit; size is still the full size
+  encoding?: "base64"; // set when raw holds a binary body
+  contentType?: string; // binary bodies only, sniffed from the content or declared
+  parts?: SerializedBodyPart[]; // FORM_DATA, FORM_URLENCODED and MULTIPART only
+  json?: unknown; // JSON only, parsed with long strings, arrays and objects cut short
+  image?: SerializedImage; // IMAGE only
+}
+
+/**
+ * What is known about an image body without decoding it.
+ */
+export interface SerializedImage {
+  width?: number;
+  height?: number;
+  thumbnail?: string; // data URL, small images only
+}
+
+/**
+ * One FormData entry or multipart part. Files are described, not captured.
+ */
+export interface SerializedBodyPart {
+  name?: string;
+  value?: string; // text parts only
+  fileName?: string;
+  contentType?: string;
+  size?: number; // bytes, unknown for React Native file references
 }
 
 // ============================================================================
@@ -80,11 +118,19 @@ export interface BaseNetworkEvent {
   timestamp: number; // unix ms
   phase: NetworkPhase;
   networkType: NetworkType;
+  replayOf?: string; // id of the original request when this is a replay
   graphql?: {
     operationName?: string;
     operationType?: GraphqlOprtation | null;
     variables?: any;
     query?: string;
+    persistedQueryHash?: string; // Apollo automatic persisted queries
+    documentId?: string; // Relay persisted queries
+    fragments?: string[]; // fragments the operation spreads, directly or nested
+    rootFields?: string[];
+    depth?: number; // deepest field selection
+    complexity?: number; // estimated, see analyzeGraphQLDocument
+    batchSize?: number; // batched requests only, each operation is sent as a child event
   };
 }
 
@@ -100,6 +146,28 @@ export interface NetworkRequest extends BaseNetworkEvent {
   name: string; // short friendly name ("/posts", "countries")
   initiator: string; // "fetch()", "graphql()", "axios", etc
   requestSize: number; // estimated byte size of outbound payload
+  timeout?: number; // ms, XHR only
+  responseType?: XMLHttpRequestResponseType; // XHR only
+  withCredentials?: boolean; // XHR only
+}
+
+/**
+ * Where the time in a call went. Milestones are in ms since the request
+ * started; phases are durations in ms and come from Resource Timing, when the
+ * platform records an entry for the request.
+ */
+export interface NetworkTiming {
+  uploadEnd?: number; // request body fully sent
+  headers?: number; // response headers received
+  firstByte?: number; // first byte of the response body received
+  total: number;
+  start?: number; // performance.now() when the request started
+  end?: number; // performance.now() when the response was captured
+  dns?: number;
+  connect?: number; // includes tls
+  tls?: number;
+  request?: number; // request sent until the first byte
+  download?: number; // first byte until the last
 }
 
 /**
@@ -115,6 +183,39 @@ export interface NetworkResponse extends BaseNetworkEvent {
   responseSize: number; // bytes
   redirected: boolean;
   ok: boolean;
+  mocked?: boolean; // true when the body came from a mock rule
+  mockRuleId?: string;
+  streamed?: boolean; // true when sent after a streaming body closed
+  chunkCount?: number; // streamed responses only
+  truncated?: boolean; // true when the body was cut off at the capture limit
+  graphqlResult?: GraphQLResultSummary; // GraphQL requests only
+  timing?: NetworkTiming;
+}
+
+/**
+ * RESPONSE_CHUNK event: one piece of a streaming body (SSE, NDJSON, chunked),
+ * sent as it arrives. The RESPONSE follows once the stream closes.
+ */
+export interface NetworkResponseChunk extends BaseNetworkEvent {
+  phase: NetworkPhase.RESPONSE_CHUNK;
+  index: number; // 0-based position in the stream
+  data?: string; // decoded text, omitted when body capture is disabled
+  truncated?: boolean; // true once the stream is past the capture limit
+  size: number; // bytes
+  elapsed: number; // ms since the request started
+  sinceLastChunk: number; // ms since the previous chunk, or the response headers
+}
+
+/**
+ * PROGRESS event: how much of a request or response body has been transferred.
+ * Sent periodically while an XHR uploads or downloads.
+ */
+export interface NetworkProgressEvent extends BaseNetworkEvent {
+  phase: NetworkPhase.PROGRESS;
+  direction: "upload" | "download";
+  loaded: number; // bytes
+  total?: number; // bytes, when the size is known
+  elapsed: number; // ms since the request started
 }
 
 /**
@@ -124,6 +225,24 @@ export interface NetworkErrorEvent extends BaseNetworkEvent {
   phase: NetworkPhase.ERROR | NetworkPhase.ABORT;
   errorMessage: string;
   stack?: string;
+  mocked?: boolean;
+  mockRuleId?: string;
+}
+
+/**
+ * PAUSED event: a breakpoint is holding the call until the desktop resumes it
+ */
+export interface NetworkPausedEvent extends BaseNetworkEvent {
+  phase: NetworkPhase.PAUSED;
+  stage: BreakpointStage;
+  breakpointId: string;
+  url: string;
+  method: string;
+  headers: Record<string, string>;
+  body?: SerializedBody;
+  status?: number; // response stage only
+  statusText?: string; // response stage only
+  timeout: number; // ms until the call resumes unchanged
 }
 
 /**
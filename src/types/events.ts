@@ -0,0 +1,28 @@
+import { LimelightMessage } from "./limelight";
+
+/**
+ * The phase of any message the SDK emits, e.g. "REQUEST" or "CONSOLE".
+ * Enum phases are widened to their string values so either form can be used.
+ */
+export type LimelightEventPhase = `${LimelightMessage["phase"]}`;
+
+/**
+ * The messages emitted with a given phase, or every message for "*".
+ */
+export type LimelightEventOf<P extends LimelightEventPhase | "*"> =
+  P extends "*"
+    ? LimelightMessage
+    : LimelightMessage extends infer M
+      ? M extends { phase: infer Q extends string }
+        ? P extends `${Q}`
+          ? M
+          : never
+        : never
+      : never;
+
+/**
+ * A function subscribed with Limelight.on().
+ */
+export type LimelightEventListener<P extends LimelightEventPhase | "*"> = (
+  message: LimelightEventOf<P>,
+) => void;
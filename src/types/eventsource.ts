@@ -0,0 +1,92 @@
+import { SerializedBody } from "./core";
+
+// ============================================================================
+// EVENTSOURCE INSPECTION TYPES
+// ============================================================================
+
+/**
+ * EventSource event phases
+ */
+export enum EventSourcePhase {
+  OPEN = "EVENTSOURCE:OPEN",
+  MESSAGE = "EVENTSOURCE:MESSAGE",
+  ERROR = "EVENTSOURCE:ERROR",
+  RECONNECT = "EVENTSOURCE:RECONNECT",
+  CLOSE = "EVENTSOURCE:CLOSE",
+}
+
+/**
+ * An EventSource implementation whose instances can be inspected, such as
+ * the react-native-sse polyfill.
+ */
+export interface EventSourceLike {
+  prototype: {
+    addEventListener(type: string, listener: (event: any) => void): void;
+    close(): void;
+  };
+}
+
+/**
+ * Base shape for EventSource events
+ */
+interface BaseEventSourceEvent {
+  phase: EventSourcePhase;
+  sessionId: string;
+  timestamp: number;
+  connectionId: string; // links every event of one EventSource
+  url: string;
+}
+
+/**
+ * Sent when the stream first connects
+ */
+export interface EventSourceOpenEvent extends BaseEventSourceEvent {
+  phase: EventSourcePhase.OPEN;
+  connectTime: number; // ms from construction to open
+}
+
+/**
+ * Sent for every event received on the stream
+ */
+export interface EventSourceMessageEvent extends BaseEventSourceEvent {
+  phase: EventSourcePhase.MESSAGE;
+  eventType: string; // "message", or the name from the "event:" field
+  lastEventId?: string;
+  data?: SerializedBody;
+  size: number; // bytes
+  retry?: number; // reconnection time in ms, when the implementation exposes it
+}
+
+/**
+ * Sent when the stream reports an error
+ */
+export interface EventSourceErrorEvent extends BaseEventSourceEvent {
+  phase: EventSourcePhase.ERROR;
+  errorMessage: string;
+  willReconnect?: boolean; // omitted when the implementation has no readyState
+}
+
+/**
+ * Sent when the stream connects again after an error
+ */
+export interface EventSourceReconnectEvent extends BaseEventSourceEvent {
+  phase: EventSourcePhase.RECONNECT;
+  attempt: number; // 1 for the first reconnect
+  downtime: number; // ms since the error that dropped the stream
+}
+
+/**
+ * Sent when the stream is closed by the app or gives up after an error
+ */
+export interface EventSourceCloseEvent extends BaseEventSourceEvent {
+  phase: EventSourcePhase.CLOSE;
+  reason: "client" | "error";
+  duration: number; // ms since construction
+}
+
+export type EventSourceEvent =
+  | EventSourceOpenEvent
+  | EventSourceMessageEvent
+  | EventSourceErrorEvent
+  | EventSourceReconnectEvent
+  | EventSourceCloseEvent;
@@ -2,21 +2,28 @@ import { NetworkRequest, NetworkResponse, NetworkType } from "./index";
 
 /**
  * GRAPHQL EXTENSIONS
+ * One operation of a batched GraphQL request, sent after the HTTP request it
+ * belongs to. Its id is the parent id followed by ":" and the batch index.
  */
 export interface GraphQLRequest extends NetworkRequest {
   networkType: NetworkType.GRAPHQL;
-  query: string;
+  query?: string;
   variables?: Record<string, any>;
   operationName?: string;
+  parentId?: string; // id of the HTTP request
+  batchIndex?: number;
 }
 
 /**
  * GRAPHQL Response
+ * The result of one batched operation, sent after the HTTP response.
  */
 export interface GraphQLResponse extends NetworkResponse {
   networkType: NetworkType.GRAPHQL;
   data?: any;
   errors?: any[];
+  parentId?: string; // id of the HTTP request
+  batchIndex?: number;
 }
 
 export enum GraphqlOprtation {
@@ -24,3 +31,32 @@ export enum GraphqlOprtation {
   MUTATION = "MUTATION",
   SUB = "SUBSCRIPTION",
 }
+
+/**
+ * A GraphQL error from a response body, reduced to the fields the desktop shows.
+ */
+export interface GraphQLErrorSummary {
+  message: string;
+  path?: (string | number)[];
+  code?: string; // extensions.code
+}
+
+/**
+ * What a GraphQL response body carried besides its data.
+ */
+export interface GraphQLResultSummary {
+  errors?: GraphQLErrorSummary[];
+  hasPartialData: boolean; // true when errors came back alongside non-null data
+  nullCounts: Record<string, number>; // null values under each top-level field
+  operations?: GraphQLResultSummary[]; // batched responses only, in batch order
+}
+
+/**
+ * The shape of a GraphQL query document, read without a schema.
+ */
+export interface GraphQLDocumentSummary {
+  fragments: string[];
+  rootFields: string[];
+  depth: number;
+  complexity: number;
+}
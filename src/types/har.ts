@@ -0,0 +1,83 @@
+import { BaseNetworkEvent, NetworkType } from "./core";
+import { GraphQLErrorSummary } from "./graphql";
+
+/**
+ * A HAR 1.2 document, as accepted by browser devtools and most HTTP tooling.
+ * @see http://www.softwareishard.com/blog/har-12-spec/
+ */
+export interface Har {
+  log: HarLog;
+}
+
+export interface HarLog {
+  version: "1.2";
+  creator: { name: string; version: string };
+  entries: HarEntry[];
+}
+
+export interface HarNameValue {
+  name: string;
+  value: string;
+}
+
+export interface HarPostDataParam {
+  name: string;
+  value?: string;
+  fileName?: string;
+  contentType?: string;
+}
+
+export interface HarRequest {
+  method: string;
+  url: string;
+  httpVersion: string;
+  cookies: HarNameValue[];
+  headers: HarNameValue[];
+  queryString: HarNameValue[];
+  postData?: { mimeType: string; text: string; params?: HarPostDataParam[] };
+  headersSize: -1;
+  bodySize: number;
+}
+
+export interface HarResponse {
+  status: number; // 0 when the call failed or has not finished
+  statusText: string;
+  httpVersion: string;
+  cookies: HarNameValue[];
+  headers: HarNameValue[];
+  content: {
+    size: number;
+    mimeType: string;
+    text?: string;
+    encoding?: "base64";
+  };
+  redirectURL: string;
+  headersSize: -1;
+  bodySize: number;
+}
+
+export interface HarEntry {
+  startedDateTime: string;
+  time: number;
+  request: HarRequest;
+  response: HarResponse;
+  cache: Record<string, never>;
+  timings: {
+    dns?: number;
+    connect?: number;
+    ssl?: number;
+    send: number;
+    wait: number;
+    receive: number;
+  };
+  // Custom fields, prefixed with "_" as the spec requires
+  _id: string;
+  _networkType: NetworkType;
+  _graphql?: BaseNetworkEvent["graphql"];
+  _graphqlErrors?: GraphQLErrorSummary[];
+  _error?: string;
+  _aborted?: boolean;
+  _pending?: boolean;
+  _mocked?: boolean;
+  _replayOf?: string;
+}
@@ -5,3 +5,22 @@ export * from "./limelight";
 export * from "./stack-trace";
 export * from "./request-bridge";
 export * from "./commands";
+export * from "./replay";
+export * from "./matching";
+export * from "./body-capture";
+export * from "./network-filter";
+export * from "./mock";
+export * from "./network-conditions";
+export * from "./breakpoints";
+export * from "./buffer";
+export * from "./batching";
+export * from "./protocol";
+export * from "./lifecycle";
+export * from "./connection";
+export * from "./events";
+export * from "./transport";
+export * from "./har";
+export * from "./recording";
+export * from "./archive";
+export * from "./websocket";
+export * from "./eventsource";
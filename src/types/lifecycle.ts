@@ -0,0 +1,49 @@
+/**
+ * Whether the app is visible to the user.
+ */
+export type AppLifecycleState = "foreground" | "background";
+
+/**
+ * The subset of React Native's AppState module used by the SDK.
+ */
+export interface AppStateLike {
+  currentState: string;
+  addEventListener(
+    type: "change",
+    listener: (state: string) => void,
+  ): { remove(): void } | undefined;
+}
+
+/**
+ * Why a session ended on purpose. A session that ends without a DISCONNECT
+ * was cut off, e.g. because the app was killed.
+ */
+export type DisconnectReason = "disconnect" | "reset";
+
+/**
+ * RECONNECT event: sent after CONNECT when a dropped connection comes back,
+ * linking it to the session that was interrupted. Automatic reconnects keep
+ * the session, so previousSessionId only differs after a new connect() call.
+ */
+export interface ReconnectEvent {
+  phase: "RECONNECT";
+  sessionId: string;
+  timestamp: number;
+  data: {
+    previousSessionId: string;
+    gapMs: number; // time between the drop and the new connection
+  };
+}
+
+/**
+ * APP_STATE event: the app moved between foreground and background.
+ */
+export interface AppStateEvent {
+  phase: "APP_STATE";
+  sessionId: string;
+  timestamp: number;
+  data: {
+    state: AppLifecycleState;
+    previousState: AppLifecycleState | null;
+  };
+}
@@ -2,11 +2,33 @@ import { CommandAckEvent } from "./commands";
 import {
   ConsoleEvent,
   NetworkErrorEvent,
+  NetworkPausedEvent,
+  NetworkProgressEvent,
   NetworkRequest,
   NetworkResponse,
+  NetworkResponseChunk,
 } from "./index";
 import { RenderSnapshot, TransactionEvent } from "./render";
 import { StateInitEvent, StateUpdateEvent } from "./state";
+import { MockRule } from "./mock";
+import { BreakpointRule } from "./breakpoints";
+import { BodyCaptureConfig } from "./body-capture";
+import { NetworkFilterConfig } from "./network-filter";
+import { NetworkProfile } from "./network-conditions";
+import { MessageBufferConfig } from "./buffer";
+import { BatchingConfig, TransportOffer } from "./batching";
+import { SdkCapabilities } from "./protocol";
+import { NetInfoLike, ReconnectConfig } from "./connection";
+import { TransportOption } from "./transport";
+import { RecordingConfig } from "./recording";
+import { WebSocketEvent } from "./websocket";
+import { EventSourceEvent, EventSourceLike } from "./eventsource";
+import {
+  AppStateEvent,
+  AppStateLike,
+  DisconnectReason,
+  ReconnectEvent,
+} from "./lifecycle";
 
 /**
  * Configuration options for Limelight SDK.
@@ -55,6 +77,23 @@ export interface LimelightConfig {
    * Flag to enable or disable network request inspection.
    */
   enableNetworkInspector?: boolean;
+  /**
+   * Ignore and include rules for fetch, XHR and manually tracked requests.
+   */
+  network?: NetworkFilterConfig;
+  /**
+   * Flag to enable or disable inspection of the app's own WebSocket connections.
+   */
+  enableWebSocketInspector?: boolean;
+  /**
+   * Flag to enable or disable inspection of EventSource (server-sent events) streams.
+   */
+  enableEventSourceInspector?: boolean;
+  /**
+   * An EventSource polyfill to inspect in addition to the global EventSource.
+   * @example import EventSource from "react-native-sse";
+   */
+  eventSource?: EventSourceLike;
   /**
    * Flag to enable or disable console event capturing.
    */
@@ -67,6 +106,11 @@ export interface LimelightConfig {
    * Flag to disable capturing of request and response bodies.
    */
   disableBodyCapture?: boolean;
+  /**
+   * Size limits, URL filters and sampling for request and response body capture.
+   * Ignored when disableBodyCapture is set.
+   */
+  bodyCapture?: BodyCaptureConfig;
   /**
    * Flag to enable or disable render inspection.
    */
@@ -85,6 +129,63 @@ export interface LimelightConfig {
    * Flag to enable or disable internal logging for the Limelight SDK
    */
   enableInternalLogging?: boolean;
+  /**
+   * Mock rules applied to fetch and XHR requests.
+   * Rules pushed from the desktop take precedence over these.
+   */
+  mockRules?: MockRule[];
+  /**
+   * Simulated network conditions applied to fetch, XHR and manually tracked requests.
+   * Can be switched at runtime with Limelight.setNetworkProfile().
+   * @example "3G"
+   */
+  networkProfile?: NetworkProfile;
+  /**
+   * Breakpoint rules that pause matching fetch and XHR calls until resumed
+   * from the desktop. Rules pushed from the desktop take precedence over these.
+   */
+  breakpoints?: BreakpointRule[];
+  /**
+   * Controls how messages are buffered while the desktop is unreachable.
+   * Pass a storage adapter (e.g. AsyncStorage or localStorage) to keep
+   * buffered messages across app restarts.
+   */
+  buffer?: MessageBufferConfig;
+  /**
+   * Coalesces messages into BATCH frames when the desktop supports it.
+   * Pass true for defaults.
+   */
+  batching?: boolean | BatchingConfig;
+  /**
+   * React Native's AppState module, used to report foreground/background
+   * transitions. On web, document visibility is used automatically.
+   * @example import { AppState } from "react-native";
+   */
+  appState?: AppStateLike;
+  /**
+   * How to reach the desktop. Use "http" where WebSockets are blocked, or
+   * `{ type: "http", headers }` to pass options to the HTTP transport. Use a
+   * factory for custom transports such as FileTransport on CI runners.
+   * @default "websocket"
+   * @example transport: () => new FileTransport({ write: (chunk) => fs.promises.appendFile("limelight.ndjson", chunk) })
+   */
+  transport?: TransportOption;
+  /**
+   * Controls retries after the connection drops.
+   */
+  reconnect?: ReconnectConfig;
+  /**
+   * @react-native-community/netinfo, used to reconnect as soon as the device
+   * is back online. On web, the window "online" event is used automatically.
+   * @example import NetInfo from "@react-native-community/netinfo";
+   */
+  netInfo?: NetInfoLike;
+  /**
+   * Keeps recent messages in memory so they can be exported with exportHar()
+   * and exportSession(). Off by default, since recorded bodies take up memory.
+   * Pass true for defaults.
+   */
+  recording?: boolean | RecordingConfig;
   /**
    * A callback function to modify or filter events before they are sent to the server
    */
@@ -101,9 +202,12 @@ export interface ConnectionEvent {
   data: {
     appName?: string;
     platform?: string;
-    reason?: string; // for disconnect
+    reason?: DisconnectReason; // for disconnect
     projectKey: string;
     sdkVersion: string;
+    protocolVersion?: string;
+    capabilities?: SdkCapabilities;
+    transport?: TransportOffer; // only sent when batching is enabled
   };
 }
 
@@ -113,9 +217,16 @@ export interface ConnectionEvent {
 export type LimelightMessage =
   | NetworkRequest
   | NetworkResponse
+  | NetworkResponseChunk
+  | NetworkProgressEvent
   | NetworkErrorEvent
+  | NetworkPausedEvent
+  | WebSocketEvent
+  | EventSourceEvent
   | ConsoleEvent
   | ConnectionEvent
+  | ReconnectEvent
+  | AppStateEvent
   | RenderSnapshot
   | TransactionEvent
   | StateInitEvent
@@ -0,0 +1,27 @@
+import { HttpMethod } from "./core";
+
+/**
+ * URL pattern used by request rules.
+ * Strings containing `*` are globs, strings wrapped in slashes ("/users\/\d+/i")
+ * are regular expressions, and any other string matches as a substring.
+ */
+export type UrlPattern = string | RegExp;
+
+/**
+ * Describes which requests a rule applies to.
+ * All provided fields must match; omitted fields match anything.
+ */
+export interface RequestMatcher {
+  url?: UrlPattern;
+  method?: HttpMethod | string;
+  operationName?: string;
+}
+
+/**
+ * The request fields rules are evaluated against.
+ */
+export interface MatchableRequest {
+  url: string;
+  method: string;
+  operationName?: string;
+}
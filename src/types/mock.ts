@@ -0,0 +1,41 @@
+import { RequestMatcher } from "./matching";
+import { ResponseBridgeConfig } from "./request-bridge";
+
+/**
+ * A rule that short-circuits matching requests without touching the network.
+ * With only a delay set, the request still goes out after the injected latency.
+ */
+export interface MockRule {
+  id: string;
+  /**
+   * Rules are enabled unless explicitly set to false.
+   */
+  enabled?: boolean;
+  match: RequestMatcher;
+  /**
+   * Canned response returned instead of the real one.
+   */
+  response?: ResponseBridgeConfig;
+  /**
+   * Latency in ms applied before responding, failing or sending.
+   */
+  delay?: number;
+  /**
+   * Fails the request as a network error with this message.
+   */
+  error?: string;
+  /**
+   * Fails the request as if it was aborted.
+   */
+  abort?: boolean;
+}
+
+/**
+ * A canned response with its body serialized and headers filled in.
+ */
+export interface NormalizedMockResponse {
+  status: number;
+  statusText: string;
+  headers: Record<string, string>;
+  body: string;
+}
@@ -0,0 +1,39 @@
+/**
+ * Simulated network characteristics applied to intercepted requests.
+ */
+export interface NetworkConditions {
+  /**
+   * Display name reported on emitted events.
+   */
+  name?: string;
+  /**
+   * Latency in ms added before each request goes out.
+   */
+  latency?: number;
+  /**
+   * Download bandwidth in kilobits per second. Unlimited when omitted.
+   */
+  downloadKbps?: number;
+  /**
+   * Upload bandwidth in kilobits per second. Unlimited when omitted.
+   */
+  uploadKbps?: number;
+  /**
+   * Probability between 0 and 1 that a request fails as a network error.
+   */
+  packetLoss?: number;
+  /**
+   * Fails every request as if the device had no connection.
+   */
+  offline?: boolean;
+}
+
+/**
+ * Names of the built-in network profiles.
+ */
+export type NetworkProfileName = "slow-3G" | "3G" | "flaky" | "offline";
+
+/**
+ * A built-in profile name or custom network conditions.
+ */
+export type NetworkProfile = NetworkProfileName | NetworkConditions;
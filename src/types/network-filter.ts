@@ -0,0 +1,41 @@
+import { RequestMatcher, UrlPattern } from "./matching";
+
+/**
+ * Matches requests by URL, host, method or GraphQL operation name.
+ * All provided fields must match; omitted fields match anything.
+ */
+export interface NetworkFilterMatcher extends RequestMatcher {
+  /**
+   * Matched against the URL's hostname, e.g. "sentry.io" or "/^api\d\./".
+   */
+  host?: UrlPattern;
+}
+
+/**
+ * A URL pattern, or a matcher for anything more specific.
+ */
+export type NetworkFilterRule = UrlPattern | NetworkFilterMatcher;
+
+/**
+ * Decides which fetch, XHR and manually tracked requests are captured.
+ * Filtered requests are passed straight through, before any cloning or
+ * body serialization.
+ */
+export interface NetworkFilterConfig {
+  /**
+   * Requests matching any of these rules are not captured.
+   * @example ["/health", { host: "cdn.example.com" }, { method: "OPTIONS" }]
+   */
+  ignore?: NetworkFilterRule[];
+  /**
+   * When set, only requests matching one of these rules are captured.
+   * Ignore rules still apply.
+   */
+  include?: NetworkFilterRule[];
+  /**
+   * Whether Metro symbolication calls, common analytics beacons and
+   * Limelight's own traffic are ignored.
+   * @default true
+   */
+  ignoreDefaults?: boolean;
+}
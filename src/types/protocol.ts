@@ -0,0 +1,31 @@
+import { CommandType } from "./commands";
+
+/**
+ * Groups of events the SDK can capture, as advertised in the handshake.
+ */
+export type InterceptorName =
+  "network" | "websocket" | "eventsource" | "console" | "render" | "state";
+
+/**
+ * Parts of the SDK that are turned off when the desktop cannot handle them.
+ * "bridge" is the RequestBridge behind startRequest().
+ */
+export type NegotiatedFeature =
+  InterceptorName | "batching" | "breakpoints" | "bridge";
+
+/**
+ * What this SDK sends and accepts, advertised in the CONNECT handshake.
+ */
+export interface SdkCapabilities {
+  interceptors: InterceptorName[];
+  commands: CommandType[];
+}
+
+/**
+ * What the desktop understands, sent back in CONNECT_ACK.
+ * Omitted fields mean no restriction.
+ */
+export interface ServerCapabilities {
+  interceptors?: InterceptorName[];
+  commands?: CommandType[]; // commands the desktop can send
+}
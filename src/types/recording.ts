@@ -0,0 +1,16 @@
+/**
+ * Options for keeping recent messages in memory for exportHar() and
+ * exportSession().
+ */
+export interface RecordingConfig {
+  /**
+   * Flag to enable or disable recording.
+   * @default true
+   */
+  enabled?: boolean;
+  /**
+   * Most bytes of recorded messages to keep. The oldest are dropped past this.
+   * @default 5242880 (5 MB)
+   */
+  maxBytes?: number;
+}
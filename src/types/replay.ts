@@ -0,0 +1,23 @@
+import { NetworkRequest } from "./core";
+
+/**
+ * Everything needed to re-issue a request exactly as the app sent it.
+ * Headers are kept unredacted, so this never leaves the device.
+ */
+export interface ReplayableRequest {
+  url: string;
+  method: string;
+  headers: Record<string, string>;
+  body?: any;
+}
+
+/**
+ * Edited request payload sent by the desktop alongside a replay command.
+ * Headers replace the captured set; "[REDACTED]" values fall back to the captured value.
+ */
+export type ReplayRequestOverrides = Partial<
+  Pick<
+    NetworkRequest,
+    "id" | "url" | "method" | "headers" | "body" | "networkType"
+  >
+>;
@@ -0,0 +1,99 @@
+/**
+ * Passed to onopen and onclose. A WebSocket passes its DOM event; the other
+ * transports pass an empty object.
+ */
+export interface TransportEvent {
+  readonly type?: string;
+}
+
+/**
+ * Passed to onmessage with one serialized command.
+ */
+export interface TransportMessageEvent extends TransportEvent {
+  readonly data: string;
+}
+
+/**
+ * Passed to onerror. A WebSocket passes its DOM event; the other transports
+ * pass the error that ended the connection.
+ */
+export type TransportErrorEvent = Event | Error;
+
+/**
+ * A transport event handler. Declared through a method so a WebSocket, whose
+ * handlers take the richer DOM event types, is still a valid transport.
+ */
+export type TransportEventHandler<E> = {
+  handle(event: E): void;
+}["handle"];
+
+/**
+ * The connection the client sends messages over. Mirrors the subset of the
+ * WebSocket API the client uses, so a WebSocket is a valid transport.
+ * readyState uses the WebSocket values: 0 connecting, 1 open, 2 closing, 3 closed.
+ */
+export interface Transport {
+  readonly readyState: number;
+  /**
+   * Bytes queued but not yet sent, used for batching backpressure.
+   */
+  readonly bufferedAmount?: number;
+  onopen: TransportEventHandler<TransportEvent> | null;
+  onmessage: TransportEventHandler<TransportMessageEvent> | null;
+  onerror: TransportEventHandler<TransportErrorEvent> | null;
+  onclose: TransportEventHandler<TransportEvent> | null;
+  send(data: string): void;
+  close(): void;
+}
+
+/**
+ * Creates a transport for one connection attempt. Called again on every
+ * reconnect, so it should return a new transport each time.
+ */
+export type TransportFactory = (serverUrl: string) => Transport;
+
+/**
+ * Which transport to connect with.
+ * - "websocket": the default
+ * - "http": POSTs messages and long-polls for commands, for networks that block WebSockets
+ * - `{ type: "http", ...options }`: the HTTP transport with HttpTransportConfig options
+ * - a factory, for custom transports such as FileTransport or MemoryTransport
+ */
+export type TransportOption =
+  "websocket" | "http" | HttpTransportOption | TransportFactory;
+
+/**
+ * The HTTP transport with options.
+ * @example { type: "http", headers: { authorization: "Bearer token" } }
+ */
+export interface HttpTransportOption extends HttpTransportConfig {
+  type: "http";
+}
+
+/**
+ * Options for the HTTP transport.
+ */
+export interface HttpTransportConfig {
+  /**
+   * Extra headers sent with every request, e.g. for an authenticating proxy.
+   */
+  headers?: Record<string, string>;
+  /**
+   * Minimum time between command polls, in ms. Long-polling servers hold
+   * each poll open, so this only applies when a poll returns early.
+   * @default 1000
+   */
+  pollInterval?: number;
+}
+
+/**
+ * Options for the file transport.
+ */
+export interface FileTransportConfig {
+  /**
+   * Appends a chunk of NDJSON to the destination. Writes are serialized,
+   * so the next chunk is only written once the returned promise settles.
+   * @example (chunk) => fs.promises.appendFile("limelight.ndjson", chunk)
+   */
+  write: (chunk: string) => void | Promise<void>;
+}
@@ -0,0 +1,84 @@
+import { GraphqlOprtation } from "./graphql";
+import { SerializedBody } from "./core";
+
+// ============================================================================
+// WEBSOCKET INSPECTION TYPES
+// ============================================================================
+
+/**
+ * WebSocket event phases
+ */
+export enum WebSocketPhase {
+  OPEN = "WEBSOCKET:OPEN",
+  SEND = "WEBSOCKET:SEND",
+  RECEIVE = "WEBSOCKET:RECEIVE",
+  CLOSE = "WEBSOCKET:CLOSE",
+  ERROR = "WEBSOCKET:ERROR",
+}
+
+/**
+ * A decoded graphql-ws or subscriptions-transport-ws message
+ */
+export interface WebSocketGraphQLMessage {
+  type: string; // protocol message type, e.g. "subscribe", "next", "start", "data"
+  id?: string; // operation ID, linking a subscription to its results
+  operationName?: string;
+  operationType?: GraphqlOprtation | null;
+}
+
+/**
+ * Base shape for WebSocket events
+ */
+interface BaseWebSocketEvent {
+  phase: WebSocketPhase;
+  sessionId: string;
+  timestamp: number;
+  connectionId: string; // links every event of one socket
+  url: string;
+}
+
+/**
+ * Sent when the app's socket finishes connecting
+ */
+export interface WebSocketOpenEvent extends BaseWebSocketEvent {
+  phase: WebSocketPhase.OPEN;
+  protocol: string; // subprotocol chosen by the server
+  requestedProtocols: string[];
+  connectTime: number; // ms from construction to open
+}
+
+/**
+ * Sent for every frame the app sends or receives
+ */
+export interface WebSocketFrameEvent extends BaseWebSocketEvent {
+  phase: WebSocketPhase.SEND | WebSocketPhase.RECEIVE;
+  data?: SerializedBody; // text frames only
+  binary: boolean;
+  size: number; // bytes
+  graphql?: WebSocketGraphQLMessage;
+}
+
+/**
+ * Sent when the socket closes, cleanly or not
+ */
+export interface WebSocketCloseEvent extends BaseWebSocketEvent {
+  phase: WebSocketPhase.CLOSE;
+  code: number;
+  reason: string;
+  wasClean: boolean;
+  duration: number; // ms since construction
+}
+
+/**
+ * Sent when the socket reports an error
+ */
+export interface WebSocketErrorEvent extends BaseWebSocketEvent {
+  phase: WebSocketPhase.ERROR;
+  errorMessage: string;
+}
+
+export type WebSocketEvent =
+  | WebSocketOpenEvent
+  | WebSocketFrameEvent
+  | WebSocketCloseEvent
+  | WebSocketErrorEvent;